@@ -0,0 +1,24 @@
+/**
+ * Store the user's vault key, wrapped client-side with the encryption key
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('users', function(table) {
+    // Nullable: accounts created before vault keys existed encrypt with the encryption key directly
+    table.text('wrapped_vault_key');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('users', function(table) {
+    table.dropColumn('wrapped_vault_key');
+  });
+};
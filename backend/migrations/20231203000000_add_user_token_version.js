@@ -0,0 +1,23 @@
+/**
+ * Track a token version per user so that issued JWTs can be invalidated
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('users', function(table) {
+    table.integer('token_version').unsigned().notNullable().defaultTo(0);
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('users', function(table) {
+    table.dropColumn('token_version');
+  });
+};
@@ -0,0 +1,30 @@
+/**
+ * Store the master password KDF algorithm and parameters per user
+ * Existing accounts get the parameters the client used to hardcode.
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('users', function(table) {
+    table.string('kdf_algorithm', 32).notNullable().defaultTo('argon2id');
+    table.integer('kdf_iterations').unsigned().notNullable().defaultTo(3);
+    table.integer('kdf_memory').unsigned().notNullable().defaultTo(65536); // KiB
+    table.integer('kdf_parallelism').unsigned().notNullable().defaultTo(1);
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('users', function(table) {
+    table.dropColumn('kdf_algorithm');
+    table.dropColumn('kdf_iterations');
+    table.dropColumn('kdf_memory');
+    table.dropColumn('kdf_parallelism');
+  });
+};
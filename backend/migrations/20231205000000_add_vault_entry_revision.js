@@ -0,0 +1,27 @@
+/**
+ * Add opaque revision and item type to vault entries
+ * Entry metadata now lives inside the encrypted payload; the metadata column
+ * is only read for rows that clients have not migrated yet.
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('vault_entries', function(table) {
+    table.integer('revision').unsigned().notNullable().defaultTo(1);
+    table.string('item_type', 32).notNullable().defaultTo('login');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('vault_entries', function(table) {
+    table.dropColumn('revision');
+    table.dropColumn('item_type');
+  });
+};
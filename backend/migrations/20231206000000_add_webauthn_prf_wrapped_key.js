@@ -0,0 +1,24 @@
+/**
+ * Store the vault key wrapped with a passkey's PRF output, for passwordless login
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('webauthn_credentials', function(table) {
+    // Nullable: only passkeys whose authenticator supports the PRF extension can unlock the vault
+    table.text('prf_wrapped_vault_key');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('webauthn_credentials', function(table) {
+    table.dropColumn('prf_wrapped_vault_key');
+  });
+};
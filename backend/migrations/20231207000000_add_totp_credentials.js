@@ -0,0 +1,27 @@
+/**
+ * Store a TOTP secret per user as an alternative second factor
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('totp_credentials', function(table) {
+    table.uuid('user_id').primary();
+    table.text('encrypted_secret').notNullable(); // AES-256-GCM, see encryptSecret
+    table.boolean('enabled').notNullable().defaultTo(false); // False until a first code confirms enrollment
+    table.bigInteger('last_step'); // Time step of the last accepted code, for replay protection
+    table.timestamps(true, true);
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTableIfExists('totp_credentials');
+};
@@ -0,0 +1,28 @@
+/**
+ * Single-use recovery codes that stand in for a lost second factor
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('recovery_codes', function(table) {
+    table.uuid('id').primary();
+    table.uuid('user_id').notNullable();
+    table.string('code_hash', 64).notNullable(); // HMAC-SHA256, hex
+    table.timestamp('used_at'); // Set once the code has been redeemed
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.index('user_id');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTableIfExists('recovery_codes');
+};
@@ -0,0 +1,26 @@
+/**
+ * Store pending authentication challenges in the database, so they survive
+ * restarts and can be answered on any backend instance
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('challenges', function(table) {
+    table.string('key', 255).primary();
+    table.text('value').notNullable();
+    table.timestamp('expires_at').notNullable();
+
+    table.index('expires_at');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTableIfExists('challenges');
+};
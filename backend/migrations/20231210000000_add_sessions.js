@@ -0,0 +1,32 @@
+/**
+ * Server-side sessions, so that issued tokens can be listed and revoked
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('sessions', function(table) {
+    table.uuid('id').primary();
+    table.uuid('user_id').notNullable();
+    table.string('device_name', 100).notNullable();
+    table.string('ip_address', 45);
+    table.string('user_agent', 512);
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('last_seen_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('revoked_at'); // Set when the user signs the session out
+
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.index('user_id');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTableIfExists('sessions');
+};
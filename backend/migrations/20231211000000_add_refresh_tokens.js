@@ -0,0 +1,30 @@
+/**
+ * Rotating refresh tokens; each belongs to a session and is kept after use
+ * so that a rotated token presented again can be recognized
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('refresh_tokens', function(table) {
+    table.uuid('id').primary();
+    table.uuid('session_id').notNullable();
+    table.string('token_hash', 64).notNullable().unique(); // SHA-256, hex
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('used_at'); // Set once the token has been rotated
+
+    table.foreign('session_id').references('id').inTable('sessions').onDelete('CASCADE');
+    table.index('session_id');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTableIfExists('refresh_tokens');
+};
@@ -0,0 +1,35 @@
+/**
+ * Failed login attempts per account and per IP address, for backoff and lockout
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema
+    .createTable('login_throttles', function(table) {
+      table.string('key', 255).primary(); // login:<email>, 2fa:<user id> or ip:<address>
+      table.integer('failures').unsigned().notNullable().defaultTo(0); // Since the last lockout
+      table.integer('lockouts').unsigned().notNullable().defaultTo(0); // Each one lasts twice as long
+      table.timestamp('last_failure_at').notNullable();
+      table.timestamp('locked_until');
+    })
+    
+    // Shown to the user the next time they sign in
+    .alterTable('users', function(table) {
+      table.timestamp('last_lockout_at');
+    });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema
+    .alterTable('users', function(table) {
+      table.dropColumn('last_lockout_at');
+    })
+    .dropTableIfExists('login_throttles');
+};
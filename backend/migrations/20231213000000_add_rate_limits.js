@@ -0,0 +1,25 @@
+/**
+ * Request rate limit buckets shared by every backend instance
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('rate_limits', function(table) {
+    table.string('key', 255).primary(); // <route group>:<IP address>
+    table.float('tokens').notNullable();
+    table.timestamp('updated_at').notNullable();
+
+    table.index('updated_at');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTableIfExists('rate_limits');
+};
@@ -0,0 +1,29 @@
+/**
+ * Append-only log of security-relevant events per user
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.createTable('audit_events', function(table) {
+    table.uuid('id').primary();
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('type', 64).notNullable();
+    table.string('ip_address', 45);
+    table.string('user_agent', 512);
+    table.text('details').notNullable().defaultTo('{}'); // JSON; never secrets
+    table.timestamp('created_at').notNullable();
+
+    table.index(['user_id', 'created_at']);
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.dropTableIfExists('audit_events');
+};
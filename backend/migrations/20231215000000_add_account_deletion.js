@@ -0,0 +1,25 @@
+/**
+ * Scheduled account deletion, for the grace period in which an account can still be restored
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('users', function(table) {
+    table.timestamp('deletion_due_at'); // Purged once this has passed; null unless deletion was requested
+    table.index('deletion_due_at');
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('users', function(table) {
+    table.dropIndex('deletion_due_at');
+    table.dropColumn('deletion_due_at');
+  });
+};
@@ -0,0 +1,26 @@
+/**
+ * Vault entry IDs are chosen by the client, so each account gets IDs of its own;
+ * otherwise creating an entry could tell whether another account uses an ID
+ */
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.up = function(knex) {
+  return knex.schema.alterTable('vault_entries', function(table) {
+    table.dropPrimary();
+    table.primary(['user_id', 'id']);
+  });
+};
+
+/**
+ * @param {import('knex')} knex
+ * @returns {Promise<void>}
+ */
+exports.down = function(knex) {
+  return knex.schema.alterTable('vault_entries', function(table) {
+    table.dropPrimary();
+    table.primary(['id']);
+  });
+};
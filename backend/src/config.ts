@@ -4,6 +4,8 @@
 
 import dotenv from 'dotenv';
 import { resolve } from 'path';
+import type { Knex } from 'knex';
+import type { KdfParams } from './types';
 
 // Load environment variables from .env file
 dotenv.config({ path: resolve(__dirname, '../.env') });
@@ -21,27 +23,22 @@ interface Config {
   port: number;
   logLevel: string;
   jwtSecret: string;
-  jwtExpiresIn: string;
+  accessTokenTimeout: number; // Seconds an access token is valid; refreshed silently
+  refreshTokenTimeout: number; // Seconds an unused session stays signed in
+  twoFactorTimeout: number; // Seconds a login may wait for its second factor
+  challengeStore: 'memory' | 'sql'; // Use sql when running several instances
+  challengeTimeout: number; // Seconds an authentication challenge stays valid
+  rateLimitStore: 'memory' | 'sql'; // Use sql when running several instances
+  loginLockoutThreshold: number; // Failed logins to one account before it is locked
+  loginLockoutDuration: number; // Seconds the first lockout lasts; each further one doubles it
+  accountDeletionGracePeriod: number; // Seconds a deleted account can be restored, if the user asks for it
   cookieSecret: string;
+  secretEncryptionKey: string; // Encrypts secrets the server must read back, such as TOTP seeds
   rpID: string; // Relying Party ID for WebAuthn
   rpName: string; // Relying Party Name for WebAuthn
   origin: string; // Origin URL for WebAuthn and CORS
-  dbConfig: {
-    client: string;
-    connection: {
-      host: string;
-      port: number;
-      user: string;
-      password: string;
-      database: string;
-    };
-    migrations: {
-      directory: string;
-    };
-    seeds: {
-      directory: string;
-    };
-  };
+  kdfPolicy: KdfParams; // Minimum master password KDF cost for new credentials
+  dbConfig: Knex.Config;
 }
 
 // Get environment
@@ -57,11 +54,26 @@ export const config: Config = {
   port: parseInt(process.env.PORT || '3000', 10),
   logLevel: process.env.LOG_LEVEL || 'info',
   jwtSecret: process.env.JWT_SECRET || 'super-secret-jwt-token-for-falcon-pass',
-  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '1h',
+  accessTokenTimeout: parseInt(process.env.ACCESS_TOKEN_TIMEOUT || '900', 10),
+  refreshTokenTimeout: parseInt(process.env.REFRESH_TOKEN_TIMEOUT || '2592000', 10),
+  twoFactorTimeout: parseInt(process.env.TWO_FACTOR_TIMEOUT || '300', 10),
+  challengeStore: process.env.CHALLENGE_STORE === 'sql' ? 'sql' : 'memory',
+  challengeTimeout: parseInt(process.env.CHALLENGE_TIMEOUT || '300', 10),
+  rateLimitStore: process.env.RATE_LIMIT_STORE === 'sql' ? 'sql' : 'memory',
+  loginLockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10),
+  loginLockoutDuration: parseInt(process.env.LOGIN_LOCKOUT_DURATION || '900', 10),
+  accountDeletionGracePeriod: parseInt(process.env.ACCOUNT_DELETION_GRACE_PERIOD || '604800', 10),
   cookieSecret: process.env.COOKIE_SECRET || 'super-secret-cookie-for-falcon-pass',
+  secretEncryptionKey: process.env.SECRET_ENCRYPTION_KEY || 'super-secret-encryption-key-for-falcon-pass',
   rpID: process.env.RP_ID || 'localhost',
   rpName: process.env.RP_NAME || 'FalconPass',
   origin: process.env.ORIGIN || 'http://localhost:5174',
+  kdfPolicy: {
+    algorithm: 'argon2id',
+    iterations: parseInt(process.env.KDF_ITERATIONS || '3', 10),
+    memory: parseInt(process.env.KDF_MEMORY || '65536', 10),
+    parallelism: parseInt(process.env.KDF_PARALLELISM || '1', 10),
+  },
   dbConfig: {
     client: 'sqlite3',
     connection: {
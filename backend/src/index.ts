@@ -8,6 +8,10 @@ import { fastify } from 'fastify';
 import { config } from './config';
 import { registerPlugins } from './plugins';
 import { registerRoutes } from './routes';
+import { DeletionService } from './services/deletion.service';
+
+// How often accounts past their deletion grace period are purged
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
 
 // Create Fastify instance
 const server = fastify({
@@ -38,6 +42,21 @@ const start = async () => {
     await server.listen({ port: config.port, host: config.host });
     
     console.log(`Server is running on ${config.host}:${config.port}`);
+    
+    // Purge accounts whose deletion grace period is over, now and then periodically
+    const deletionService = new DeletionService();
+    const purge = async () => {
+      try {
+        const purged = await deletionService.purgeDueAccounts();
+        if (purged > 0) {
+          server.log.info({ purged }, 'Purged deleted accounts');
+        }
+      } catch (err) {
+        server.log.error(err);
+      }
+    };
+    purge();
+    setInterval(purge, PURGE_INTERVAL_MS).unref();
   } catch (err) {
     server.log.error(err);
     process.exit(1);
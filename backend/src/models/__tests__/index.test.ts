@@ -0,0 +1,114 @@
+import { unlinkSync } from 'fs';
+import knex from 'knex';
+import { UserModel, WebAuthnCredentialModel, VaultEntryModel, closeDatabase } from '..';
+import { config } from '../../config';
+
+// Run the models against a migrated SQLite file of their own
+jest.mock('../../config', () => {
+  const { config } = jest.requireActual('../../config');
+  const { join } = jest.requireActual('path');
+  const { tmpdir } = jest.requireActual('os');
+
+  return {
+    config: {
+      ...config,
+      dbConfig: {
+        ...config.dbConfig,
+        connection: { filename: join(tmpdir(), `falconpass-models-${process.pid}.db`) },
+      },
+    },
+  };
+});
+
+const databaseFile = (config.dbConfig.connection as { filename: string }).filename;
+
+describe('Models', () => {
+  let userId: string;
+
+  beforeAll(async () => {
+    const migrator = knex(config.dbConfig);
+    await migrator.migrate.latest();
+    await migrator.destroy();
+
+    userId = await UserModel.create({
+      email: 'test@example.com',
+      username: 'testuser',
+      clientSalt: 'salt123',
+      verifier: 'abcdef',
+      wrappedVaultKey: 'wrapped123',
+      kdf: config.kdfPolicy,
+    });
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    unlinkSync(databaseFile);
+  });
+
+  describe('UserModel', () => {
+    it('should read the timestamps of a stored user into its DTO', async () => {
+      // Act
+      const user = await UserModel.getDTOById(userId);
+
+      // Assert
+      expect(user).toMatchObject({ id: userId, email: 'test@example.com', hasTotp: false, hasWebAuthn: false });
+      expect(Number.isNaN(Date.parse(user!.createdAt))).toBe(false);
+      expect(Number.isNaN(Date.parse(user!.updatedAt))).toBe(false);
+    });
+  });
+
+  describe('WebAuthnCredentialModel', () => {
+    it('should read the timestamps of a stored credential into its DTO', async () => {
+      // Arrange
+      const id = await WebAuthnCredentialModel.create({
+        userId,
+        credentialId: 'cred123',
+        publicKey: 'publickey123',
+        counter: 0,
+        credentialDeviceType: 'multiDevice',
+        credentialBackedUp: true,
+      });
+
+      // Act
+      const credentials = await WebAuthnCredentialModel.getDTOsByUserId(userId);
+
+      // Assert
+      expect(credentials).toEqual([expect.objectContaining({ id, credentialId: 'cred123' })]);
+      expect(Number.isNaN(Date.parse(credentials[0].createdAt))).toBe(false);
+    });
+  });
+
+  describe('VaultEntryModel', () => {
+    const entryId = '5f0c2b8e-7d4a-4e1b-9a6c-3b2d1e0f9a8b';
+
+    it('should not let an entry ID be used twice in one account', async () => {
+      // Arrange
+      await VaultEntryModel.create({ id: entryId, userId, encryptedData: 'ciphertext' });
+
+      // Act & Assert
+      await expect(VaultEntryModel.create({ id: entryId, userId, encryptedData: 'other' })).rejects.toThrow(
+        'Entry already exists'
+      );
+    });
+
+    it('should keep entry IDs apart between accounts', async () => {
+      // Arrange
+      const otherUserId = await UserModel.create({
+        email: 'other@example.com',
+        username: 'otheruser',
+        clientSalt: 'salt456',
+        verifier: 'fedcba',
+        wrappedVaultKey: 'wrapped456',
+        kdf: config.kdfPolicy,
+      });
+
+      // Act
+      const entry = await VaultEntryModel.create({ id: entryId, userId: otherUserId, encryptedData: 'theirs' });
+
+      // Assert
+      expect(entry.id).toBe(entryId);
+      expect((await VaultEntryModel.getById(entryId, otherUserId))?.encryptedData).toBe('theirs');
+      expect((await VaultEntryModel.getById(entryId, userId))?.encryptedData).toBe('ciphertext');
+    });
+  });
+});
@@ -15,15 +15,38 @@ import {
   DatabaseUser,
   DatabaseWebAuthnCredential,
   DatabaseVaultEntry,
+  TotpCredential,
+  DatabaseTotpCredential,
+  Session,
+  DatabaseSession,
+  RefreshToken,
+  DatabaseRefreshToken,
+  LoginThrottle,
+  DatabaseLoginThrottle,
+  RateLimitBucket,
+  DatabaseRateLimitBucket,
+  AuditEvent,
+  AuditEventType,
+  DatabaseAuditEvent,
   UserRegistrationData,
+  PasswordChangeData,
+  KdfAlgorithm,
   VaultEntryCreateData,
   VaultEntryUpdateData,
+  VaultEntryMetadata,
 } from '../types';
 import { safeJsonParse, safeJsonStringify, snakeToCamel, camelToSnake } from '../utils';
 
 // Initialize Knex with configuration
 const db = knex(config.dbConfig);
 
+/**
+ * Close the database connections, so the process can exit
+ */
+export async function closeDatabase(): Promise<void> {
+  await db.destroy();
+}
+
 /**
  * User model for database operations
  */
@@ -40,6 +63,11 @@ export class UserModel {
       username: userData.username,
       client_salt: userData.clientSalt,
       verifier: userData.verifier,
+      wrapped_vault_key: userData.wrappedVaultKey,
+      kdf_algorithm: userData.kdf.algorithm,
+      kdf_iterations: userData.kdf.iterations,
+      kdf_memory: userData.kdf.memory,
+      kdf_parallelism: userData.kdf.parallelism,
     });
     
     return id;
@@ -81,11 +109,9 @@ export class UserModel {
       return null;
     }
     
-    // Check if user has WebAuthn credentials
-    const hasWebAuthn = await db('webauthn_credentials')
-      .where({ user_id: id })
-      .first()
-      .then(result => !!result);
+    const hasWebAuthn = await this.hasWebAuthn(id);
+    const hasTotp = await this.hasTotp(id);
+    const recoveryCodesRemaining = await this.countRecoveryCodes(id);
     
     return {
       id: user.id,
@@ -94,14 +120,51 @@ export class UserModel {
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
       hasWebAuthn,
+      hasTotp,
+      recoveryCodesRemaining,
+      lastLockoutAt: user.lastLockoutAt ? user.lastLockoutAt.toISOString() : null,
+      deletionDueAt: user.deletionDueAt ? user.deletionDueAt.toISOString() : null,
     };
   }
   
+  /**
+   * Check if user has WebAuthn credentials
+   */
+  static async hasWebAuthn(id: string): Promise<boolean> {
+    return db('webauthn_credentials')
+      .where({ user_id: id })
+      .first()
+      .then(result => !!result);
+  }
+  
+  /**
+   * Check if user has confirmed a TOTP authenticator
+   */
+  static async hasTotp(id: string): Promise<boolean> {
+    return db('totp_credentials')
+      .where({ user_id: id, enabled: true })
+      .first()
+      .then(result => !!result);
+  }
+  
+  /**
+   * Count the user's unused recovery codes
+   */
+  static async countRecoveryCodes(id: string): Promise<number> {
+    const result = await db('recovery_codes')
+      .where({ user_id: id })
+      .whereNull('used_at')
+      .count({ count: '*' })
+      .first();
+    
+    return Number(result?.count ?? 0);
+  }
+  
   /**
    * Update user
    */
   static async update(id: string, userData: Partial<User>): Promise<boolean> {
-    const updateData = camelToSnake(userData);
+    const updateData = camelToSnake<Record<string, unknown>>(userData);
     delete (updateData as any).id; // Prevent ID update
     
     const updated = await db('users')
@@ -115,25 +178,121 @@ export class UserModel {
   }
   
   /**
-   * Delete user
+   * Replace the user's password-derived credentials in a single transaction
+   * Only succeeds if the verifier is still the one the change was proven against.
+   * @param revokeTokens Whether to bump the token version, invalidating issued tokens
+   * @returns The current token version, or null if the user or verifier did not match
+   */
+  static async updateCredentials(
+    id: string,
+    expectedVerifier: string,
+    data: Omit<PasswordChangeData, 'authResponse'>,
+    revokeTokens: boolean = true
+  ): Promise<number | null> {
+    return db.transaction(async trx => {
+      const updated = await trx('users')
+        .where({ id, verifier: expectedVerifier })
+        .update({
+          client_salt: data.clientSalt,
+          verifier: data.verifier,
+          wrapped_vault_key: data.wrappedVaultKey,
+          kdf_algorithm: data.kdf.algorithm,
+          kdf_iterations: data.kdf.iterations,
+          kdf_memory: data.kdf.memory,
+          kdf_parallelism: data.kdf.parallelism,
+          ...(revokeTokens ? { token_version: trx.raw('token_version + 1') } : {}),
+          updated_at: new Date(),
+        });
+
+      if (updated === 0) {
+        return null;
+      }
+
+      const user = await trx('users').where({ id }).first('token_version');
+      return user.token_version as number;
+    });
+  }
+  
+  /**
+   * Record that failed logins locked the account, so the user can be told
+   */
+  static async recordLockout(id: string): Promise<void> {
+    await db('users').where({ id }).update({ last_lockout_at: new Date() });
+  }
+  
+  /**
+   * Schedule the account's deletion, or cancel it with null
+   * @returns Whether anything changed; cancelling needs a scheduled deletion
+   */
+  static async scheduleDeletion(id: string, dueAt: Date | null): Promise<boolean> {
+    const query = db('users').where({ id });
+    if (dueAt === null) {
+      query.whereNotNull('deletion_due_at');
+    }
+
+    const updated = await query.update({ deletion_due_at: dueAt, updated_at: new Date() });
+    return updated > 0;
+  }
+  
+  /**
+   * Get IDs of accounts whose deletion is due
+   */
+  static async getIdsDueForDeletion(now: Date): Promise<string[]> {
+    const rows = await db('users').where('deletion_due_at', '<=', now).select('id');
+    return rows.map(row => row.id as string);
+  }
+  
+  /**
+   * Delete user and everything they own
+   * Done table by table rather than relying on foreign key cascades, which
+   * SQLite only honours with a pragma that may not be set.
    */
   static async delete(id: string): Promise<boolean> {
-    const deleted = await db('users').where({ id }).delete();
-    return deleted > 0;
+    return db.transaction(async trx => {
+      const user = await trx('users').where({ id }).first('email');
+      if (!user) {
+        return false;
+      }
+
+      const sessionIds = trx('sessions').where({ user_id: id }).select('id');
+      await trx('refresh_tokens').whereIn('session_id', sessionIds).delete();
+      await trx('sessions').where({ user_id: id }).delete();
+      await trx('vault_entries').where({ user_id: id }).delete();
+      await trx('webauthn_credentials').where({ user_id: id }).delete();
+      await trx('totp_credentials').where({ user_id: id }).delete();
+      await trx('recovery_codes').where({ user_id: id }).delete();
+      await trx('audit_events').where({ user_id: id }).delete();
+      // Failure counts under the account's throttle keys, which name its email
+      await trx('login_throttles').whereIn('key', [`login:${user.email.toLowerCase()}`, `2fa:${id}`]).delete();
+
+      const deleted = await trx('users').where({ id }).delete();
+      return deleted > 0;
+    });
   }
   
   /**
    * Map database user to user model
    */
   private static mapDatabaseUserToUser(dbUser: DatabaseUser): User {
+    // SQLite hands timestamps back as strings or numbers
     return {
       id: dbUser.id,
       email: dbUser.email,
       username: dbUser.username,
       clientSalt: dbUser.client_salt,
       verifier: dbUser.verifier,
-      createdAt: dbUser.created_at,
-      updatedAt: dbUser.updated_at,
+      wrappedVaultKey: dbUser.wrapped_vault_key,
+      kdf: {
+        algorithm: dbUser.kdf_algorithm as KdfAlgorithm,
+        iterations: dbUser.kdf_iterations,
+        memory: dbUser.kdf_memory,
+        parallelism: dbUser.kdf_parallelism,
+      },
+      tokenVersion: dbUser.token_version,
+      lastLockoutAt: dbUser.last_lockout_at === null ? null : new Date(dbUser.last_lockout_at),
+      deletionDueAt: dbUser.deletion_due_at === null ? null : new Date(dbUser.deletion_due_at),
+      createdAt: new Date(dbUser.created_at),
+      updatedAt: new Date(dbUser.updated_at),
     };
   }
 }
@@ -145,7 +304,9 @@ export class WebAuthnCredentialModel {
   /**
    * Create a new WebAuthn credential
    */
-  static async create(credential: Omit<WebAuthnCredential, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  static async create(
+    credential: Omit<WebAuthnCredential, 'id' | 'prfWrappedVaultKey' | 'createdAt' | 'updatedAt'>
+  ): Promise<string> {
     const id = uuidv4();
     
     await db('webauthn_credentials').insert({
@@ -210,6 +371,7 @@ export class WebAuthnCredentialModel {
       credentialId: credential.credentialId,
       credentialDeviceType: credential.credentialDeviceType,
       credentialBackedUp: credential.credentialBackedUp,
+      prfEnabled: credential.prfWrappedVaultKey !== null,
       createdAt: credential.createdAt.toISOString(),
     }));
   }
@@ -218,7 +380,7 @@ export class WebAuthnCredentialModel {
    * Update credential
    */
   static async update(id: string, data: Partial<WebAuthnCredential>): Promise<boolean> {
-    const updateData = camelToSnake(data);
+    const updateData = camelToSnake<Record<string, unknown>>(data);
     delete (updateData as any).id; // Prevent ID update
     delete (updateData as any).user_id; // Prevent user ID update
     
@@ -244,6 +406,7 @@ export class WebAuthnCredentialModel {
    * Map database credential to credential model
    */
   private static mapDatabaseCredentialToCredential(dbCredential: DatabaseWebAuthnCredential): WebAuthnCredential {
+    // SQLite hands timestamps back as strings or numbers
     return {
       id: dbCredential.id,
       userId: dbCredential.user_id,
@@ -253,8 +416,584 @@ export class WebAuthnCredentialModel {
       credentialDeviceType: dbCredential.credential_device_type,
       credentialBackedUp: dbCredential.credential_backed_up,
       transports: dbCredential.transports,
-      createdAt: dbCredential.created_at,
-      updatedAt: dbCredential.updated_at,
+      prfWrappedVaultKey: dbCredential.prf_wrapped_vault_key ?? null,
+      createdAt: new Date(dbCredential.created_at),
+      updatedAt: new Date(dbCredential.updated_at),
+    };
+  }
+}
+
+/**
+ * TOTP credential model for database operations
+ */
+export class TotpCredentialModel {
+  /**
+   * Get the TOTP credential of a user
+   */
+  static async getByUserId(userId: string): Promise<TotpCredential | null> {
+    const credential = await db('totp_credentials').where({ user_id: userId }).first();
+    
+    if (!credential) {
+      return null;
+    }
+    
+    return this.mapDatabaseCredentialToCredential(credential as DatabaseTotpCredential);
+  }
+  
+  /**
+   * Store a new secret awaiting confirmation, replacing any unconfirmed one
+   * @returns Whether it was stored; false if TOTP is already enabled
+   */
+  static async savePending(userId: string, encryptedSecret: string): Promise<boolean> {
+    return db.transaction(async trx => {
+      const existing = await trx('totp_credentials').where({ user_id: userId }).first('enabled');
+      
+      if (existing?.enabled) {
+        return false;
+      }
+      
+      if (existing) {
+        await trx('totp_credentials')
+          .where({ user_id: userId })
+          .update({ encrypted_secret: encryptedSecret, last_step: null, updated_at: new Date() });
+      } else {
+        await trx('totp_credentials').insert({ user_id: userId, encrypted_secret: encryptedSecret });
+      }
+      
+      return true;
+    });
+  }
+  
+  /**
+   * Mark the secret as confirmed
+   */
+  static async enable(userId: string): Promise<boolean> {
+    const updated = await db('totp_credentials')
+      .where({ user_id: userId })
+      .update({ enabled: true, updated_at: new Date() });
+    
+    return updated > 0;
+  }
+  
+  /**
+   * Record the time step of an accepted code
+   * Only moves forward, so two requests racing with the same code cannot both succeed.
+   * @returns Whether the step was recorded; false if it was already used
+   */
+  static async recordStep(userId: string, step: number): Promise<boolean> {
+    const updated = await db('totp_credentials')
+      .where({ user_id: userId })
+      .andWhere(builder => builder.whereNull('last_step').orWhere('last_step', '<', step))
+      .update({ last_step: step, updated_at: new Date() });
+    
+    return updated > 0;
+  }
+  
+  /**
+   * Delete the TOTP credential of a user
+   */
+  static async delete(userId: string): Promise<boolean> {
+    const deleted = await db('totp_credentials').where({ user_id: userId }).delete();
+    return deleted > 0;
+  }
+  
+  /**
+   * Map database credential to credential model
+   */
+  private static mapDatabaseCredentialToCredential(dbCredential: DatabaseTotpCredential): TotpCredential {
+    return {
+      userId: dbCredential.user_id,
+      encryptedSecret: dbCredential.encrypted_secret,
+      enabled: !!dbCredential.enabled,
+      // Big integers may come back as strings depending on the driver
+      lastStep: dbCredential.last_step === null ? null : Number(dbCredential.last_step),
+      createdAt: new Date(dbCredential.created_at),
+      updatedAt: new Date(dbCredential.updated_at),
+    };
+  }
+}
+
+/**
+ * Recovery code model for database operations
+ */
+export class RecoveryCodeModel {
+  /**
+   * Replace all of a user's recovery codes with a new set
+   */
+  static async replaceAll(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async trx => {
+      await trx('recovery_codes').where({ user_id: userId }).delete();
+      await trx('recovery_codes').insert(
+        codeHashes.map(codeHash => ({
+          id: uuidv4(),
+          user_id: userId,
+          code_hash: codeHash,
+        }))
+      );
+    });
+  }
+  
+  /**
+   * Check if the user has ever been issued recovery codes
+   */
+  static async exists(userId: string): Promise<boolean> {
+    return db('recovery_codes')
+      .where({ user_id: userId })
+      .first()
+      .then(result => !!result);
+  }
+  
+  /**
+   * Redeem a recovery code
+   * A single conditional update, so a code can never be redeemed twice.
+   * @returns Whether an unused code with this hash existed
+   */
+  static async consume(userId: string, codeHash: string): Promise<boolean> {
+    const updated = await db('recovery_codes')
+      .where({ user_id: userId, code_hash: codeHash })
+      .whereNull('used_at')
+      .update({ used_at: new Date() });
+    
+    return updated > 0;
+  }
+}
+
+/**
+ * Challenge model for database operations
+ */
+export class ChallengeModel {
+  /**
+   * Store a challenge, replacing any with the same key
+   */
+  static async put(key: string, value: string, expiresAt: Date): Promise<void> {
+    await db('challenges')
+      .insert({ key, value, expires_at: expiresAt })
+      .onConflict('key')
+      .merge();
+  }
+  
+  /**
+   * Take a challenge out of the table
+   * Only the caller whose delete removed the row gets the value, so a challenge
+   * is used at most once even when several instances race for it.
+   * @returns The value, or null if there was none or it has expired
+   */
+  static async consume(key: string): Promise<string | null> {
+    return db.transaction(async trx => {
+      const challenge = await trx('challenges').where({ key }).first();
+      if (!challenge) {
+        return null;
+      }
+      
+      const deleted = await trx('challenges').where({ key }).delete();
+      if (deleted === 0 || new Date(challenge.expires_at).getTime() <= Date.now()) {
+        return null;
+      }
+      
+      return challenge.value as string;
+    });
+  }
+  
+  /**
+   * Delete challenges that expired without being answered
+   */
+  static async deleteExpired(): Promise<number> {
+    return db('challenges').where('expires_at', '<=', new Date()).delete();
+  }
+}
+
+/**
+ * Session model for database operations
+ */
+export class SessionModel {
+  /**
+   * Create a session
+   */
+  static async create(session: Omit<Session, 'createdAt' | 'lastSeenAt' | 'revokedAt'>): Promise<void> {
+    const now = new Date();
+    
+    await db('sessions').insert({
+      id: session.id,
+      user_id: session.userId,
+      device_name: session.deviceName,
+      ip_address: session.ipAddress,
+      user_agent: session.userAgent,
+      created_at: now,
+      last_seen_at: now,
+      expires_at: session.expiresAt,
+    });
+  }
+  
+  /**
+   * Get session by ID
+   */
+  static async getById(id: string): Promise<Session | null> {
+    const session = await db('sessions').where({ id }).first();
+    
+    if (!session) {
+      return null;
+    }
+    
+    return this.mapDatabaseSessionToSession(session as DatabaseSession);
+  }
+  
+  /**
+   * Get the sessions of a user that are neither revoked nor expired, most recently used first
+   */
+  static async getActiveByUserId(userId: string): Promise<Session[]> {
+    const sessions = await db('sessions')
+      .where({ user_id: userId })
+      .whereNull('revoked_at')
+      .andWhere('expires_at', '>', new Date())
+      .orderBy('last_seen_at', 'desc');
+    
+    return sessions.map(session => this.mapDatabaseSessionToSession(session as DatabaseSession));
+  }
+  
+  /**
+   * Get all sessions of a user still on record, revoked and expired ones included, newest first
+   */
+  static async getByUserId(userId: string): Promise<Session[]> {
+    const sessions = await db('sessions')
+      .where({ user_id: userId })
+      .orderBy('created_at', 'desc');
+    
+    return sessions.map(session => this.mapDatabaseSessionToSession(session as DatabaseSession));
+  }
+  
+  /**
+   * Record that a session was used
+   * Skipped while the last update is recent, so busy sessions do not write on every request.
+   */
+  static async touch(id: string, minIntervalSeconds: number): Promise<void> {
+    const now = Date.now();
+    
+    await db('sessions')
+      .where({ id })
+      .andWhere('last_seen_at', '<', new Date(now - minIntervalSeconds * 1000))
+      .update({ last_seen_at: new Date(now) });
+  }
+  
+  /**
+   * Move the expiry of a session that was issued a new token
+   */
+  static async renew(id: string, expiresAt: Date): Promise<boolean> {
+    const updated = await db('sessions')
+      .where({ id })
+      .whereNull('revoked_at')
+      .update({ expires_at: expiresAt, last_seen_at: new Date() });
+    
+    return updated > 0;
+  }
+  
+  /**
+   * Revoke one of a user's sessions
+   * @returns Whether an active session was revoked
+   */
+  static async revoke(id: string, userId: string): Promise<boolean> {
+    const updated = await db('sessions')
+      .where({ id, user_id: userId })
+      .whereNull('revoked_at')
+      .update({ revoked_at: new Date() });
+    
+    return updated > 0;
+  }
+  
+  /**
+   * Revoke all of a user's sessions, optionally keeping one
+   * @returns Number of sessions revoked
+   */
+  static async revokeAll(userId: string, exceptId?: string): Promise<number> {
+    const query = db('sessions').where({ user_id: userId }).whereNull('revoked_at');
+    if (exceptId) {
+      query.whereNot({ id: exceptId });
+    }
+    
+    return query.update({ revoked_at: new Date() });
+  }
+  
+  /**
+   * Delete a user's sessions that have expired; no token for them can still be valid
+   */
+  static async deleteExpired(userId: string): Promise<number> {
+    return db('sessions')
+      .where({ user_id: userId })
+      .andWhere('expires_at', '<=', new Date())
+      .delete();
+  }
+  
+  /**
+   * Map database session to session model
+   */
+  private static mapDatabaseSessionToSession(dbSession: DatabaseSession): Session {
+    // SQLite hands timestamps back as numbers
+    return {
+      id: dbSession.id,
+      userId: dbSession.user_id,
+      deviceName: dbSession.device_name,
+      ipAddress: dbSession.ip_address,
+      userAgent: dbSession.user_agent,
+      createdAt: new Date(dbSession.created_at),
+      lastSeenAt: new Date(dbSession.last_seen_at),
+      expiresAt: new Date(dbSession.expires_at),
+      revokedAt: dbSession.revoked_at === null ? null : new Date(dbSession.revoked_at),
+    };
+  }
+}
+
+/**
+ * Refresh token model for database operations
+ */
+export class RefreshTokenModel {
+  /**
+   * Store a new refresh token for a session
+   */
+  static async create(sessionId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db('refresh_tokens').insert({
+      id: uuidv4(),
+      session_id: sessionId,
+      token_hash: tokenHash,
+      created_at: new Date(),
+      expires_at: expiresAt,
+    });
+  }
+  
+  /**
+   * Get a refresh token by its hash, whether or not it was used
+   */
+  static async getByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const token = await db('refresh_tokens').where({ token_hash: tokenHash }).first();
+    
+    if (!token) {
+      return null;
+    }
+    
+    return this.mapDatabaseTokenToToken(token as DatabaseRefreshToken);
+  }
+  
+  /**
+   * Mark a refresh token as rotated
+   * A single conditional update, so only one of two requests racing with the same token wins.
+   * @returns Whether the token was still unused
+   */
+  static async markUsed(id: string): Promise<boolean> {
+    const updated = await db('refresh_tokens')
+      .where({ id })
+      .whereNull('used_at')
+      .update({ used_at: new Date() });
+    
+    return updated > 0;
+  }
+  
+  /**
+   * Map database refresh token to refresh token model
+   */
+  private static mapDatabaseTokenToToken(dbToken: DatabaseRefreshToken): RefreshToken {
+    return {
+      id: dbToken.id,
+      sessionId: dbToken.session_id,
+      tokenHash: dbToken.token_hash,
+      createdAt: new Date(dbToken.created_at),
+      expiresAt: new Date(dbToken.expires_at),
+      usedAt: dbToken.used_at === null ? null : new Date(dbToken.used_at),
+    };
+  }
+}
+
+/**
+ * Login throttle model for database operations
+ */
+export class LoginThrottleModel {
+  /**
+   * Get the throttles of the given keys; keys without failures have none
+   */
+  static async getByKeys(keys: string[]): Promise<LoginThrottle[]> {
+    const throttles = await db('login_throttles').whereIn('key', keys);
+    
+    return throttles.map((throttle: DatabaseLoginThrottle) => this.mapDatabaseThrottleToThrottle(throttle));
+  }
+  
+  /**
+   * Count a failed attempt against a key
+   * @param resetFailuresBefore Failures before this are forgotten
+   * @param resetLockoutsBefore Lockouts are forgotten if nothing failed since this
+   * @returns The throttle including this failure
+   */
+  static async recordFailure(
+    key: string,
+    resetFailuresBefore: Date,
+    resetLockoutsBefore: Date
+  ): Promise<LoginThrottle> {
+    return db.transaction(async trx => {
+      const now = new Date();
+      const existing = await trx('login_throttles').where({ key }).first();
+      
+      if (!existing) {
+        await trx('login_throttles').insert({ key, failures: 1, lockouts: 0, last_failure_at: now });
+        return { key, failures: 1, lockouts: 0, lastFailureAt: now, lockedUntil: null };
+      }
+      
+      const throttle = this.mapDatabaseThrottleToThrottle(existing as DatabaseLoginThrottle);
+      const failures = throttle.lastFailureAt < resetFailuresBefore ? 1 : throttle.failures + 1;
+      const lockouts = throttle.lastFailureAt < resetLockoutsBefore ? 0 : throttle.lockouts;
+      
+      await trx('login_throttles')
+        .where({ key })
+        .update({ failures, lockouts, last_failure_at: now });
+      
+      return { ...throttle, failures, lockouts, lastFailureAt: now };
+    });
+  }
+  
+  /**
+   * Lock a key until the given time and start counting failures afresh
+   */
+  static async lock(key: string, lockedUntil: Date): Promise<void> {
+    await db('login_throttles')
+      .where({ key })
+      .update({
+        failures: 0,
+        lockouts: db.raw('lockouts + 1'),
+        locked_until: lockedUntil,
+      });
+  }
+  
+  /**
+   * Forget the failures of a key, e.g. after a successful login
+   */
+  static async delete(key: string): Promise<void> {
+    await db('login_throttles').where({ key }).delete();
+  }
+  
+  /**
+   * Map database login throttle to login throttle model
+   */
+  private static mapDatabaseThrottleToThrottle(dbThrottle: DatabaseLoginThrottle): LoginThrottle {
+    return {
+      key: dbThrottle.key,
+      failures: dbThrottle.failures,
+      lockouts: dbThrottle.lockouts,
+      lastFailureAt: new Date(dbThrottle.last_failure_at),
+      lockedUntil: dbThrottle.locked_until === null ? null : new Date(dbThrottle.locked_until),
+    };
+  }
+}
+
+/**
+ * Audit event model for database operations
+ * Append-only: events are never changed, and only go away with their account.
+ */
+export class AuditEventModel {
+  /**
+   * Append an event
+   */
+  static async create(event: Omit<AuditEvent, 'id' | 'createdAt'>): Promise<void> {
+    await db('audit_events').insert({
+      id: uuidv4(),
+      user_id: event.userId,
+      type: event.type,
+      ip_address: event.ipAddress,
+      user_agent: event.userAgent,
+      details: safeJsonStringify(event.details),
+      created_at: new Date(),
+    });
+  }
+  
+  /**
+   * Get one page of a user's events, newest first
+   * @param types Only events of these types; all if empty
+   */
+  static async getByUserId(
+    userId: string,
+    types: AuditEventType[],
+    offset: number,
+    limit: number
+  ): Promise<{ events: AuditEvent[]; total: number }> {
+    const query = db('audit_events').where({ user_id: userId });
+    if (types.length > 0) {
+      query.whereIn('type', types);
+    }
+    
+    const [events, count] = await Promise.all([
+      query.clone().orderBy('created_at', 'desc').offset(offset).limit(limit),
+      query.clone().count({ count: '*' }).first(),
+    ]);
+    
+    return {
+      events: events.map((event: DatabaseAuditEvent) => this.mapDatabaseEventToEvent(event)),
+      total: Number(count?.count ?? 0),
+    };
+  }
+  
+  /**
+   * Get all of a user's events, oldest first
+   */
+  static async getAllByUserId(userId: string): Promise<AuditEvent[]> {
+    const events = await db('audit_events')
+      .where({ user_id: userId })
+      .orderBy('created_at', 'asc');
+    
+    return events.map((event: DatabaseAuditEvent) => this.mapDatabaseEventToEvent(event));
+  }
+  
+  /**
+   * Map database audit event to audit event model
+   */
+  private static mapDatabaseEventToEvent(dbEvent: DatabaseAuditEvent): AuditEvent {
+    return {
+      id: dbEvent.id,
+      userId: dbEvent.user_id,
+      type: dbEvent.type as AuditEventType,
+      ipAddress: dbEvent.ip_address,
+      userAgent: dbEvent.user_agent,
+      details: safeJsonParse(dbEvent.details, {}),
+      createdAt: new Date(dbEvent.created_at),
+    };
+  }
+}
+
+/**
+ * Rate limit bucket model for database operations
+ */
+export class RateLimitModel {
+  /**
+   * Read and replace a bucket in one transaction, so concurrent requests each take their own token
+   * @param update Computes the new token count from the stored bucket, or from none for a new client
+   * @returns Whatever the update returned alongside the token count
+   */
+  static async update<T>(
+    key: string,
+    update: (bucket: RateLimitBucket | null) => { tokens: number; result: T }
+  ): Promise<T> {
+    return db.transaction(async trx => {
+      const existing = await trx('rate_limits').where({ key }).first();
+      const bucket = existing ? this.mapDatabaseBucketToBucket(existing as DatabaseRateLimitBucket) : null;
+      const { tokens, result } = update(bucket);
+      
+      await trx('rate_limits')
+        .insert({ key, tokens, updated_at: new Date() })
+        .onConflict('key')
+        .merge();
+      
+      return result;
+    });
+  }
+  
+  /**
+   * Delete buckets nobody has drawn from since the given time
+   */
+  static async deleteIdle(before: Date): Promise<number> {
+    return db('rate_limits').where('updated_at', '<', before).delete();
+  }
+  
+  /**
+   * Map database rate limit bucket to rate limit bucket model
+   */
+  private static mapDatabaseBucketToBucket(dbBucket: DatabaseRateLimitBucket): RateLimitBucket {
+    return {
+      key: dbBucket.key,
+      tokens: dbBucket.tokens,
+      updatedAt: new Date(dbBucket.updated_at),
     };
   }
 }
@@ -267,14 +1006,24 @@ export class VaultEntryModel {
    * Create a new vault entry
    */
   static async create(entryData: VaultEntryCreateData): Promise<VaultEntryDTO> {
-    const id = uuidv4();
+    const id = entryData.id || uuidv4();
+    const itemType = entryData.itemType || 'login';
     const now = new Date();
     
+    // IDs may come from the client, so never let one overwrite an existing entry;
+    // other accounts' entries are out of sight, their IDs being scoped to them
+    const existing = await db('vault_entries').where({ id, user_id: entryData.userId }).first('id');
+    if (existing) {
+      throw new Error('Entry already exists');
+    }
+    
     await db('vault_entries').insert({
       id,
       user_id: entryData.userId,
       encrypted_data: entryData.encryptedData,
-      metadata: safeJsonStringify(entryData.metadata),
+      item_type: itemType,
+      revision: 1,
+      metadata: safeJsonStringify({}),
       created_at: now,
       updated_at: now,
     });
@@ -282,7 +1031,9 @@ export class VaultEntryModel {
     return {
       id,
       encryptedData: entryData.encryptedData,
-      metadata: entryData.metadata,
+      itemType,
+      revision: 1,
+      legacyMetadata: null,
       createdAt: now.toISOString(),
       updatedAt: now.toISOString(),
     };
@@ -316,7 +1067,9 @@ export class VaultEntryModel {
     return {
       id: entry.id,
       encryptedData: entry.encryptedData,
-      metadata: entry.metadata,
+      itemType: entry.itemType,
+      revision: entry.revision,
+      legacyMetadata: entry.legacyMetadata,
       createdAt: entry.createdAt.toISOString(),
       updatedAt: entry.updatedAt.toISOString(),
     };
@@ -342,25 +1095,36 @@ export class VaultEntryModel {
     return entries.map(entry => ({
       id: entry.id,
       encryptedData: entry.encryptedData,
-      metadata: entry.metadata,
+      itemType: entry.itemType,
+      revision: entry.revision,
+      legacyMetadata: entry.legacyMetadata,
       createdAt: entry.createdAt.toISOString(),
       updatedAt: entry.updatedAt.toISOString(),
     }));
   }
   
   /**
-   * Update entry
+   * Update entry if it is still at the expected revision
+   * Any legacy plaintext metadata is dropped, since the client re-encrypts it into the payload.
+   * @returns The new revision, or null if no entry matched
    */
-  static async update(id: string, entryData: VaultEntryUpdateData): Promise<boolean> {
+  static async update(id: string, entryData: VaultEntryUpdateData): Promise<number | null> {
+    const revision = entryData.revision + 1;
+    const changes: Record<string, any> = {
+      encrypted_data: entryData.encryptedData,
+      revision,
+      metadata: safeJsonStringify({}),
+      updated_at: new Date(),
+    };
+    if (entryData.itemType) {
+      changes.item_type = entryData.itemType;
+    }
+    
     const updated = await db('vault_entries')
-      .where({ id, user_id: entryData.userId })
-      .update({
-        encrypted_data: entryData.encryptedData,
-        metadata: safeJsonStringify(entryData.metadata),
-        updated_at: new Date(),
-      });
+      .where({ id, user_id: entryData.userId, revision: entryData.revision })
+      .update(changes);
     
-    return updated > 0;
+    return updated > 0 ? revision : null;
   }
   
   /**
@@ -378,13 +1142,18 @@ export class VaultEntryModel {
    * Map database entry to entry model
    */
   private static mapDatabaseEntryToEntry(dbEntry: DatabaseVaultEntry): VaultEntry {
+    const metadata = safeJsonParse<VaultEntryMetadata>(dbEntry.metadata, {});
+    
+    // SQLite hands timestamps back as strings or numbers
     return {
       id: dbEntry.id,
       userId: dbEntry.user_id,
       encryptedData: dbEntry.encrypted_data,
-      metadata: safeJsonParse(dbEntry.metadata, {}),
-      createdAt: dbEntry.created_at,
-      updatedAt: dbEntry.updated_at,
+      itemType: dbEntry.item_type,
+      revision: dbEntry.revision,
+      legacyMetadata: metadata && Object.keys(metadata).length > 0 ? metadata : null,
+      createdAt: new Date(dbEntry.created_at),
+      updatedAt: new Date(dbEntry.updated_at),
     };
   }
 }
\ No newline at end of file
@@ -2,23 +2,43 @@
  * Plugins registration for Fastify
  */
 
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import fastifyCookie from '@fastify/cookie';
 import fastifyCors from '@fastify/cors';
 import fastifyJwt from '@fastify/jwt';
 import fastifySwagger from '@fastify/swagger';
 import { config } from '../config';
+import { UserModel } from '../models';
+import { SessionService } from '../services/session.service';
+import { createRateLimitStore } from '../services/rateLimit.store';
+import { registerRateLimit } from './rateLimit';
+
+// Decorators added below
+declare module 'fastify' {
+  interface FastifyInstance {
+    config: typeof config;
+    authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>;
+    authenticateSecondFactor: (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>;
+  }
+}
 
 /**
  * Register all plugins with the Fastify instance
  */
 export async function registerPlugins(server: FastifyInstance): Promise<void> {
+  // Expose the configuration to routes
+  server.decorate('config', config);
+
   // Register CORS
   await server.register(fastifyCors, {
     origin: config.origin,
     credentials: true,
+    exposedHeaders: ['Retry-After'], // Read by the client to back off
   });
 
+  // Limit request rates per client before any other work is done
+  registerRateLimit(server, createRateLimitStore());
+
   // Register Cookie plugin
   await server.register(fastifyCookie, {
     secret: config.cookieSecret,
@@ -62,12 +82,49 @@ export async function registerPlugins(server: FastifyInstance): Promise<void> {
     exposeRoute: true,
   });
 
+  const sessionService = new SessionService();
+
+  // Verify the JWT and check it has not been revoked
+  // Tokens issued before the user's last credential change carry a stale version and are rejected
+  const verifyToken = async (request: any): Promise<void> => {
+    await request.jwtVerify();
+
+    const { userId, tokenVersion, sessionId, twoFactorPending } = request.user;
+    const user = await UserModel.getById(userId);
+    if (!user || user.tokenVersion !== (tokenVersion ?? 0)) {
+      throw new Error('Token revoked');
+    }
+
+    // Every full token belongs to a session, which the user may have signed out
+    if (!twoFactorPending && !(sessionId && (await sessionService.validateSession(userId, sessionId)))) {
+      throw new Error('Session revoked');
+    }
+  };
+
   // Add JWT verification decorator
+  // A login still waiting for its second factor has no access yet
   server.decorate('authenticate', async (request: any, reply: any) => {
     try {
-      await request.jwtVerify();
+      await verifyToken(request);
     } catch (err) {
-      reply.code(401).send({ error: 'Unauthorized' });
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+
+    if (request.user.twoFactorPending) {
+      return reply.code(401).send({ error: 'Second factor required' });
+    }
+  });
+
+  // Add decorator for the second factor step, which only accepts the pending login token
+  server.decorate('authenticateSecondFactor', async (request: any, reply: any) => {
+    try {
+      await verifyToken(request);
+    } catch (err) {
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+
+    if (!request.user.twoFactorPending) {
+      return reply.code(400).send({ error: 'No second factor pending' });
     }
   });
 }
\ No newline at end of file
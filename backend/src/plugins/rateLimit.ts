@@ -0,0 +1,72 @@
+/**
+ * Request rate limiting for Fastify
+ *
+ * Each client IP address has one token bucket per route group. Endpoints that
+ * check credentials are limited tightly, writes moderately and reads loosely.
+ */
+
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { RateLimitPolicy, RateLimitStore } from '../services/rateLimit.store';
+
+type RouteGroup = 'auth' | 'write' | 'read';
+
+const POLICIES: Record<RouteGroup, RateLimitPolicy> = {
+  auth: { capacity: 10, refillPerSecond: 10 / 60 }, // A few logins' worth, then one every six seconds
+  write: { capacity: 60, refillPerSecond: 1 },
+  read: { capacity: 300, refillPerSecond: 5 },
+};
+
+// Endpoints that check a password, a second factor or a refresh token
+const AUTH_ROUTES = [
+  /^\/api\/users\/(register|login\/|password|kdf\/upgrade|token\/refresh)/,
+  /^\/api\/webauthn\/(login|passkey)\//,
+  /^\/api\/(totp|recovery-codes)\/login\//,
+  /^\/api\/recovery-codes\/regenerate$/,
+];
+
+/**
+ * Find the route group a request is counted against
+ */
+function routeGroup(request: FastifyRequest): RouteGroup {
+  const path = request.url.split('?')[0];
+
+  if (AUTH_ROUTES.some(route => route.test(path))) {
+    return 'auth';
+  }
+  // Deleting the account or a security key takes a password proof as well
+  if (request.method === 'DELETE' && (path === '/api/users/me' || path.startsWith('/api/webauthn/credentials/'))) {
+    return 'auth';
+  }
+  return request.method === 'GET' || request.method === 'HEAD' ? 'read' : 'write';
+}
+
+/**
+ * Reject requests beyond their route group's rate with 429 and a Retry-After header
+ * @param store Where the buckets are kept; use the SQL store when running several instances
+ */
+export function registerRateLimit(server: FastifyInstance, store: RateLimitStore): void {
+  server.addHook('onRequest', async (request, reply) => {
+    // CORS preflights carry no credentials and cost nothing
+    if (request.method === 'OPTIONS') {
+      return;
+    }
+
+    const group = routeGroup(request);
+
+    let result;
+    try {
+      result = await store.take(`${group}:${request.ip}`, POLICIES[group]);
+    } catch (error) {
+      // Better to serve without a limit than not at all
+      server.log.error(error);
+      return;
+    }
+
+    if (!result.allowed) {
+      return reply
+        .code(429)
+        .header('Retry-After', String(result.retryAfter))
+        .send({ error: 'Too many requests', retryAfter: result.retryAfter });
+    }
+  });
+}
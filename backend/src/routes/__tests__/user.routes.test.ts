@@ -0,0 +1,188 @@
+import { fastify, FastifyInstance } from 'fastify';
+import { userRoutes } from '../user.routes';
+import { UserService } from '../../services/user.service';
+import { ThrottleService } from '../../services/throttle.service';
+import { config } from '../../config';
+import { signDocument } from '../../utils';
+
+// Mock the models and the services the routes call
+jest.mock('../../models', () => ({}));
+jest.mock('../../services/user.service');
+jest.mock('../../services/session.service');
+jest.mock('../../services/throttle.service');
+jest.mock('../../services/totp.service');
+jest.mock('../../services/recovery.service');
+jest.mock('../../services/webauthn.service', () => ({
+  WebAuthnService: jest.fn().mockImplementation(() => ({ confirmAssertion: jest.fn() })),
+}));
+
+/**
+ * Build an app with only the user routes, signed in as user123
+ */
+async function buildApp(): Promise<FastifyInstance> {
+  const app = fastify();
+  app.decorate('config', config);
+  app.decorate('authenticate', async (request) => {
+    (request as any).user = { userId: 'user123' };
+  });
+  app.decorate('authenticateSecondFactor', async () => undefined);
+  await app.register(userRoutes, { prefix: '/api/users' });
+  await app.ready();
+
+  return app;
+}
+
+describe('User routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (ThrottleService.prototype.getRetryAfter as jest.Mock).mockResolvedValue(0);
+    (ThrottleService.prototype.recordFailure as jest.Mock).mockResolvedValue([]);
+    app = await buildApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('GET /me', () => {
+    it('should send the user DTO, without credentials', async () => {
+      // Arrange
+      (UserService.prototype.getUserDTOById as jest.Mock).mockResolvedValue({
+        id: 'user123',
+        email: 'test@example.com',
+        username: 'testuser',
+        createdAt: '2023-12-14T10:00:00.000Z',
+        updatedAt: '2023-12-14T10:00:00.000Z',
+        hasWebAuthn: false,
+        hasTotp: true,
+        recoveryCodesRemaining: 10,
+        lastLockoutAt: null,
+        deletionDueAt: null,
+      });
+
+      // Act
+      const response = await app.inject({ method: 'GET', url: '/api/users/me' });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      expect(UserService.prototype.getUserDTOById).toHaveBeenCalledWith('user123');
+      const body = response.json();
+      expect(body.hasTotp).toBe(true);
+      expect(body).not.toHaveProperty('verifier');
+      expect(body).not.toHaveProperty('clientSalt');
+      expect(body).not.toHaveProperty('wrappedVaultKey');
+      expect(body).not.toHaveProperty('tokenVersion');
+    });
+
+    it('should answer 404 for a user that is gone', async () => {
+      // Arrange
+      (UserService.prototype.getUserDTOById as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const response = await app.inject({ method: 'GET', url: '/api/users/me' });
+
+      // Assert
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /login/verify', () => {
+    it('should throttle failed logins by the client address', async () => {
+      // Arrange
+      (UserService.prototype.verifyLogin as jest.Mock).mockRejectedValue(new Error('Invalid credentials'));
+
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/users/login/verify',
+        remoteAddress: '203.0.113.7',
+        payload: {
+          email: 'test@example.com',
+          authResponse: { challengeId: '8b1c6e2a-4f3d-4b7a-9c1e-2d5f6a7b8c9d', clientProof: 'ab'.repeat(32), clientEphemeral: 'abcd' },
+        },
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(401);
+      expect(ThrottleService.prototype.getRetryAfter).toHaveBeenCalledWith({ email: 'test@example.com' }, '203.0.113.7');
+      expect(ThrottleService.prototype.recordFailure).toHaveBeenCalledWith({ email: 'test@example.com' }, '203.0.113.7');
+    });
+  });
+
+  describe('POST /me/takeout/verify', () => {
+    const takeout = {
+      takeoutId: 'takeout123',
+      exportedAt: '2023-12-14T10:00:00.000Z',
+      profile: { id: 'user123', email: 'test@example.com', username: 'testuser' },
+      webauthnCredentials: [],
+      sessions: [],
+      auditEvents: [],
+      vault: [{ id: 'entry123', encryptedData: 'ciphertext', itemType: 'login', revision: 1 }],
+    };
+    const signature = signDocument(takeout, config.secretEncryptionKey, 'account-takeout');
+
+    it('should accept an archive this server signed', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/users/me/takeout/verify',
+        payload: { takeout, signature },
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ valid: true });
+    });
+
+    it('should reject an archive that was altered', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/users/me/takeout/verify',
+        payload: { takeout: { ...takeout, vault: [] }, signature },
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ valid: false });
+    });
+
+    it('should accept an archive larger than the default body limit', async () => {
+      // Arrange
+      const large = {
+        ...takeout,
+        vault: Array.from({ length: 2048 }, (_, i) => ({
+          id: `entry${i}`,
+          encryptedData: 'x'.repeat(1024),
+          itemType: 'login',
+          revision: 1,
+        })),
+      };
+
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/users/me/takeout/verify',
+        payload: { takeout: large, signature: signDocument(large, config.secretEncryptionKey, 'account-takeout') },
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ valid: true });
+    });
+
+    it('should answer 400 for a request without a signature', async () => {
+      // Act
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/users/me/takeout/verify',
+        payload: { takeout },
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { fastify, FastifyInstance } from 'fastify';
+import { webauthnRoutes } from '../webauthn.routes';
+import { WebAuthnService } from '../../services/webauthn.service';
+import { ThrottleService } from '../../services/throttle.service';
+import { ReauthService } from '../../services/reauth.service';
+import { config } from '../../config';
+
+// Mock the models and the services the routes call
+jest.mock('../../models', () => ({}));
+jest.mock('../../services/webauthn.service');
+jest.mock('../../services/throttle.service');
+jest.mock('../../services/reauth.service');
+
+const authResponse = {
+  challengeId: '8b1c6e2a-4f3d-4b7a-9c1e-2d5f6a7b8c9d',
+  clientProof: 'ab'.repeat(32),
+  clientEphemeral: 'abcd',
+};
+
+/**
+ * Build an app with only the WebAuthn routes, signed in as user123
+ */
+async function buildApp(): Promise<FastifyInstance> {
+  const app = fastify();
+  app.decorate('config', config);
+  app.decorate('authenticate', async (request) => {
+    (request as any).user = { userId: 'user123' };
+  });
+  app.decorate('authenticateSecondFactor', async () => undefined);
+  await app.register(webauthnRoutes, { prefix: '/api/webauthn' });
+  await app.ready();
+
+  return app;
+}
+
+describe('WebAuthn routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (ThrottleService.prototype.getRetryAfter as jest.Mock).mockResolvedValue(0);
+    (ThrottleService.prototype.recordFailure as jest.Mock).mockResolvedValue([]);
+    app = await buildApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('DELETE /credentials/:id', () => {
+    it('should remove the credential once the user has confirmed their identity', async () => {
+      // Arrange
+      (WebAuthnService.prototype.deleteCredential as jest.Mock).mockResolvedValue(true);
+      const secondFactor = { method: 'totp', code: '123456' };
+
+      // Act
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/webauthn/credentials/cred123',
+        payload: { authResponse, secondFactor },
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(200);
+      expect(ReauthService.prototype.confirmIdentity).toHaveBeenCalledWith('user123', { authResponse, secondFactor });
+      expect(WebAuthnService.prototype.deleteCredential).toHaveBeenCalledWith(
+        'cred123',
+        'user123',
+        expect.objectContaining({ ipAddress: '127.0.0.1' })
+      );
+    });
+
+    it('should keep the credential if the password proof is wrong', async () => {
+      // Arrange
+      (ReauthService.prototype.confirmIdentity as jest.Mock).mockRejectedValue(new Error('Invalid credentials'));
+
+      // Act
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/webauthn/credentials/cred123',
+        payload: { authResponse },
+      });
+
+      // Assert
+      expect(response.statusCode).toBe(401);
+      expect(WebAuthnService.prototype.deleteCredential).not.toHaveBeenCalled();
+      expect(ThrottleService.prototype.recordFailure).toHaveBeenCalledWith({ userId: 'user123' }, '127.0.0.1');
+    });
+
+    it('should answer 400 without a password proof', async () => {
+      // Act
+      const response = await app.inject({ method: 'DELETE', url: '/api/webauthn/credentials/cred123' });
+
+      // Assert
+      expect(response.statusCode).toBe(400);
+      expect(WebAuthnService.prototype.deleteCredential).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -6,6 +6,8 @@ import { FastifyInstance } from 'fastify';
 import { userRoutes } from './user.routes';
 import { vaultRoutes } from './vault.routes';
 import { webauthnRoutes } from './webauthn.routes';
+import { totpRoutes } from './totp.routes';
+import { recoveryRoutes } from './recovery.routes';
 
 /**
  * Register all routes with the Fastify instance
@@ -20,4 +22,6 @@ export function registerRoutes(server: FastifyInstance): void {
   server.register(userRoutes, { prefix: '/api/users' });
   server.register(vaultRoutes, { prefix: '/api/vault' });
   server.register(webauthnRoutes, { prefix: '/api/webauthn' });
+  server.register(totpRoutes, { prefix: '/api/totp' });
+  server.register(recoveryRoutes, { prefix: '/api/recovery-codes' });
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * Recovery code routes for regaining access after losing a second factor
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { RecoveryService } from '../services/recovery.service';
+import { ThrottleService } from '../services/throttle.service';
+import { ReauthService } from '../services/reauth.service';
+import { getSessionContext, setSessionCookies, sendTooManyAttempts } from '../utils';
+import { reauthenticationSchema } from './schemas';
+
+// Recovery code routes plugin
+export async function recoveryRoutes(fastify: FastifyInstance): Promise<void> {
+  // Initialize recovery service
+  const recoveryService = new RecoveryService();
+  const throttleService = new ThrottleService();
+  const reauthService = new ReauthService();
+
+  // Validation schemas
+  const codeSchema = z.object({
+    code: z.string().min(1).max(32),
+  });
+
+  // Number of unused codes left
+  fastify.get('/', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
+    try {
+      const userId = (request as any).user.userId;
+      const remaining = await recoveryService.getRemainingCount(userId);
+      return reply.send({ remaining });
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Replace all codes with a new set, confirmed with the master password and the second factor
+  fastify.post('/regenerate', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
+    const userId = (request as any).user.userId;
+    const context = getSessionContext(request);
+
+    try {
+      const validation = reauthenticationSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const retryAfter = await throttleService.getRetryAfter({ userId }, context.ipAddress);
+      if (retryAfter > 0) {
+        return sendTooManyAttempts(reply, retryAfter);
+      }
+
+      await reauthService.confirmIdentity(userId, validation.data);
+      const codes = await recoveryService.regenerateCodes(userId, context);
+      return reply.send({ codes });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (
+        error.message === 'Invalid credentials' ||
+        error.message === 'Invalid code' ||
+        error.message === 'Authentication failed' ||
+        error.message === 'Credential not found'
+      ) {
+        const locked = await throttleService.recordFailure({ userId }, context.ipAddress);
+        if (locked.length > 0) {
+          fastify.log.warn({ locked }, 'Locked out after repeated failed logins');
+        }
+        return reply.code(401).send({ error: error.message });
+      }
+      if (error.message === 'No active challenge' || error.message === 'Challenge not found') {
+        return reply.code(401).send({ error: error.message });
+      }
+      if (
+        error.message === 'Second factor required' ||
+        error.message === 'Second factor not available' ||
+        error.message === 'TOTP not enabled'
+      ) {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error.message === 'No second factor enabled') {
+        return reply.code(409).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Use a code in place of the second factor and upgrade the pending login to a full session
+  fastify.post('/login/verify', { onRequest: [fastify.authenticateSecondFactor] }, async (request, reply: FastifyReply) => {
+    const userId = (request as any).user.userId;
+    const context = getSessionContext(request);
+
+    try {
+      const validation = codeSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      // Recovery codes count against the same limit as the other second factors
+      const retryAfter = await throttleService.getRetryAfter({ userId }, context.ipAddress);
+      if (retryAfter > 0) {
+        return sendTooManyAttempts(reply, retryAfter);
+      }
+
+      const result = await recoveryService.verifyLogin(userId, validation.data.code, context);
+      await throttleService.recordSuccess({ userId });
+
+      // Replace the pending token with the tokens of a full session
+      setSessionCookies(reply, { token: result.token, refreshToken: result.refreshToken! });
+
+      return reply.send({ userId: result.userId, username: result.username });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'Invalid code') {
+        const locked = await throttleService.recordFailure({ userId }, context.ipAddress);
+        if (locked.length > 0) {
+          fastify.log.warn({ locked }, 'Locked out after repeated failed logins');
+        }
+        return reply.code(401).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * Validation schemas shared by several route plugins
+ */
+
+import { z } from 'zod';
+
+export const authResponseSchema = z.object({
+  challengeId: z.string().uuid(),
+  clientProof: z.string().regex(/^[0-9a-fA-F]{64}$/), // SRP-6a M1
+  clientEphemeral: z.string().max(512).regex(/^[0-9a-fA-F]+$/), // SRP-6a A, at most the 2048-bit group size
+});
+
+// Fresh proof of the master password and, if the account has one, the second factor
+export const reauthenticationSchema = z.object({
+  authResponse: authResponseSchema,
+  secondFactor: z
+    .discriminatedUnion('method', [
+      z.object({ method: z.enum(['totp', 'recovery']), code: z.string().min(1) }),
+      z.object({ method: z.literal('webauthn'), credential: z.record(z.unknown()) }),
+    ])
+    .optional(),
+});
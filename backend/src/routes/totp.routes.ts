@@ -0,0 +1,128 @@
+/**
+ * TOTP routes for authenticator-app two-factor authentication
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { TotpService } from '../services/totp.service';
+import { ThrottleService } from '../services/throttle.service';
+import { getSessionContext, setSessionCookies, sendTooManyAttempts } from '../utils';
+
+// TOTP routes plugin
+export async function totpRoutes(fastify: FastifyInstance): Promise<void> {
+  // Initialize TOTP service
+  const totpService = new TotpService();
+  const throttleService = new ThrottleService();
+
+  // Validation schemas
+  const codeSchema = z.object({
+    code: z.string().regex(/^\d{6}$/),
+  });
+
+  // Start enrollment; returns the secret and the otpauth:// URI for the QR code
+  fastify.post('/enroll', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
+    try {
+      const userId = (request as any).user.userId;
+      const enrollment = await totpService.beginEnrollment(userId);
+      return reply.send(enrollment);
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'TOTP already enabled') {
+        return reply.code(409).send({ error: error.message });
+      }
+      if (error.message === 'User not found') {
+        return reply.code(404).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Confirm enrollment with a first code
+  fastify.post('/enroll/verify', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
+    try {
+      const validation = codeSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const userId = (request as any).user.userId;
+      const result = await totpService.confirmEnrollment(userId, validation.data.code, getSessionContext(request));
+      return reply.send(result);
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'Invalid code') {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error.message === 'No TOTP enrollment pending') {
+        return reply.code(404).send({ error: error.message });
+      }
+      if (error.message === 'TOTP already enabled') {
+        return reply.code(409).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Turn TOTP off
+  fastify.delete('/', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
+    try {
+      const validation = codeSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const userId = (request as any).user.userId;
+      await totpService.disable(userId, validation.data.code, getSessionContext(request));
+      return reply.send({ success: true });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'Invalid code') {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error.message === 'TOTP not enabled') {
+        return reply.code(404).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Verify the second factor and upgrade the pending login to a full session
+  fastify.post('/login/verify', { onRequest: [fastify.authenticateSecondFactor] }, async (request, reply: FastifyReply) => {
+    const userId = (request as any).user.userId;
+    const context = getSessionContext(request);
+
+    try {
+      const validation = codeSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      // Six digits fall quickly to guessing without a limit
+      const retryAfter = await throttleService.getRetryAfter({ userId }, context.ipAddress);
+      if (retryAfter > 0) {
+        return sendTooManyAttempts(reply, retryAfter);
+      }
+
+      const result = await totpService.verifyLogin(userId, validation.data.code, context);
+      await throttleService.recordSuccess({ userId });
+
+      // Replace the pending token with the tokens of a full session
+      setSessionCookies(reply, { token: result.token, refreshToken: result.refreshToken! });
+
+      return reply.send({ userId: result.userId, username: result.username });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'Invalid code') {
+        const locked = await throttleService.recordFailure({ userId }, context.ipAddress);
+        if (locked.length > 0) {
+          fastify.log.warn({ locked }, 'Locked out after repeated failed logins');
+        }
+        return reply.code(401).send({ error: error.message });
+      }
+      if (error.message === 'TOTP not enabled') {
+        return reply.code(401).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+}
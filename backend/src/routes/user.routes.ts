@@ -2,35 +2,62 @@
  * User routes for authentication and user management
  */
 
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { UserService } from '../services/user.service';
+import { SessionService } from '../services/session.service';
+import { ThrottleService } from '../services/throttle.service';
+import { AuditService, AUDIT_EVENT_TYPES } from '../services/audit.service';
+import { DeletionService, verifyDeletionReceipt } from '../services/deletion.service';
+import { TakeoutService, verifyTakeout } from '../services/takeout.service';
+import { KdfParams, SignedAccountTakeout } from '../types';
+import { config } from '../config';
+import { getSessionContext, setSessionCookies, clearSessionCookies, sendTooManyAttempts } from '../utils';
+import { authResponseSchema, reauthenticationSchema } from './schemas';
 
-// Request type with user payload
-interface AuthRequest extends FastifyRequest {
-  body: {
-    email: string;
-    username?: string;
-    clientSalt?: string;
-    verifier?: string;
-    authResponse?: {
-      clientProof: string;
-      clientEphemeral: string;
-    };
+// Body of the registration and login requests
+interface AuthBody {
+  email: string;
+  username?: string;
+  clientSalt?: string;
+  verifier?: string;
+  wrappedVaultKey?: string;
+  kdf?: KdfParams;
+  authResponse?: {
+    challengeId: string;
+    clientProof: string;
+    clientEphemeral: string;
   };
 }
 
+// Largest takeout archive accepted back for checking; it carries the whole encrypted vault and audit log
+const TAKEOUT_BODY_LIMIT = 64 * 1024 * 1024;
+
 // User routes plugin
 export async function userRoutes(fastify: FastifyInstance): Promise<void> {
-  // Initialize user service
+  // Initialize services
   const userService = new UserService();
+  const sessionService = new SessionService();
+  const throttleService = new ThrottleService();
+  const auditService = new AuditService();
+  const deletionService = new DeletionService();
+  const takeoutService = new TakeoutService();
 
   // Validation schemas
+  const kdfSchema = z.object({
+    algorithm: z.enum(['argon2id']),
+    iterations: z.number().int().min(1).max(100),
+    memory: z.number().int().min(8192).max(4194304), // 8 MiB to 4 GiB
+    parallelism: z.number().int().min(1).max(16),
+  });
+
   const registerSchema = z.object({
     email: z.string().email(),
     username: z.string().min(3).max(50),
     clientSalt: z.string(),
-    verifier: z.string(),
+    verifier: z.string().max(512).regex(/^[0-9a-fA-F]+$/), // SRP-6a verifier v = g^x mod N, hex encoded
+    wrappedVaultKey: z.string(), // Random vault key, encrypted client-side
+    kdf: kdfSchema, // Parameters the client derived the keys with
   });
 
   const loginChallengeSchema = z.object({
@@ -39,14 +66,50 @@ export async function userRoutes(fastify: FastifyInstance): Promise<void> {
 
   const loginVerifySchema = z.object({
     email: z.string().email(),
-    authResponse: z.object({
-      clientProof: z.string(),
-      clientEphemeral: z.string(),
+    authResponse: authResponseSchema,
+  });
+
+  const auditQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20),
+    types: z
+      .string()
+      .optional()
+      .transform(types => (types ? types.split(',') : []))
+      .pipe(z.array(z.enum(AUDIT_EVENT_TYPES))), // Comma-separated filter
+  });
+
+  const accountDeletionSchema = reauthenticationSchema.extend({
+    gracePeriod: z.boolean().default(false),
+  });
+
+  const deletionReceiptSchema = z.object({
+    receipt: z.object({
+      receiptId: z.string(),
+      userId: z.string(),
+      email: z.string(),
+      requestedAt: z.string(),
+      purgeAt: z.string(),
     }),
+    signature: z.string(),
+  });
+
+  // The signature covers the archive exactly as sent, so parsing only checks its shape
+  const takeoutSchema = z.object({
+    takeout: z.object({ takeoutId: z.string(), exportedAt: z.string() }).passthrough(),
+    signature: z.string(),
+  });
+
+  const passwordChangeSchema = z.object({
+    authResponse: authResponseSchema, // Proof for the current password
+    clientSalt: z.string(),
+    verifier: z.string().max(512).regex(/^[0-9a-fA-F]+$/),
+    wrappedVaultKey: z.string(), // Same vault key, wrapped with the new encryption key
+    kdf: kdfSchema,
   });
 
   // Register a new user
-  fastify.post('/register', async (request: AuthRequest, reply: FastifyReply) => {
+  fastify.post<{ Body: AuthBody }>('/register', async (request, reply) => {
     try {
       // Validate request body
       const validation = registerSchema.safeParse(request.body);
@@ -54,7 +117,7 @@ export async function userRoutes(fastify: FastifyInstance): Promise<void> {
         return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
       }
 
-      const { email, username, clientSalt, verifier } = request.body;
+      const { email, username, clientSalt, verifier, wrappedVaultKey, kdf } = request.body;
 
       // Register the user
       const result = await userService.registerUser({
@@ -62,6 +125,8 @@ export async function userRoutes(fastify: FastifyInstance): Promise<void> {
         username: username!,
         clientSalt: clientSalt!,
         verifier: verifier!,
+        wrappedVaultKey: wrappedVaultKey!,
+        kdf: kdf!,
       });
 
       return reply.code(201).send(result);
@@ -70,12 +135,20 @@ export async function userRoutes(fastify: FastifyInstance): Promise<void> {
       if (error.message === 'User already exists') {
         return reply.code(409).send({ error: error.message });
       }
+      if (error.message === 'KDF parameters below policy') {
+        return reply.code(400).send({ error: error.message });
+      }
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
 
+  // Get the KDF parameters required for new credentials
+  fastify.get('/kdf-policy', async (request, reply) => {
+    return reply.send(userService.getKdfPolicy());
+  });
+
   // Request login challenge
-  fastify.post('/login/challenge', async (request: AuthRequest, reply: FastifyReply) => {
+  fastify.post<{ Body: AuthBody }>('/login/challenge', async (request, reply) => {
     try {
       // Validate request body
       const validation = loginChallengeSchema.safeParse(request.body);
@@ -85,20 +158,19 @@ export async function userRoutes(fastify: FastifyInstance): Promise<void> {
 
       const { email } = request.body;
 
-      // Get login challenge
+      // Get login challenge; unknown emails get one too
       const challenge = await userService.getLoginChallenge(email);
       return reply.send(challenge);
     } catch (error: any) {
       fastify.log.error(error);
-      if (error.message === 'User not found') {
-        return reply.code(404).send({ error: error.message });
-      }
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
 
   // Verify login and issue token
-  fastify.post('/login/verify', async (request: AuthRequest, reply: FastifyReply) => {
+  fastify.post<{ Body: AuthBody }>('/login/verify', async (request, reply) => {
+    const context = getSessionContext(request);
+
     try {
       // Validate request body
       const validation = loginVerifySchema.safeParse(request.body);
@@ -108,43 +180,375 @@ export async function userRoutes(fastify: FastifyInstance): Promise<void> {
 
       const { email, authResponse } = request.body;
 
+      // Make repeated failures wait, whether or not the account exists
+      const retryAfter = await throttleService.getRetryAfter({ email }, context.ipAddress);
+      if (retryAfter > 0) {
+        return sendTooManyAttempts(reply, retryAfter);
+      }
+
       // Verify login
-      const result = await userService.verifyLogin(email, authResponse!);
+      const result = await userService.verifyLogin(email, authResponse!, context);
+      await throttleService.recordSuccess({ email });
+
+      // Set the session cookies; a pending token lasts only as long as the second factor may take
+      if (result.twoFactorRequired) {
+        reply.setCookie('token', result.token, {
+          path: '/',
+          httpOnly: true,
+          secure: fastify.config.isProduction,
+          sameSite: 'strict',
+          maxAge: config.twoFactorTimeout,
+        });
+      } else {
+        setSessionCookies(reply, { token: result.token, refreshToken: result.refreshToken! });
+      }
+
+      return reply.send({
+        userId: result.userId,
+        username: result.username,
+        serverProof: result.serverProof,
+        wrappedVaultKey: result.wrappedVaultKey,
+        twoFactorRequired: !!result.twoFactorRequired,
+        twoFactorMethods: result.twoFactorMethods ?? [],
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'Invalid credentials') {
+        const locked = await throttleService.recordFailure({ email: request.body.email }, context.ipAddress);
+        if (locked.length > 0) {
+          fastify.log.warn({ locked }, 'Locked out after repeated failed logins');
+        }
+        return reply.code(401).send({ error: error.message });
+      }
+      if (error.message === 'No active challenge') {
+        return reply.code(401).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Request a challenge to prove the current master password
+  fastify.post('/password/challenge', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const userId = (request as any).user.userId;
+      const challenge = await userService.getPasswordChangeChallenge(userId);
+      return reply.send(challenge);
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'User not found') {
+        return reply.code(404).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
 
-      // Set JWT token in cookie
+  // Change master password
+  fastify.post('/password', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      // Validate request body
+      const validation = passwordChangeSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const { userId, sessionId } = (request as any).user;
+      const result = await userService.changePassword(userId, sessionId, validation.data, getSessionContext(request));
+
+      // Every other session was invalidated; keep this one signed in
       reply.setCookie('token', result.token, {
         path: '/',
         httpOnly: true,
         secure: fastify.config.isProduction,
         sameSite: 'strict',
-        maxAge: 3600, // 1 hour
+        maxAge: config.accessTokenTimeout,
       });
 
-      return reply.send({ userId: result.userId, username: result.username });
+      return reply.send({ success: true, serverProof: result.serverProof });
     } catch (error: any) {
       fastify.log.error(error);
-      if (error.message === 'Invalid credentials') {
+      if (
+        error.message === 'Invalid credentials' ||
+        error.message === 'No active challenge' ||
+        error.message === 'Session not found'
+      ) {
+        return reply.code(401).send({ error: error.message });
+      }
+      if (error.message === 'KDF parameters below policy') {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error.message === 'User not found') {
+        return reply.code(404).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Upgrade KDF parameters to the current policy, keeping the same password
+  fastify.post('/kdf/upgrade', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      // Validate request body
+      const validation = passwordChangeSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const userId = (request as any).user.userId;
+      const result = await userService.upgradeKdf(userId, validation.data, getSessionContext(request));
+
+      return reply.send({ success: true, serverProof: result.serverProof });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'Invalid credentials' || error.message === 'No active challenge') {
         return reply.code(401).send({ error: error.message });
       }
+      if (error.message === 'KDF parameters below policy') {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error.message === 'User not found') {
+        return reply.code(404).send({ error: error.message });
+      }
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
 
   // Logout user
-  fastify.post('/logout', { onRequest: [fastify.authenticate] }, async (request, reply) => {
-    reply.clearCookie('token', { path: '/' });
+  // Works without a valid session, so a login still waiting for its second factor can be abandoned too
+  fastify.post('/logout', async (request, reply) => {
+    try {
+      // End the session, so its tokens stop working even where they were copied
+      // The refresh token still names the session after the access token expired
+      const refreshToken = request.cookies.refreshToken;
+      if (refreshToken) {
+        await sessionService.revokeByRefreshToken(refreshToken);
+      } else {
+        await request.jwtVerify();
+        const { userId, sessionId } = (request as any).user;
+        if (sessionId) {
+          await sessionService.revokeSession(userId, sessionId);
+        }
+      }
+    } catch (error) {
+      // No valid token, so there is no session to end
+    }
+
+    clearSessionCookies(reply);
     return reply.send({ success: true });
   });
 
+  // Trade the refresh token for new session tokens once the access token has expired
+  fastify.post('/token/refresh', async (request, reply) => {
+    try {
+      const refreshToken = request.cookies.refreshToken;
+      if (!refreshToken) {
+        return reply.code(401).send({ error: 'Invalid refresh token' });
+      }
+
+      const tokens = await sessionService.refreshSession(refreshToken);
+      setSessionCookies(reply, tokens);
+
+      return reply.send({ success: true });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'Invalid refresh token' || error.message === 'Refresh token reused') {
+        clearSessionCookies(reply);
+        return reply.code(401).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // List active sessions
+  fastify.get('/sessions', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId, sessionId } = (request as any).user;
+      const sessions = await sessionService.listSessions(userId, sessionId);
+      return reply.send(sessions);
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Sign out everywhere, including this session
+  fastify.delete('/sessions', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const userId = (request as any).user.userId;
+      const revoked = await sessionService.revokeAllSessions(userId);
+
+      clearSessionCookies(reply);
+      return reply.send({ success: true, revoked });
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Sign out one session
+  fastify.delete<{ Params: { id: string } }>('/sessions/:id', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId, sessionId } = (request as any).user;
+
+      const revoked = await sessionService.revokeSession(userId, request.params.id);
+      if (!revoked) {
+        return reply.code(404).send({ error: 'Session not found' });
+      }
+
+      if (request.params.id === sessionId) {
+        clearSessionCookies(reply);
+      }
+
+      return reply.send({ success: true });
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get the security event log, newest first
+  fastify.get('/audit', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const validation = auditQuerySchema.safeParse(request.query);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const userId = (request as any).user.userId;
+      const { page, pageSize, types } = validation.data;
+      const events = await auditService.listEvents(userId, page, pageSize, types);
+
+      return reply.send(events);
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
   // Get current user
   fastify.get('/me', { onRequest: [fastify.authenticate] }, async (request, reply) => {
     try {
       const userId = (request as any).user.userId;
-      const user = await userService.getUserById(userId);
+      const user = await userService.getUserDTOById(userId);
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
       return reply.send(user);
     } catch (error: any) {
       fastify.log.error(error);
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
+
+  // Download everything the account holds, signed; the vault stays encrypted
+  fastify.get('/me/takeout', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const userId = (request as any).user.userId;
+      const takeout = await takeoutService.exportAccount(userId, getSessionContext(request));
+      return reply.send(takeout);
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'User not found') {
+        return reply.code(404).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Check that a takeout archive came from this server unaltered
+  fastify.post(
+    '/me/takeout/verify',
+    { onRequest: [fastify.authenticate], bodyLimit: TAKEOUT_BODY_LIMIT },
+    async (request, reply) => {
+      try {
+        const validation = takeoutSchema.safeParse(request.body);
+        if (!validation.success) {
+          return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+        }
+
+        return reply.send({ valid: verifyTakeout(request.body as SignedAccountTakeout) });
+      } catch (error: any) {
+        fastify.log.error(error);
+        return reply.code(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Delete the account, confirmed with the master password and the second factor
+  fastify.delete('/me', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = (request as any).user.userId;
+    const context = getSessionContext(request);
+
+    try {
+      const validation = accountDeletionSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const retryAfter = await throttleService.getRetryAfter({ userId }, context.ipAddress);
+      if (retryAfter > 0) {
+        return sendTooManyAttempts(reply, retryAfter);
+      }
+
+      const receipt = await deletionService.deleteAccount(userId, validation.data, context);
+
+      // Every session is gone, this one included
+      clearSessionCookies(reply);
+      return reply.send(receipt);
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (
+        error.message === 'Invalid credentials' ||
+        error.message === 'Invalid code' ||
+        error.message === 'Authentication failed' ||
+        error.message === 'Credential not found'
+      ) {
+        const locked = await throttleService.recordFailure({ userId }, context.ipAddress);
+        if (locked.length > 0) {
+          fastify.log.warn({ locked }, 'Locked out after repeated failed logins');
+        }
+        return reply.code(401).send({ error: error.message });
+      }
+      if (error.message === 'No active challenge' || error.message === 'Challenge not found') {
+        return reply.code(401).send({ error: error.message });
+      }
+      if (
+        error.message === 'Second factor required' ||
+        error.message === 'Second factor not available' ||
+        error.message === 'TOTP not enabled'
+      ) {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error.message === 'Deletion already scheduled') {
+        return reply.code(409).send({ error: error.message });
+      }
+      if (error.message === 'User not found') {
+        return reply.code(404).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Cancel a scheduled deletion during its grace period
+  fastify.post('/me/restore', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const userId = (request as any).user.userId;
+      await deletionService.restoreAccount(userId, getSessionContext(request));
+      return reply.send({ success: true });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'No deletion scheduled') {
+        return reply.code(409).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Check a deletion receipt; the account it names may be long gone, so no login is needed
+  fastify.post('/deletion-receipt/verify', async (request, reply) => {
+    const validation = deletionReceiptSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+    }
+
+    return reply.send({ valid: verifyDeletionReceipt(validation.data) });
+  });
 }
\ No newline at end of file
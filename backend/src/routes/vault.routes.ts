@@ -5,19 +5,15 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { VaultService } from '../services/vault.service';
+import { getSessionContext } from '../utils';
 
 // Request type with vault entry payload
 interface VaultRequest extends FastifyRequest {
   body: {
     id?: string;
     encryptedData: string;
-    metadata?: {
-      title?: string;
-      url?: string;
-      category?: string;
-      tags?: string[];
-      lastModified?: string;
-    };
+    itemType?: string;
+    revision?: number;
   };
 }
 
@@ -26,28 +22,20 @@ export async function vaultRoutes(fastify: FastifyInstance): Promise<void> {
   // Initialize vault service
   const vaultService = new VaultService();
 
-  // Validation schemas
+  // Validation schemas; everything descriptive about an entry lives inside encryptedData
+  const itemTypeSchema = z.string().regex(/^[a-z0-9_-]{1,32}$/);
+
   const createEntrySchema = z.object({
+    id: z.string().uuid().optional(), // Chosen by the client, which binds it into the ciphertext
     encryptedData: z.string(),
-    metadata: z.object({
-      title: z.string().optional(),
-      url: z.string().optional(),
-      category: z.string().optional(),
-      tags: z.array(z.string()).optional(),
-      lastModified: z.string().optional(),
-    }).optional(),
+    itemType: itemTypeSchema.optional(),
   });
 
   const updateEntrySchema = z.object({
     id: z.string().uuid(),
     encryptedData: z.string(),
-    metadata: z.object({
-      title: z.string().optional(),
-      url: z.string().optional(),
-      category: z.string().optional(),
-      tags: z.array(z.string()).optional(),
-      lastModified: z.string().optional(),
-    }).optional(),
+    itemType: itemTypeSchema.optional(),
+    revision: z.number().int().positive(),
   });
 
   // Middleware to authenticate all vault routes
@@ -93,17 +81,21 @@ export async function vaultRoutes(fastify: FastifyInstance): Promise<void> {
       }
 
       const userId = (request as any).user.userId;
-      const { encryptedData, metadata } = request.body;
+      const { id, encryptedData, itemType } = validation.data;
 
       const entry = await vaultService.createEntry({
+        id,
         userId,
         encryptedData,
-        metadata: metadata || {},
+        itemType,
       });
 
       return reply.code(201).send(entry);
     } catch (error: any) {
       fastify.log.error(error);
+      if (error.message === 'Entry already exists') {
+        return reply.code(409).send({ error: error.message });
+      }
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
@@ -122,21 +114,25 @@ export async function vaultRoutes(fastify: FastifyInstance): Promise<void> {
 
       const userId = (request as any).user.userId;
       const entryId = request.params.id;
-      const { encryptedData, metadata } = request.body;
+      const { encryptedData, itemType, revision } = validation.data;
 
-      const updated = await vaultService.updateEntry(entryId, {
+      const newRevision = await vaultService.updateEntry(entryId, {
         userId,
         encryptedData,
-        metadata: metadata || {},
+        itemType,
+        revision,
       });
 
-      if (!updated) {
+      if (newRevision === null) {
         return reply.code(404).send({ error: 'Entry not found' });
       }
 
-      return reply.send({ success: true, id: entryId });
+      return reply.send({ success: true, id: entryId, revision: newRevision });
     } catch (error: any) {
       fastify.log.error(error);
+      if (error.message === 'Revision conflict') {
+        return reply.code(409).send({ error: error.message });
+      }
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
@@ -163,7 +159,7 @@ export async function vaultRoutes(fastify: FastifyInstance): Promise<void> {
   fastify.get('/export', async (request, reply: FastifyReply) => {
     try {
       const userId = (request as any).user.userId;
-      const exportData = await vaultService.exportVault(userId);
+      const exportData = await vaultService.exportVault(userId, getSessionContext(request));
       return reply.send(exportData);
     } catch (error: any) {
       fastify.log.error(error);
@@ -181,7 +177,7 @@ export async function vaultRoutes(fastify: FastifyInstance): Promise<void> {
         return reply.code(400).send({ error: 'Invalid import data' });
       }
 
-      const result = await vaultService.importVault(userId, entries);
+      const result = await vaultService.importVault(userId, entries, getSessionContext(request));
       return reply.send(result);
     } catch (error: any) {
       fastify.log.error(error);
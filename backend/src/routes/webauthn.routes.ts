@@ -3,17 +3,29 @@
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
 import { WebAuthnService } from '../services/webauthn.service';
+import { ThrottleService } from '../services/throttle.service';
+import { ReauthService } from '../services/reauth.service';
+import { getSessionContext, setSessionCookies, sendTooManyAttempts } from '../utils';
+import { reauthenticationSchema } from './schemas';
 
 // WebAuthn routes plugin
 export async function webauthnRoutes(fastify: FastifyInstance): Promise<void> {
   // Initialize WebAuthn service
   const webAuthnService = new WebAuthnService();
+  const throttleService = new ThrottleService();
+  const reauthService = new ReauthService();
+
+  // Validation schemas
+  const prfKeySchema = z.object({
+    wrappedVaultKey: z.string().min(1).nullable(), // Null stops the passkey from unlocking the vault
+  });
 
   // Generate registration options
   fastify.post('/register/options', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
     try {
-      const userId = request.user.sub;
+      const userId = (request as any).user.userId;
       const options = await webAuthnService.generateRegistrationOptions(userId);
       return reply.send(options);
     } catch (error: any) {
@@ -23,63 +35,151 @@ export async function webauthnRoutes(fastify: FastifyInstance): Promise<void> {
   });
 
   // Verify registration
-  fastify.post('/register/verify', { onRequest: [fastify.authenticate] }, async (request: FastifyRequest<{ Body: { credential: any } }>, reply: FastifyReply) => {
+  fastify.post<{ Body: { credential: any } }>('/register/verify', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
     try {
-      const userId = request.user.sub;
+      const userId = (request as any).user.userId;
       const { credential } = request.body;
 
-      const verification = await webAuthnService.verifyRegistration(userId, credential);
+      const verification = await webAuthnService.verifyRegistration(userId, credential, getSessionContext(request));
       return reply.send(verification);
     } catch (error: any) {
       fastify.log.error(error);
-      if (error.message === 'Invalid credential') {
+      if (error.message === 'Invalid credential' || error.message === 'Challenge not found') {
         return reply.code(400).send({ error: error.message });
       }
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
 
-  // Generate authentication options
-  fastify.post('/login/options', async (request: FastifyRequest<{ Body: { email: string } }>, reply: FastifyReply) => {
+  // Generate authentication options for the second factor of a pending login
+  fastify.post('/login/options', { onRequest: [fastify.authenticateSecondFactor] }, async (request, reply: FastifyReply) => {
+    try {
+      const userId = (request as any).user.userId;
+      const options = await webAuthnService.generateAuthenticationOptions(userId);
+      return reply.send(options);
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'User not found' || error.message === 'No WebAuthn credentials found for this user') {
+        return reply.code(404).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Generate authentication options for confirming a sensitive action, such as deleting the account
+  fastify.post('/reauth/options', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
     try {
-      const { email } = request.body;
-      const options = await webAuthnService.generateAuthenticationOptions(email);
+      const userId = (request as any).user.userId;
+      const options = await webAuthnService.generateAuthenticationOptions(userId, 'reauth');
       return reply.send(options);
     } catch (error: any) {
       fastify.log.error(error);
-      if (error.message === 'User not found' || error.message === 'No registered credentials') {
+      if (error.message === 'User not found' || error.message === 'No WebAuthn credentials found for this user') {
         return reply.code(404).send({ error: error.message });
       }
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
 
-  // Verify authentication
-  fastify.post('/login/verify', async (request: FastifyRequest<{ Body: { email: string; credential: any } }>, reply: FastifyReply) => {
+  // Verify the second factor and upgrade the pending login to a full session
+  fastify.post<{ Body: { credential: any } }>('/login/verify', { onRequest: [fastify.authenticateSecondFactor] }, async (request, reply: FastifyReply) => {
+    const userId = (request as any).user.userId;
+    const context = getSessionContext(request);
+
     try {
-      const { email, credential } = request.body;
-
-      const verification = await webAuthnService.verifyAuthentication(email, credential);
-      
-      if (verification.verified) {
-        // Set JWT token in cookie
-        reply.setCookie('token', verification.token, {
-          path: '/',
-          httpOnly: true,
-          secure: fastify.config.isProduction,
-          sameSite: 'strict',
-          maxAge: 3600, // 1 hour
-        });
-
-        return reply.send({ userId: verification.userId, username: verification.username });
-      } else {
-        return reply.code(401).send({ error: 'Authentication failed' });
+      const { credential } = request.body ?? {};
+
+      const retryAfter = await throttleService.getRetryAfter({ userId }, context.ipAddress);
+      if (retryAfter > 0) {
+        return sendTooManyAttempts(reply, retryAfter);
       }
+
+      const result = await webAuthnService.verifyAuthentication(userId, credential, context);
+      await throttleService.recordSuccess({ userId });
+
+      // Replace the pending token with the tokens of a full session
+      setSessionCookies(reply, { token: result.token, refreshToken: result.refreshToken! });
+
+      return reply.send({ userId: result.userId, username: result.username });
     } catch (error: any) {
       fastify.log.error(error);
       if (error.message === 'Invalid credential') {
         return reply.code(400).send({ error: error.message });
       }
+      if (error.message === 'Authentication failed' || error.message === 'Credential not found') {
+        const locked = await throttleService.recordFailure({ userId }, context.ipAddress);
+        if (locked.length > 0) {
+          fastify.log.warn({ locked }, 'Locked out after repeated failed logins');
+        }
+        return reply.code(401).send({ error: error.message });
+      }
+      if (error.message === 'Challenge not found') {
+        return reply.code(401).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Generate options for a passwordless login with a discoverable credential
+  fastify.post('/passkey/options', async (request, reply: FastifyReply) => {
+    try {
+      const options = await webAuthnService.generatePasskeyLoginOptions();
+      return reply.send(options);
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Verify a passwordless login
+  fastify.post('/passkey/verify', async (request: FastifyRequest<{ Body: { credential: any } }>, reply: FastifyReply) => {
+    try {
+      const { credential } = request.body ?? {};
+
+      const result = await webAuthnService.verifyPasskeyLogin(credential, getSessionContext(request));
+
+      // Set the session cookies
+      setSessionCookies(reply, { token: result.token, refreshToken: result.refreshToken! });
+
+      return reply.send({
+        userId: result.userId,
+        username: result.username,
+        email: result.email,
+        prfWrappedVaultKey: result.prfWrappedVaultKey,
+      });
+    } catch (error: any) {
+      fastify.log.error(error);
+      if (error.message === 'Invalid credential') {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error.message === 'Authentication failed') {
+        return reply.code(401).send({ error: error.message });
+      }
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Store the vault key wrapped with a passkey's PRF output
+  fastify.put<{ Params: { id: string } }>('/credentials/:id/prf', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
+    try {
+      const validation = prfKeySchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const userId = (request as any).user.userId;
+      const updated = await webAuthnService.setPrfWrappedVaultKey(
+        request.params.id,
+        userId,
+        validation.data.wrappedVaultKey
+      );
+      if (!updated) {
+        return reply.code(404).send({ error: 'Credential not found' });
+      }
+
+      return reply.send({ success: true });
+    } catch (error: any) {
+      fastify.log.error(error);
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
@@ -87,7 +187,7 @@ export async function webauthnRoutes(fastify: FastifyInstance): Promise<void> {
   // Get registered credentials
   fastify.get('/credentials', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
     try {
-      const userId = request.user.sub;
+      const userId = (request as any).user.userId;
       const credentials = await webAuthnService.getCredentialsByUserId(userId);
       return reply.send(credentials);
     } catch (error: any) {
@@ -96,13 +196,24 @@ export async function webauthnRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
-  // Delete a credential
-  fastify.delete('/credentials/:id', { onRequest: [fastify.authenticate] }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+  // Remove a credential, confirmed with the master password and the second factor
+  fastify.delete<{ Params: { id: string } }>('/credentials/:id', { onRequest: [fastify.authenticate] }, async (request, reply: FastifyReply) => {
+    const userId = (request as any).user.userId;
+    const context = getSessionContext(request);
+
     try {
-      const userId = request.user.sub;
-      const credentialId = request.params.id;
+      const validation = reauthenticationSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.code(400).send({ error: 'Invalid request data', details: validation.error });
+      }
+
+      const retryAfter = await throttleService.getRetryAfter({ userId }, context.ipAddress);
+      if (retryAfter > 0) {
+        return sendTooManyAttempts(reply, retryAfter);
+      }
 
-      const deleted = await webAuthnService.deleteCredential(credentialId, userId);
+      await reauthService.confirmIdentity(userId, validation.data);
+      const deleted = await webAuthnService.deleteCredential(request.params.id, userId, context);
       if (!deleted) {
         return reply.code(404).send({ error: 'Credential not found' });
       }
@@ -110,6 +221,28 @@ export async function webauthnRoutes(fastify: FastifyInstance): Promise<void> {
       return reply.send({ success: true });
     } catch (error: any) {
       fastify.log.error(error);
+      if (
+        error.message === 'Invalid credentials' ||
+        error.message === 'Invalid code' ||
+        error.message === 'Authentication failed' ||
+        error.message === 'Credential not found'
+      ) {
+        const locked = await throttleService.recordFailure({ userId }, context.ipAddress);
+        if (locked.length > 0) {
+          fastify.log.warn({ locked }, 'Locked out after repeated failed logins');
+        }
+        return reply.code(401).send({ error: error.message });
+      }
+      if (error.message === 'No active challenge' || error.message === 'Challenge not found') {
+        return reply.code(401).send({ error: error.message });
+      }
+      if (
+        error.message === 'Second factor required' ||
+        error.message === 'Second factor not available' ||
+        error.message === 'TOTP not enabled'
+      ) {
+        return reply.code(400).send({ error: error.message });
+      }
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
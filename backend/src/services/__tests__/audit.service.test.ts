@@ -0,0 +1,93 @@
+import { AuditService } from '../audit.service';
+import { AuditEventModel } from '../../models';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  AuditEventModel: {
+    create: jest.fn(),
+    getByUserId: jest.fn(),
+  },
+}));
+
+const context = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0' };
+
+describe('AuditService', () => {
+  let auditService: AuditService;
+
+  beforeEach(() => {
+    auditService = new AuditService();
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should store the event with where the request came from', async () => {
+      // Act
+      await auditService.record('user123', 'totp_enabled', context);
+
+      // Assert
+      expect(AuditEventModel.create).toHaveBeenCalledWith({
+        userId: 'user123',
+        type: 'totp_enabled',
+        ipAddress: '127.0.0.1',
+        userAgent: context.userAgent,
+        details: {},
+      });
+    });
+
+    it('should store an event without a request context', async () => {
+      // Act
+      await auditService.record('user123', 'account_locked', null, { step: 'password' });
+
+      // Assert
+      expect(AuditEventModel.create).toHaveBeenCalledWith({
+        userId: 'user123',
+        type: 'account_locked',
+        ipAddress: null,
+        userAgent: null,
+        details: { step: 'password' },
+      });
+    });
+  });
+
+  describe('listEvents', () => {
+    it('should fetch the requested page and describe the device', async () => {
+      // Arrange
+      const createdAt = new Date('2023-12-14T10:00:00Z');
+      (AuditEventModel.getByUserId as jest.Mock).mockResolvedValue({
+        events: [
+          {
+            id: 'event123',
+            userId: 'user123',
+            type: 'login',
+            ipAddress: '127.0.0.1',
+            userAgent: context.userAgent,
+            details: { method: 'password' },
+            createdAt,
+          },
+        ],
+        total: 41,
+      });
+
+      // Act
+      const page = await auditService.listEvents('user123', 3, 20, ['login']);
+
+      // Assert
+      expect(AuditEventModel.getByUserId).toHaveBeenCalledWith('user123', ['login'], 40, 20);
+      expect(page).toEqual({
+        events: [
+          {
+            id: 'event123',
+            type: 'login',
+            ipAddress: '127.0.0.1',
+            deviceName: expect.any(String),
+            details: { method: 'password' },
+            createdAt: createdAt.toISOString(),
+          },
+        ],
+        total: 41,
+        page: 3,
+        pageSize: 20,
+      });
+    });
+  });
+});
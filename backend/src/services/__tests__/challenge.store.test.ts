@@ -0,0 +1,89 @@
+import { MemoryChallengeStore, SqlChallengeStore } from '../challenge.store';
+import { ChallengeModel } from '../../models';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  ChallengeModel: {
+    put: jest.fn(),
+    consume: jest.fn(),
+    deleteExpired: jest.fn(),
+  },
+}));
+
+describe('MemoryChallengeStore', () => {
+  let store: MemoryChallengeStore;
+
+  beforeEach(() => {
+    store = new MemoryChallengeStore();
+    jest.restoreAllMocks();
+  });
+
+  it('should hand out a challenge only once', async () => {
+    // Arrange
+    await store.put('srp:a@example.com:1', 'value');
+
+    // Act
+    const first = await store.consume('srp:a@example.com:1');
+    const second = await store.consume('srp:a@example.com:1');
+
+    // Assert
+    expect(first).toBe('value');
+    expect(second).toBeNull();
+  });
+
+  it('should keep challenges under different keys apart', async () => {
+    // Arrange
+    await store.put('srp:a@example.com:1', 'first');
+    await store.put('srp:a@example.com:2', 'second');
+
+    // Act & Assert
+    expect(await store.consume('srp:a@example.com:2')).toBe('second');
+    expect(await store.consume('srp:a@example.com:1')).toBe('first');
+  });
+
+  it('should not return an expired challenge', async () => {
+    // Arrange
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    await store.put('key', 'value', 60);
+    (Date.now as jest.Mock).mockReturnValue(now + 60 * 1000);
+
+    // Act & Assert
+    expect(await store.consume('key')).toBeNull();
+  });
+});
+
+describe('SqlChallengeStore', () => {
+  let store: SqlChallengeStore;
+
+  beforeEach(() => {
+    store = new SqlChallengeStore();
+    jest.clearAllMocks();
+  });
+
+  it('should store the challenge with its expiry time', async () => {
+    // Arrange
+    (ChallengeModel.deleteExpired as jest.Mock).mockResolvedValue(0);
+    const before = Date.now();
+
+    // Act
+    await store.put('key', 'value', 60);
+
+    // Assert
+    const [key, value, expiresAt] = (ChallengeModel.put as jest.Mock).mock.calls[0];
+    expect(key).toBe('key');
+    expect(value).toBe('value');
+    expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 60 * 1000);
+  });
+
+  it('should still store the challenge when cleanup fails', async () => {
+    // Arrange
+    (ChallengeModel.deleteExpired as jest.Mock).mockRejectedValue(new Error('locked'));
+
+    // Act
+    await store.put('key', 'value');
+
+    // Assert
+    expect(ChallengeModel.put).toHaveBeenCalled();
+  });
+});
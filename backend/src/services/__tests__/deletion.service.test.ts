@@ -0,0 +1,199 @@
+import { DeletionService, verifyDeletionReceipt } from '../deletion.service';
+import { UserService } from '../user.service';
+import { TotpService } from '../totp.service';
+import { UserModel, SessionModel, AuditEventModel } from '../../models';
+import { config } from '../../config';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  UserModel: {
+    getById: jest.fn(),
+    hasWebAuthn: jest.fn(),
+    hasTotp: jest.fn(),
+    scheduleDeletion: jest.fn(),
+    getIdsDueForDeletion: jest.fn(),
+    delete: jest.fn(),
+  },
+  SessionModel: {
+    revokeAll: jest.fn(),
+  },
+  AuditEventModel: {
+    create: jest.fn(),
+  },
+}));
+
+// The password proof and second factors have tests of their own
+jest.mock('../user.service');
+jest.mock('../totp.service');
+jest.mock('../recovery.service');
+jest.mock('../webauthn.service', () => ({
+  WebAuthnService: jest.fn().mockImplementation(() => ({ confirmAssertion: jest.fn() })),
+}));
+
+const context = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0' };
+const authResponse = { challengeId: 'challenge123', clientProof: 'proof', clientEphemeral: 'ephemeral' };
+
+describe('DeletionService', () => {
+  let deletionService: DeletionService;
+
+  beforeEach(() => {
+    deletionService = new DeletionService();
+    jest.clearAllMocks();
+    (UserModel.getById as jest.Mock).mockResolvedValue({
+      id: 'user123',
+      email: 'test@example.com',
+      deletionDueAt: null,
+    });
+    (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(false);
+    (UserModel.hasTotp as jest.Mock).mockResolvedValue(false);
+    (UserModel.delete as jest.Mock).mockResolvedValue(true);
+    (UserModel.scheduleDeletion as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('deleteAccount', () => {
+    it('should purge the account at once and sign a receipt for it', async () => {
+      // Act
+      const signed = await deletionService.deleteAccount('user123', { authResponse, gracePeriod: false }, context);
+
+      // Assert
+      expect(UserService.prototype.confirmPassword).toHaveBeenCalledWith('user123', authResponse);
+      expect(UserModel.delete).toHaveBeenCalledWith('user123');
+      expect(UserModel.scheduleDeletion).not.toHaveBeenCalled();
+      expect(signed.receipt).toEqual({
+        receiptId: expect.any(String),
+        userId: 'user123',
+        email: 'test@example.com',
+        requestedAt: expect.any(String),
+        purgeAt: signed.receipt.requestedAt,
+      });
+      expect(verifyDeletionReceipt(signed)).toBe(true);
+    });
+
+    it('should keep the account restorable for the grace period and sign it out everywhere', async () => {
+      // Act
+      const signed = await deletionService.deleteAccount('user123', { authResponse, gracePeriod: true }, context);
+
+      // Assert
+      const [userId, purgeAt] = (UserModel.scheduleDeletion as jest.Mock).mock.calls[0];
+      expect(userId).toBe('user123');
+      expect(purgeAt.getTime() - Date.parse(signed.receipt.requestedAt)).toBe(config.accountDeletionGracePeriod * 1000);
+      expect(signed.receipt.purgeAt).toBe(purgeAt.toISOString());
+      expect(SessionModel.revokeAll).toHaveBeenCalledWith('user123', undefined);
+      expect(AuditEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user123', type: 'account_deletion_scheduled' })
+      );
+      expect(UserModel.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete nothing if the password proof is wrong', async () => {
+      // Arrange
+      (UserService.prototype.confirmPassword as jest.Mock).mockRejectedValueOnce(new Error('Invalid credentials'));
+
+      // Act & Assert
+      await expect(
+        deletionService.deleteAccount('user123', { authResponse, gracePeriod: false }, context)
+      ).rejects.toThrow('Invalid credentials');
+      expect(UserModel.delete).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor of an account that has one', async () => {
+      // Arrange
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(
+        deletionService.deleteAccount('user123', { authResponse, gracePeriod: false }, context)
+      ).rejects.toThrow('Second factor required');
+      expect(UserModel.delete).not.toHaveBeenCalled();
+    });
+
+    it('should check an authenticator code before deleting', async () => {
+      // Arrange
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      await deletionService.deleteAccount(
+        'user123',
+        { authResponse, secondFactor: { method: 'totp', code: '123456' }, gracePeriod: false },
+        context
+      );
+
+      // Assert
+      expect(TotpService.prototype.confirmCode).toHaveBeenCalledWith('user123', '123456');
+      expect(UserModel.delete).toHaveBeenCalledWith('user123');
+    });
+
+    it('should refuse a second factor the account does not have', async () => {
+      // Arrange
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(
+        deletionService.deleteAccount(
+          'user123',
+          { authResponse, secondFactor: { method: 'totp', code: '123456' }, gracePeriod: false },
+          context
+        )
+      ).rejects.toThrow('Second factor not available');
+      expect(UserModel.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an account whose deletion is already scheduled', async () => {
+      // Arrange
+      (UserModel.getById as jest.Mock).mockResolvedValue({ id: 'user123', deletionDueAt: new Date() });
+
+      // Act & Assert
+      await expect(
+        deletionService.deleteAccount('user123', { authResponse, gracePeriod: true }, context)
+      ).rejects.toThrow('Deletion already scheduled');
+    });
+  });
+
+  describe('verifyDeletionReceipt', () => {
+    it('should reject a receipt that was altered', async () => {
+      // Arrange
+      const signed = await deletionService.deleteAccount('user123', { authResponse, gracePeriod: false }, context);
+
+      // Act & Assert
+      expect(verifyDeletionReceipt({ ...signed, receipt: { ...signed.receipt, userId: 'user456' } })).toBe(false);
+      expect(verifyDeletionReceipt({ ...signed, signature: 'forged' })).toBe(false);
+    });
+  });
+
+  describe('restoreAccount', () => {
+    it('should cancel a scheduled deletion', async () => {
+      // Act
+      await deletionService.restoreAccount('user123', context);
+
+      // Assert
+      expect(UserModel.scheduleDeletion).toHaveBeenCalledWith('user123', null);
+      expect(AuditEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user123', type: 'account_restored' })
+      );
+    });
+
+    it('should fail if no deletion is scheduled', async () => {
+      // Arrange
+      (UserModel.scheduleDeletion as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(deletionService.restoreAccount('user123', context)).rejects.toThrow('No deletion scheduled');
+      expect(AuditEventModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeDueAccounts', () => {
+    it('should delete every account past its grace period', async () => {
+      // Arrange
+      (UserModel.getIdsDueForDeletion as jest.Mock).mockResolvedValue(['user123', 'user456']);
+
+      // Act
+      const purged = await deletionService.purgeDueAccounts();
+
+      // Assert
+      expect(purged).toBe(2);
+      expect(UserModel.delete).toHaveBeenCalledWith('user123');
+      expect(UserModel.delete).toHaveBeenCalledWith('user456');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { drawToken, MemoryRateLimitStore, SqlRateLimitStore } from '../rateLimit.store';
+import { RateLimitModel } from '../../models';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  RateLimitModel: {
+    update: jest.fn(),
+    deleteIdle: jest.fn(),
+  },
+}));
+
+const policy = { capacity: 3, refillPerSecond: 0.5 };
+
+describe('drawToken', () => {
+  it('should start a new client with a full bucket', () => {
+    expect(drawToken(null, 0, policy)).toEqual({ tokens: 2, result: { allowed: true, retryAfter: 0 } });
+  });
+
+  it('should refill for the time since the last request, up to the capacity', () => {
+    expect(drawToken(0, 4, policy).tokens).toBe(1);
+    expect(drawToken(2, 3600, policy).tokens).toBe(2);
+  });
+
+  it('should say how long until the next token when the bucket is empty', () => {
+    expect(drawToken(0.25, 0, policy)).toEqual({ tokens: 0.25, result: { allowed: false, retryAfter: 2 } });
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    jest.restoreAllMocks();
+  });
+
+  it('should allow a burst up to the capacity and then refuse', async () => {
+    // Arrange
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    // Act
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await store.take('auth:127.0.0.1', policy));
+    }
+
+    // Assert
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results[3].retryAfter).toBe(2);
+  });
+
+  it('should let requests through again once tokens have flowed back', async () => {
+    // Arrange
+    const now = 1_000_000;
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    for (let i = 0; i < 3; i++) {
+      await store.take('auth:127.0.0.1', policy);
+    }
+    (Date.now as jest.Mock).mockReturnValue(now + 2000);
+
+    // Act & Assert
+    expect((await store.take('auth:127.0.0.1', policy)).allowed).toBe(true);
+    expect((await store.take('auth:127.0.0.1', policy)).allowed).toBe(false);
+  });
+
+  it('should keep the buckets of different clients apart', async () => {
+    // Arrange
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    for (let i = 0; i < 3; i++) {
+      await store.take('auth:127.0.0.1', policy);
+    }
+
+    // Act & Assert
+    expect((await store.take('auth:127.0.0.1', policy)).allowed).toBe(false);
+    expect((await store.take('auth:10.0.0.2', policy)).allowed).toBe(true);
+    expect((await store.take('read:127.0.0.1', policy)).allowed).toBe(true);
+  });
+});
+
+describe('SqlRateLimitStore', () => {
+  let store: SqlRateLimitStore;
+
+  beforeEach(() => {
+    store = new SqlRateLimitStore();
+    jest.clearAllMocks();
+    (RateLimitModel.update as jest.Mock).mockImplementation(async (key, update) =>
+      update({ key, tokens: 0, updatedAt: new Date(Date.now() - 1000) }).result
+    );
+    (RateLimitModel.deleteIdle as jest.Mock).mockResolvedValue(0);
+  });
+
+  it('should draw from the stored bucket', async () => {
+    // Act
+    const result = await store.take('write:127.0.0.1', policy);
+
+    // Assert
+    expect(RateLimitModel.update).toHaveBeenCalledWith('write:127.0.0.1', expect.any(Function));
+    expect(result).toEqual({ allowed: false, retryAfter: 1 });
+  });
+
+  it('should clear idle buckets at most once a minute', async () => {
+    // Act
+    await store.take('write:127.0.0.1', policy);
+    await store.take('write:127.0.0.1', policy);
+
+    // Assert
+    expect(RateLimitModel.deleteIdle).toHaveBeenCalledTimes(1);
+  });
+});
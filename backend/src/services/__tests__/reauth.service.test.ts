@@ -0,0 +1,90 @@
+import { ReauthService } from '../reauth.service';
+import { UserService } from '../user.service';
+import { TotpService } from '../totp.service';
+import { RecoveryService } from '../recovery.service';
+import { WebAuthnService } from '../webauthn.service';
+import { UserModel } from '../../models';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  UserModel: {
+    hasWebAuthn: jest.fn(),
+    hasTotp: jest.fn(),
+  },
+}));
+
+// The password proof and second factors have tests of their own
+jest.mock('../user.service');
+jest.mock('../totp.service');
+jest.mock('../recovery.service');
+jest.mock('../webauthn.service', () => {
+  const confirmAssertion = jest.fn();
+  return { WebAuthnService: jest.fn().mockImplementation(() => ({ confirmAssertion })) };
+});
+
+const authResponse = { challengeId: 'challenge123', clientProof: 'proof', clientEphemeral: 'ephemeral' };
+
+describe('ReauthService', () => {
+  let reauthService: ReauthService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reauthService = new ReauthService();
+    (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(false);
+    (UserModel.hasTotp as jest.Mock).mockResolvedValue(false);
+  });
+
+  describe('confirmIdentity', () => {
+    it('should only need the password of an account without a second factor', async () => {
+      // Act
+      await reauthService.confirmIdentity('user123', { authResponse });
+
+      // Assert
+      expect(UserService.prototype.confirmPassword).toHaveBeenCalledWith('user123', authResponse);
+    });
+
+    it('should not check the second factor if the password proof is wrong', async () => {
+      // Arrange
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(true);
+      (UserService.prototype.confirmPassword as jest.Mock).mockRejectedValueOnce(new Error('Invalid credentials'));
+
+      // Act & Assert
+      await expect(
+        reauthService.confirmIdentity('user123', { authResponse, secondFactor: { method: 'totp', code: '123456' } })
+      ).rejects.toThrow('Invalid credentials');
+      expect(TotpService.prototype.confirmCode).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor of an account that has one', async () => {
+      // Arrange
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(reauthService.confirmIdentity('user123', { authResponse })).rejects.toThrow('Second factor required');
+    });
+
+    it('should check a security key assertion', async () => {
+      // Arrange
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(true);
+      const credential = { id: 'cred123' };
+
+      // Act
+      await reauthService.confirmIdentity('user123', { authResponse, secondFactor: { method: 'webauthn', credential } });
+
+      // Assert
+      const webAuthnService = (WebAuthnService as unknown as jest.Mock).mock.results[0].value;
+      expect(webAuthnService.confirmAssertion).toHaveBeenCalledWith('user123', credential);
+    });
+
+    it('should accept a recovery code in place of the second factor', async () => {
+      // Arrange
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      await reauthService.confirmIdentity('user123', { authResponse, secondFactor: { method: 'recovery', code: 'ABCDE-FGHJK' } });
+
+      // Assert
+      expect(RecoveryService.prototype.confirmCode).toHaveBeenCalledWith('user123', 'ABCDE-FGHJK');
+    });
+  });
+});
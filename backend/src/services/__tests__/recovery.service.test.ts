@@ -0,0 +1,124 @@
+import { RecoveryService, RECOVERY_CODE_COUNT } from '../recovery.service';
+import { UserModel, RecoveryCodeModel } from '../../models';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  UserModel: {
+    getById: jest.fn(),
+    hasWebAuthn: jest.fn(),
+    hasTotp: jest.fn(),
+    countRecoveryCodes: jest.fn(),
+  },
+  RecoveryCodeModel: {
+    replaceAll: jest.fn(),
+    exists: jest.fn(),
+    consume: jest.fn(),
+  },
+  SessionModel: {
+    create: jest.fn(),
+    getById: jest.fn(),
+    deleteExpired: jest.fn(),
+    revokeAll: jest.fn(),
+  },
+  RefreshTokenModel: {
+    create: jest.fn(),
+  },
+  AuditEventModel: {
+    create: jest.fn(),
+  },
+}));
+
+// Mock jwt
+jest.mock('jsonwebtoken', () => ({
+  sign: jest.fn().mockReturnValue('mock-jwt-token'),
+}));
+
+// Where the test logins come from
+const context = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0' };
+
+
+describe('RecoveryService', () => {
+  let recoveryService: RecoveryService;
+
+  beforeEach(() => {
+    recoveryService = new RecoveryService();
+    jest.clearAllMocks();
+    (UserModel.getById as jest.Mock).mockResolvedValue({
+      id: 'user123',
+      username: 'recoveryuser',
+      tokenVersion: 0,
+    });
+  });
+
+  describe('regenerateCodes', () => {
+    it('should replace the stored set with hashes of new codes', async () => {
+      // Arrange
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(false);
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      const codes = await recoveryService.regenerateCodes('user123', context);
+
+      // Assert
+      expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+      codes.forEach(code => expect(code).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/));
+
+      const [userId, hashes] = (RecoveryCodeModel.replaceAll as jest.Mock).mock.calls[0];
+      expect(userId).toBe('user123');
+      expect(hashes).toHaveLength(RECOVERY_CODE_COUNT);
+      hashes.forEach((hash: string) => {
+        expect(hash).toMatch(/^[0-9a-f]{64}$/);
+        expect(codes).not.toContain(hash);
+      });
+    });
+
+    it('should refuse without a second factor', async () => {
+      // Arrange
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(false);
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(recoveryService.regenerateCodes('user123', context)).rejects.toThrow('No second factor enabled');
+      expect(RecoveryCodeModel.replaceAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmCode', () => {
+    it('should use up a valid code and refuse an unknown one', async () => {
+      // Arrange
+      (RecoveryCodeModel.consume as jest.Mock).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      // Act & Assert
+      await expect(recoveryService.confirmCode('user123', 'ABCDE-FGHJK')).resolves.toBeUndefined();
+      await expect(recoveryService.confirmCode('user123', 'ABCDE-FGHJK')).rejects.toThrow('Invalid code');
+      expect(RecoveryCodeModel.consume).toHaveBeenCalledWith('user123', expect.stringMatching(/^[0-9a-f]{64}$/));
+    });
+  });
+
+  describe('verifyLogin', () => {
+    it('should redeem a code typed in any case and grouping', async () => {
+      // Arrange
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(true);
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(false);
+      const [code] = await recoveryService.regenerateCodes('user123', context);
+      const [, hashes] = (RecoveryCodeModel.replaceAll as jest.Mock).mock.calls[0];
+      (RecoveryCodeModel.consume as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      const result = await recoveryService.verifyLogin('user123', ` ${code.replace('-', ' ').toLowerCase()} `, context);
+
+      // Assert
+      expect(RecoveryCodeModel.consume).toHaveBeenCalledWith('user123', hashes[0]);
+      expect(result).toEqual({ userId: 'user123', username: 'recoveryuser', token: 'mock-jwt-token', refreshToken: expect.any(String) });
+    });
+
+    it('should reject a code that is unknown or already used', async () => {
+      // Arrange
+      (RecoveryCodeModel.consume as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(recoveryService.verifyLogin('user123', 'AAAAA-BBBBB', context)).rejects.toThrow('Invalid code');
+    });
+  });
+});
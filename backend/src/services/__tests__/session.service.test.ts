@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import { SessionService } from '../session.service';
+import { SessionModel, RefreshTokenModel, UserModel } from '../../models';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  SessionModel: {
+    getById: jest.fn(),
+    getActiveByUserId: jest.fn(),
+    touch: jest.fn(),
+    renew: jest.fn(),
+    revoke: jest.fn(),
+    revokeAll: jest.fn(),
+  },
+  RefreshTokenModel: {
+    create: jest.fn(),
+    getByHash: jest.fn(),
+    markUsed: jest.fn(),
+  },
+  UserModel: {
+    getById: jest.fn(),
+  },
+}));
+
+const session = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session123',
+  userId: 'user123',
+  deviceName: 'Firefox on Linux',
+  ipAddress: '127.0.0.1',
+  userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0',
+  createdAt: new Date('2023-12-10T10:00:00Z'),
+  lastSeenAt: new Date('2023-12-10T11:00:00Z'),
+  expiresAt: new Date(Date.now() + 3600 * 1000),
+  revokedAt: null,
+  ...overrides,
+});
+
+const refreshToken = (overrides: Record<string, unknown> = {}) => ({
+  id: 'refresh123',
+  sessionId: 'session123',
+  tokenHash: createHash('sha256').update('presented-token').digest('hex'),
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 3600 * 1000),
+  usedAt: null,
+  ...overrides,
+});
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+
+  beforeEach(() => {
+    sessionService = new SessionService();
+    jest.clearAllMocks();
+  });
+
+  describe('validateSession', () => {
+    it('should accept an active session and record that it was used', async () => {
+      // Arrange
+      (SessionModel.getById as jest.Mock).mockResolvedValue(session());
+
+      // Act
+      const valid = await sessionService.validateSession('user123', 'session123');
+
+      // Assert
+      expect(valid).toBe(true);
+      expect(SessionModel.touch).toHaveBeenCalledWith('session123', expect.any(Number));
+    });
+
+    it('should reject a revoked session', async () => {
+      // Arrange
+      (SessionModel.getById as jest.Mock).mockResolvedValue(session({ revokedAt: new Date() }));
+
+      // Act & Assert
+      expect(await sessionService.validateSession('user123', 'session123')).toBe(false);
+      expect(SessionModel.touch).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired session', async () => {
+      // Arrange
+      (SessionModel.getById as jest.Mock).mockResolvedValue(session({ expiresAt: new Date(Date.now() - 1000) }));
+
+      // Act & Assert
+      expect(await sessionService.validateSession('user123', 'session123')).toBe(false);
+    });
+
+    it('should reject a session that belongs to another user', async () => {
+      // Arrange
+      (SessionModel.getById as jest.Mock).mockResolvedValue(session({ userId: 'other456' }));
+
+      // Act & Assert
+      expect(await sessionService.validateSession('user123', 'session123')).toBe(false);
+    });
+  });
+
+  describe('refreshSession', () => {
+    beforeEach(() => {
+      (SessionModel.getById as jest.Mock).mockResolvedValue(session());
+      (UserModel.getById as jest.Mock).mockResolvedValue({ id: 'user123', tokenVersion: 2 });
+    });
+
+    it('should rotate the refresh token and extend the session', async () => {
+      // Arrange
+      (RefreshTokenModel.getByHash as jest.Mock).mockResolvedValue(refreshToken());
+      (RefreshTokenModel.markUsed as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      const tokens = await sessionService.refreshSession('presented-token');
+
+      // Assert
+      expect(RefreshTokenModel.getByHash).toHaveBeenCalledWith(refreshToken().tokenHash);
+      expect(RefreshTokenModel.markUsed).toHaveBeenCalledWith('refresh123');
+      expect(tokens.refreshToken).not.toBe('presented-token');
+      const [sessionId, newHash, expiresAt] = (RefreshTokenModel.create as jest.Mock).mock.calls[0];
+      expect(sessionId).toBe('session123');
+      expect(newHash).toBe(createHash('sha256').update(tokens.refreshToken).digest('hex'));
+      expect(SessionModel.renew).toHaveBeenCalledWith('session123', expiresAt);
+      expect(SessionModel.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when a rotated token comes back', async () => {
+      // Arrange
+      (RefreshTokenModel.getByHash as jest.Mock).mockResolvedValue(refreshToken({ usedAt: new Date() }));
+
+      // Act & Assert
+      await expect(sessionService.refreshSession('presented-token')).rejects.toThrow('Refresh token reused');
+      expect(SessionModel.revoke).toHaveBeenCalledWith('session123', 'user123');
+      expect(RefreshTokenModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when another request rotated the token first', async () => {
+      // Arrange
+      (RefreshTokenModel.getByHash as jest.Mock).mockResolvedValue(refreshToken());
+      (RefreshTokenModel.markUsed as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(sessionService.refreshSession('presented-token')).rejects.toThrow('Refresh token reused');
+      expect(SessionModel.revoke).toHaveBeenCalledWith('session123', 'user123');
+    });
+
+    it('should reject a token of a revoked session', async () => {
+      // Arrange
+      (RefreshTokenModel.getByHash as jest.Mock).mockResolvedValue(refreshToken());
+      (SessionModel.getById as jest.Mock).mockResolvedValue(session({ revokedAt: new Date() }));
+
+      // Act & Assert
+      await expect(sessionService.refreshSession('presented-token')).rejects.toThrow('Invalid refresh token');
+      expect(RefreshTokenModel.markUsed).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown token', async () => {
+      // Arrange
+      (RefreshTokenModel.getByHash as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(sessionService.refreshSession('presented-token')).rejects.toThrow('Invalid refresh token');
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should flag the session making the request', async () => {
+      // Arrange
+      (SessionModel.getActiveByUserId as jest.Mock).mockResolvedValue([
+        session(),
+        session({ id: 'session456', deviceName: 'Safari on iOS' }),
+      ]);
+
+      // Act
+      const sessions = await sessionService.listSessions('user123', 'session456');
+
+      // Assert
+      expect(sessions).toEqual([
+        {
+          id: 'session123',
+          deviceName: 'Firefox on Linux',
+          ipAddress: '127.0.0.1',
+          createdAt: '2023-12-10T10:00:00.000Z',
+          lastSeenAt: '2023-12-10T11:00:00.000Z',
+          current: false,
+        },
+        expect.objectContaining({ id: 'session456', deviceName: 'Safari on iOS', current: true }),
+      ]);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should only revoke sessions of the requesting user', async () => {
+      // Arrange
+      (SessionModel.revoke as jest.Mock).mockResolvedValue(false);
+
+      // Act
+      const revoked = await sessionService.revokeSession('user123', 'session789');
+
+      // Assert
+      expect(revoked).toBe(false);
+      expect(SessionModel.revoke).toHaveBeenCalledWith('session789', 'user123');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { unlinkSync } from 'fs';
+import knex, { Knex } from 'knex';
+import { TakeoutService, verifyTakeout } from '../takeout.service';
+import { closeDatabase } from '../../models';
+import { config } from '../../config';
+
+// Export from a migrated SQLite file, so the archive is built from real rows
+jest.mock('../../config', () => {
+  const { config } = jest.requireActual('../../config');
+  const { join } = jest.requireActual('path');
+  const { tmpdir } = jest.requireActual('os');
+
+  return {
+    config: {
+      ...config,
+      dbConfig: {
+        ...config.dbConfig,
+        connection: { filename: join(tmpdir(), `falconpass-takeout-${process.pid}.db`) },
+      },
+    },
+  };
+});
+
+// The export event has tests of its own; recording it would write a Date from the test's realm,
+// which the SQLite driver does not recognise
+jest.mock('../audit.service');
+
+const databaseFile = (config.dbConfig.connection as { filename: string }).filename;
+const context = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0' };
+
+describe('TakeoutService with a database', () => {
+  let database: Knex;
+
+  beforeAll(async () => {
+    database = knex(config.dbConfig);
+    await database.migrate.latest();
+
+    // Rows as the app leaves them: column defaults are text, timestamps it writes are milliseconds
+    const now = Date.now();
+    await database('users').insert({
+      id: 'user123',
+      email: 'test@example.com',
+      username: 'testuser',
+      client_salt: 'salt123',
+      verifier: 'abcdef',
+      wrapped_vault_key: 'wrapped123',
+    });
+    await database('webauthn_credentials').insert({
+      id: 'credential123',
+      user_id: 'user123',
+      credential_id: 'cred123',
+      public_key: 'publickey123',
+      credential_device_type: 'multiDevice',
+      credential_backed_up: true,
+    });
+    await database('sessions').insert({
+      id: 'session123',
+      user_id: 'user123',
+      device_name: 'Firefox on Linux',
+      ip_address: context.ipAddress,
+      user_agent: context.userAgent,
+      created_at: now,
+      last_seen_at: now,
+      expires_at: now + 3600 * 1000,
+    });
+    await database('audit_events').insert({
+      id: 'event123',
+      user_id: 'user123',
+      type: 'login',
+      details: JSON.stringify({ method: 'password' }),
+      created_at: now,
+    });
+    await database('vault_entries').insert({
+      id: 'entry123',
+      user_id: 'user123',
+      encrypted_data: 'ciphertext',
+      created_at: now,
+      updated_at: now,
+    });
+  });
+
+  afterAll(async () => {
+    await database.destroy();
+    await closeDatabase();
+    unlinkSync(databaseFile);
+  });
+
+  it('should export and sign the stored account data', async () => {
+    // Act
+    const signed = await new TakeoutService().exportAccount('user123', context);
+
+    // Assert
+    const { takeout } = signed;
+    expect(takeout.profile).toMatchObject({ id: 'user123', email: 'test@example.com' });
+    expect(takeout.webauthnCredentials).toEqual([expect.objectContaining({ credentialId: 'cred123' })]);
+    expect(takeout.sessions).toEqual([expect.objectContaining({ id: 'session123', revokedAt: null })]);
+    expect(takeout.auditEvents).toEqual([expect.objectContaining({ id: 'event123', details: { method: 'password' } })]);
+    expect(takeout.vault).toEqual([expect.objectContaining({ id: 'entry123', encryptedData: 'ciphertext' })]);
+    expect(takeout.profile.createdAt).toEqual(expect.any(String));
+    expect(takeout.webauthnCredentials[0].createdAt).toEqual(expect.any(String));
+    expect(takeout.vault[0].updatedAt).toBe(new Date(takeout.sessions[0].createdAt).toISOString());
+    expect(verifyTakeout(signed)).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { TakeoutService, verifyTakeout } from '../takeout.service';
+import {
+  UserModel,
+  WebAuthnCredentialModel,
+  SessionModel,
+  AuditEventModel,
+  VaultEntryModel,
+} from '../../models';
+import { signDocument } from '../../utils';
+import { config } from '../../config';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  UserModel: {
+    getDTOById: jest.fn(),
+  },
+  WebAuthnCredentialModel: {
+    getDTOsByUserId: jest.fn(),
+  },
+  SessionModel: {
+    getByUserId: jest.fn(),
+  },
+  AuditEventModel: {
+    create: jest.fn(),
+    getAllByUserId: jest.fn(),
+  },
+  VaultEntryModel: {
+    getDTOsByUserId: jest.fn(),
+  },
+}));
+
+const context = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0' };
+const createdAt = new Date('2023-12-14T10:00:00Z');
+
+describe('TakeoutService', () => {
+  let takeoutService: TakeoutService;
+
+  beforeEach(() => {
+    takeoutService = new TakeoutService();
+    jest.clearAllMocks();
+    (UserModel.getDTOById as jest.Mock).mockResolvedValue({
+      id: 'user123',
+      email: 'test@example.com',
+      username: 'testuser',
+    });
+    (WebAuthnCredentialModel.getDTOsByUserId as jest.Mock).mockResolvedValue([
+      { id: 'cred123', credentialId: 'abc', credentialDeviceType: 'multiDevice' },
+    ]);
+    (SessionModel.getByUserId as jest.Mock).mockResolvedValue([
+      {
+        id: 'session123',
+        userId: 'user123',
+        deviceName: 'Firefox on Linux',
+        ipAddress: '127.0.0.1',
+        userAgent: context.userAgent,
+        createdAt,
+        lastSeenAt: createdAt,
+        expiresAt: createdAt,
+        revokedAt: createdAt,
+      },
+    ]);
+    (AuditEventModel.getAllByUserId as jest.Mock).mockResolvedValue([
+      {
+        id: 'event123',
+        userId: 'user123',
+        type: 'login',
+        ipAddress: '127.0.0.1',
+        userAgent: context.userAgent,
+        details: { method: 'password' },
+        createdAt,
+      },
+    ]);
+    (VaultEntryModel.getDTOsByUserId as jest.Mock).mockResolvedValue([
+      { id: 'entry123', encryptedData: 'ciphertext', itemType: 'login', revision: 1 },
+    ]);
+  });
+
+  describe('exportAccount', () => {
+    it('should gather the account data and sign it', async () => {
+      // Act
+      const signed = await takeoutService.exportAccount('user123', context);
+
+      // Assert
+      expect(signed.takeout).toEqual({
+        takeoutId: expect.any(String),
+        exportedAt: expect.any(String),
+        profile: { id: 'user123', email: 'test@example.com', username: 'testuser' },
+        webauthnCredentials: [{ id: 'cred123', credentialId: 'abc', credentialDeviceType: 'multiDevice' }],
+        sessions: [
+          {
+            id: 'session123',
+            deviceName: 'Firefox on Linux',
+            ipAddress: '127.0.0.1',
+            userAgent: context.userAgent,
+            createdAt: createdAt.toISOString(),
+            lastSeenAt: createdAt.toISOString(),
+            expiresAt: createdAt.toISOString(),
+            revokedAt: createdAt.toISOString(),
+          },
+        ],
+        auditEvents: [
+          {
+            id: 'event123',
+            type: 'login',
+            ipAddress: '127.0.0.1',
+            userAgent: context.userAgent,
+            details: { method: 'password' },
+            createdAt: createdAt.toISOString(),
+          },
+        ],
+        vault: [{ id: 'entry123', encryptedData: 'ciphertext', itemType: 'login', revision: 1 }],
+      });
+      expect(verifyTakeout(signed)).toBe(true);
+    });
+
+    it('should record the export before gathering the log', async () => {
+      // Act
+      await takeoutService.exportAccount('user123', context);
+
+      // Assert
+      expect(AuditEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user123', type: 'account_exported', ipAddress: '127.0.0.1' })
+      );
+      expect((AuditEventModel.create as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        (AuditEventModel.getAllByUserId as jest.Mock).mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should fail for an unknown user', async () => {
+      // Arrange
+      (UserModel.getDTOById as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(takeoutService.exportAccount('user456', context)).rejects.toThrow('User not found');
+      expect(AuditEventModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyTakeout', () => {
+    it('should reject an archive that was altered', async () => {
+      // Arrange
+      const signed = await takeoutService.exportAccount('user123', context);
+
+      // Act & Assert
+      expect(verifyTakeout({ ...signed, takeout: { ...signed.takeout, vault: [] } })).toBe(false);
+      expect(verifyTakeout({ ...signed, signature: 'forged' })).toBe(false);
+    });
+
+    it('should not accept a deletion receipt signature', async () => {
+      // Arrange
+      const signed = await takeoutService.exportAccount('user123', context);
+
+      // Act & Assert
+      expect(
+        verifyTakeout({ ...signed, signature: signDocument(signed.takeout, config.secretEncryptionKey, 'deletion-receipt') })
+      ).toBe(false);
+    });
+  });
+});
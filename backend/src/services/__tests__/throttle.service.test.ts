@@ -0,0 +1,170 @@
+import { ThrottleService } from '../throttle.service';
+import { LoginThrottleModel, UserModel, AuditEventModel } from '../../models';
+import { config } from '../../config';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  LoginThrottleModel: {
+    getByKeys: jest.fn(),
+    recordFailure: jest.fn(),
+    lock: jest.fn(),
+    delete: jest.fn(),
+  },
+  UserModel: {
+    getByEmail: jest.fn(),
+    getById: jest.fn(),
+    recordLockout: jest.fn(),
+  },
+  AuditEventModel: {
+    create: jest.fn(),
+  },
+}));
+
+const throttle = (overrides: Record<string, unknown> = {}) => ({
+  key: 'login:test@example.com',
+  failures: 0,
+  lockouts: 0,
+  lastFailureAt: new Date(),
+  lockedUntil: null,
+  ...overrides,
+});
+
+describe('ThrottleService', () => {
+  let throttleService: ThrottleService;
+
+  beforeEach(() => {
+    throttleService = new ThrottleService();
+    jest.clearAllMocks();
+  });
+
+  describe('getRetryAfter', () => {
+    it('should allow the first few failures without waiting', async () => {
+      // Arrange
+      (LoginThrottleModel.getByKeys as jest.Mock).mockResolvedValue([throttle({ failures: 3 })]);
+
+      // Act
+      const retryAfter = await throttleService.getRetryAfter({ email: 'Test@Example.com' }, '127.0.0.1');
+
+      // Assert
+      expect(retryAfter).toBe(0);
+      expect(LoginThrottleModel.getByKeys).toHaveBeenCalledWith(['login:test@example.com', 'ip:127.0.0.1']);
+    });
+
+    it('should double the wait with every further failure', async () => {
+      // Arrange
+      (LoginThrottleModel.getByKeys as jest.Mock)
+        .mockResolvedValueOnce([throttle({ failures: 4 })])
+        .mockResolvedValueOnce([throttle({ failures: 7 })]);
+
+      // Act & Assert
+      expect(await throttleService.getRetryAfter({ email: 'test@example.com' }, null)).toBe(1);
+      expect(await throttleService.getRetryAfter({ email: 'test@example.com' }, null)).toBe(8);
+    });
+
+    it('should make a locked account wait for the lock to end', async () => {
+      // Arrange
+      (LoginThrottleModel.getByKeys as jest.Mock).mockResolvedValue([
+        throttle({ key: '2fa:user123', lockedUntil: new Date(Date.now() + 600 * 1000) }),
+      ]);
+
+      // Act
+      const retryAfter = await throttleService.getRetryAfter({ userId: 'user123' }, null);
+
+      // Assert
+      expect(retryAfter).toBe(600);
+      expect(LoginThrottleModel.getByKeys).toHaveBeenCalledWith(['2fa:user123']);
+    });
+
+    it('should not hold old failures against a new attempt', async () => {
+      // Arrange
+      (LoginThrottleModel.getByKeys as jest.Mock).mockResolvedValue([
+        throttle({ failures: 9, lastFailureAt: new Date(Date.now() - config.loginLockoutDuration * 1000 - 1) }),
+      ]);
+
+      // Act & Assert
+      expect(await throttleService.getRetryAfter({ email: 'test@example.com' }, null)).toBe(0);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should count the failure against the account and the address', async () => {
+      // Arrange
+      (LoginThrottleModel.recordFailure as jest.Mock).mockResolvedValue(throttle({ failures: 1 }));
+
+      // Act
+      const locked = await throttleService.recordFailure({ email: 'test@example.com' }, '127.0.0.1');
+
+      // Assert
+      expect(locked).toEqual([]);
+      expect(LoginThrottleModel.recordFailure).toHaveBeenCalledWith('login:test@example.com', expect.any(Date), expect.any(Date));
+      expect(LoginThrottleModel.recordFailure).toHaveBeenCalledWith('ip:127.0.0.1', expect.any(Date), expect.any(Date));
+      expect(LoginThrottleModel.lock).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account at the threshold and tell its owner', async () => {
+      // Arrange
+      (LoginThrottleModel.recordFailure as jest.Mock).mockResolvedValue(
+        throttle({ failures: config.loginLockoutThreshold })
+      );
+      (UserModel.getByEmail as jest.Mock).mockResolvedValue({ id: 'user123' });
+      const before = Date.now();
+
+      // Act
+      const locked = await throttleService.recordFailure({ email: 'test@example.com' }, null);
+
+      // Assert
+      expect(locked).toEqual(['login:test@example.com']);
+      const [key, lockedUntil] = (LoginThrottleModel.lock as jest.Mock).mock.calls[0];
+      expect(key).toBe('login:test@example.com');
+      expect(lockedUntil.getTime()).toBeGreaterThanOrEqual(before + config.loginLockoutDuration * 1000);
+      expect(UserModel.recordLockout).toHaveBeenCalledWith('user123');
+      expect(AuditEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user123',
+          type: 'account_locked',
+          details: { step: 'password', until: lockedUntil.toISOString() },
+        })
+      );
+    });
+
+    it('should lock for twice as long after each repeated lockout', async () => {
+      // Arrange
+      (LoginThrottleModel.recordFailure as jest.Mock).mockResolvedValue(
+        throttle({ key: '2fa:user123', failures: config.loginLockoutThreshold, lockouts: 2 })
+      );
+      (UserModel.getById as jest.Mock).mockResolvedValue({ id: 'user123' });
+      const before = Date.now();
+
+      // Act
+      await throttleService.recordFailure({ userId: 'user123' }, null);
+
+      // Assert
+      const [, lockedUntil] = (LoginThrottleModel.lock as jest.Mock).mock.calls[0];
+      expect(lockedUntil.getTime() - before).toBeGreaterThanOrEqual(config.loginLockoutDuration * 4 * 1000);
+      expect(lockedUntil.getTime() - before).toBeLessThan(config.loginLockoutDuration * 4 * 1000 + 1000);
+    });
+
+    it('should allow an address more failures than one account', async () => {
+      // Arrange
+      (LoginThrottleModel.recordFailure as jest.Mock).mockImplementation(async (key: string) =>
+        throttle({ key, failures: config.loginLockoutThreshold - 1 + (key.startsWith('ip:') ? 1 : 0) })
+      );
+
+      // Act
+      const locked = await throttleService.recordFailure({ email: 'test@example.com' }, '127.0.0.1');
+
+      // Assert
+      expect(locked).toEqual([]);
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should forget the failures of the account', async () => {
+      // Act
+      await throttleService.recordSuccess({ userId: 'user123' });
+
+      // Assert
+      expect(LoginThrottleModel.delete).toHaveBeenCalledWith('2fa:user123');
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { TotpService } from '../totp.service';
+import { UserModel, TotpCredentialModel, RecoveryCodeModel } from '../../models';
+import { config } from '../../config';
+import { encryptSecret } from '../../utils';
+import { base32Encode, generateHotp, totpStep, verifyTotp } from '../../utils/totp';
+
+// Mock the models
+jest.mock('../../models', () => ({
+  UserModel: {
+    getById: jest.fn(),
+  },
+  TotpCredentialModel: {
+    getByUserId: jest.fn(),
+    savePending: jest.fn(),
+    enable: jest.fn(),
+    recordStep: jest.fn(),
+    delete: jest.fn(),
+  },
+  RecoveryCodeModel: {
+    exists: jest.fn(),
+    replaceAll: jest.fn(),
+  },
+  SessionModel: {
+    create: jest.fn(),
+    getById: jest.fn(),
+    deleteExpired: jest.fn(),
+    revokeAll: jest.fn(),
+  },
+  RefreshTokenModel: {
+    create: jest.fn(),
+  },
+  AuditEventModel: {
+    create: jest.fn(),
+  },
+}));
+
+// Mock jwt
+jest.mock('jsonwebtoken', () => ({
+  sign: jest.fn().mockReturnValue('mock-jwt-token'),
+}));
+
+// Where the test logins come from
+const context = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0' };
+
+
+// RFC 6238 Appendix B test secret
+const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+const credential = (overrides: Record<string, unknown> = {}) => ({
+  userId: 'user123',
+  encryptedSecret: encryptSecret(secret, config.secretEncryptionKey, 'totp'),
+  enabled: true,
+  lastStep: null,
+  ...overrides,
+});
+
+describe('TOTP primitives', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    // Appendix B lists 8-digit codes; the last 6 digits are the 6-digit code
+    expect(generateHotp(secret, totpStep(59 * 1000))).toBe('287082');
+    expect(generateHotp(secret, totpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateHotp(secret, totpStep(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('should accept a code from an adjacent step but not further away', () => {
+    const now = 1111111109 * 1000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(secret, generateHotp(secret, step - 1), null, now)).toBe(step - 1);
+    expect(verifyTotp(secret, generateHotp(secret, step + 1), null, now)).toBe(step + 1);
+    expect(verifyTotp(secret, generateHotp(secret, step - 2), null, now)).toBeNull();
+  });
+
+  it('should reject a code whose step was already used', () => {
+    const now = 1111111109 * 1000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(secret, generateHotp(secret, step), step, now)).toBeNull();
+    expect(verifyTotp(secret, generateHotp(secret, step), step - 1, now)).toBe(step);
+  });
+});
+
+describe('TotpService', () => {
+  let totpService: TotpService;
+
+  beforeEach(() => {
+    totpService = new TotpService();
+    jest.clearAllMocks();
+    (UserModel.getById as jest.Mock).mockResolvedValue({
+      id: 'user123',
+      email: 'totp@example.com',
+      username: 'totpuser',
+      tokenVersion: 0,
+    });
+    (TotpCredentialModel.recordStep as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('beginEnrollment', () => {
+    it('should store the secret encrypted and return the otpauth URI', async () => {
+      // Arrange
+      (TotpCredentialModel.savePending as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      const result = await totpService.beginEnrollment('user123');
+
+      // Assert
+      const stored = (TotpCredentialModel.savePending as jest.Mock).mock.calls[0][1];
+      expect(stored).not.toContain(result.secret);
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+      expect(result.otpauthUri.startsWith('otpauth://totp/')).toBe(true);
+    });
+
+    it('should refuse to replace an enabled secret', async () => {
+      // Arrange
+      (TotpCredentialModel.savePending as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(totpService.beginEnrollment('user123')).rejects.toThrow('TOTP already enabled');
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable TOTP after a valid code and issue the first recovery codes', async () => {
+      // Arrange
+      (TotpCredentialModel.getByUserId as jest.Mock).mockResolvedValue(credential({ enabled: false }));
+      (RecoveryCodeModel.exists as jest.Mock).mockResolvedValue(false);
+
+      // Act
+      const result = await totpService.confirmEnrollment('user123', generateHotp(secret, totpStep()), context);
+
+      // Assert
+      expect(result.verified).toBe(true);
+      expect(result.recoveryCodes).toHaveLength(10);
+      expect(TotpCredentialModel.enable).toHaveBeenCalledWith('user123');
+    });
+
+    it('should keep existing recovery codes', async () => {
+      // Arrange
+      (TotpCredentialModel.getByUserId as jest.Mock).mockResolvedValue(credential({ enabled: false }));
+      (RecoveryCodeModel.exists as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      const result = await totpService.confirmEnrollment('user123', generateHotp(secret, totpStep()), context);
+
+      // Assert
+      expect(result).toEqual({ verified: true, recoveryCodes: undefined });
+      expect(RecoveryCodeModel.replaceAll).not.toHaveBeenCalled();
+    });
+
+    it('should not enable TOTP after an invalid code', async () => {
+      // Arrange
+      (TotpCredentialModel.getByUserId as jest.Mock).mockResolvedValue(credential({ enabled: false }));
+      const wrong = generateHotp(secret, totpStep() + 5);
+
+      // Act & Assert
+      await expect(totpService.confirmEnrollment('user123', wrong, context)).rejects.toThrow('Invalid code');
+      expect(TotpCredentialModel.enable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyLogin', () => {
+    it('should issue a full token for a valid code', async () => {
+      // Arrange
+      (TotpCredentialModel.getByUserId as jest.Mock).mockResolvedValue(credential());
+      const step = totpStep();
+
+      // Act
+      const result = await totpService.verifyLogin('user123', generateHotp(secret, step), context);
+
+      // Assert
+      expect(result).toEqual({ userId: 'user123', username: 'totpuser', token: 'mock-jwt-token', refreshToken: expect.any(String) });
+      expect(TotpCredentialModel.recordStep).toHaveBeenCalledWith('user123', step);
+    });
+
+    it('should reject a code that a concurrent request already used', async () => {
+      // Arrange
+      (TotpCredentialModel.getByUserId as jest.Mock).mockResolvedValue(credential());
+      (TotpCredentialModel.recordStep as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        totpService.verifyLogin('user123', generateHotp(secret, totpStep()), context)
+      ).rejects.toThrow('Invalid code');
+    });
+
+    it('should reject a login when TOTP was never confirmed', async () => {
+      // Arrange
+      (TotpCredentialModel.getByUserId as jest.Mock).mockResolvedValue(credential({ enabled: false }));
+
+      // Act & Assert
+      await expect(
+        totpService.verifyLogin('user123', generateHotp(secret, totpStep()), context)
+      ).rejects.toThrow('TOTP not enabled');
+    });
+  });
+});
@@ -1,5 +1,20 @@
+import { randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
 import { UserService } from '../user.service';
-import { UserModel } from '../../models';
+import { UserModel, SessionModel, AuditEventModel } from '../../models';
+import { config } from '../../config';
+import {
+  SRP_N,
+  SRP_G,
+  SRP_K,
+  hash,
+  modPow,
+  toHex,
+  fromHex,
+  computeClientProof,
+  computeServerProof,
+} from '../../utils/srp';
+import * as srp from '../../utils/srp';
 
 // Mock the models
 jest.mock('../../models', () => ({
@@ -8,6 +23,22 @@ jest.mock('../../models', () => ({
     create: jest.fn(),
     getById: jest.fn(),
     getDTOById: jest.fn(),
+    hasWebAuthn: jest.fn(),
+    hasTotp: jest.fn(),
+    countRecoveryCodes: jest.fn(),
+    updateCredentials: jest.fn(),
+  },
+  SessionModel: {
+    create: jest.fn(),
+    getById: jest.fn(),
+    deleteExpired: jest.fn(),
+    revokeAll: jest.fn(),
+  },
+  RefreshTokenModel: {
+    create: jest.fn(),
+  },
+  AuditEventModel: {
+    create: jest.fn(),
   },
 }));
 
@@ -16,6 +47,34 @@ jest.mock('jsonwebtoken', () => ({
   sign: jest.fn().mockReturnValue('mock-jwt-token'),
 }));
 
+// Where the test logins come from
+const context = { ipAddress: '127.0.0.1', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0' };
+
+
+// Client-side half of SRP-6a, mirroring frontend/src/crypto/srp.ts
+const email = 'srp@example.com';
+const salt = 'c2FsdDEyMw==';
+const authSecret = 'correct horse battery staple';
+
+const privateKey = (secret: string) => hash(salt, Buffer.from(toHex(hash(`${email}:${secret}`), 32), 'hex'));
+const verifier = toHex(modPow(SRP_G, privateKey(authSecret), SRP_N));
+
+const clientSession = (secret: string, challenge: { challengeId: string; serverEphemeral: string }) => {
+  const a = fromHex(randomBytes(32).toString('hex'));
+  const A = modPow(SRP_G, a, SRP_N);
+  const B = fromHex(challenge.serverEphemeral);
+  const x = privateKey(secret);
+  const u = hash(A, B);
+  const S = modPow((B - ((SRP_K * modPow(SRP_G, x, SRP_N)) % SRP_N) + SRP_N) % SRP_N, a + u * x, SRP_N);
+  const K = hash(S);
+  const M1 = computeClientProof(email, salt, A, B, K);
+
+  return {
+    authResponse: { challengeId: challenge.challengeId, clientEphemeral: toHex(A), clientProof: toHex(M1, 32) },
+    expectedServerProof: toHex(computeServerProof(A, M1, K), 32),
+  };
+};
+
 describe('UserService', () => {
   let userService: UserService;
 
@@ -32,6 +91,8 @@ describe('UserService', () => {
         username: 'testuser',
         clientSalt: 'salt123',
         verifier: 'verifier123',
+        wrappedVaultKey: 'wrapped123',
+        kdf: config.kdfPolicy,
       };
       
       // Mock UserModel.getByEmail to return null (user doesn't exist)
@@ -56,6 +117,8 @@ describe('UserService', () => {
         username: 'existinguser',
         clientSalt: 'salt123',
         verifier: 'verifier123',
+        wrappedVaultKey: 'wrapped123',
+        kdf: config.kdfPolicy,
       };
       
       // Mock UserModel.getByEmail to return a user (user exists)
@@ -69,6 +132,22 @@ describe('UserService', () => {
       expect(UserModel.getByEmail).toHaveBeenCalledWith(userData.email);
       expect(UserModel.create).not.toHaveBeenCalled();
     });
+
+    it('should reject KDF parameters weaker than the policy', async () => {
+      // Arrange
+      const userData = {
+        email: 'weak@example.com',
+        username: 'weakuser',
+        clientSalt: 'salt123',
+        verifier: 'verifier123',
+        wrappedVaultKey: 'wrapped123',
+        kdf: { ...config.kdfPolicy, memory: config.kdfPolicy.memory / 2 },
+      };
+
+      // Act & Assert
+      await expect(userService.registerUser(userData)).rejects.toThrow('KDF parameters below policy');
+      expect(UserModel.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('getLoginChallenge', () => {
@@ -79,6 +158,8 @@ describe('UserService', () => {
         id: 'user123',
         email,
         clientSalt: 'salt123',
+        verifier: 'abc123',
+        kdf: { algorithm: 'argon2id', iterations: 2, memory: 32768, parallelism: 1 },
       };
       
       // Mock UserModel.getByEmail to return a user
@@ -91,20 +172,371 @@ describe('UserService', () => {
       expect(UserModel.getByEmail).toHaveBeenCalledWith(email);
       expect(challenge).toHaveProperty('serverEphemeral');
       expect(challenge).toHaveProperty('salt', mockUser.clientSalt);
+      expect(challenge).toHaveProperty('kdf', mockUser.kdf);
     });
 
-    it('should throw an error if user does not exist', async () => {
+    it('should answer an unknown email with a stable challenge that reveals nothing', async () => {
       // Arrange
       const email = 'nonexistent@example.com';
       
       // Mock UserModel.getByEmail to return null
       (UserModel.getByEmail as jest.Mock).mockResolvedValue(null);
 
+      // Act
+      const first = await userService.getLoginChallenge(email);
+      const second = await userService.getLoginChallenge(email);
+      const other = await userService.getLoginChallenge('someone-else@example.com');
+
+      // Assert
+      expect(first.salt).toBe(second.salt);
+      expect(Buffer.from(first.salt, 'base64')).toHaveLength(16);
+      expect(first.salt).not.toBe(other.salt);
+      expect(first.kdf).toEqual(config.kdfPolicy);
+      expect(first.serverEphemeral).toMatch(/^[0-9a-f]{512}$/);
+      expect(first.challengeId).not.toBe(second.challengeId);
+    });
+  });
+
+  describe('verifyLogin', () => {
+    beforeEach(() => {
+      (UserModel.getByEmail as jest.Mock).mockResolvedValue({
+        id: 'user123',
+        email,
+        username: 'srpuser',
+        clientSalt: salt,
+        verifier,
+        wrappedVaultKey: 'wrapped-vault-key',
+        tokenVersion: 0,
+      });
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(false);
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(false);
+      (UserModel.countRecoveryCodes as jest.Mock).mockResolvedValue(0);
+    });
+
+    it('should accept a valid SRP proof and return the server proof', async () => {
+      // Arrange
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse, expectedServerProof } = clientSession(authSecret, challenge);
+
+      // Act
+      const result = await userService.verifyLogin(email, authResponse, context);
+
+      // Assert
+      expect(result).toEqual({
+        userId: 'user123',
+        username: 'srpuser',
+        token: 'mock-jwt-token',
+        refreshToken: expect.any(String),
+        serverProof: expectedServerProof,
+        wrappedVaultKey: 'wrapped-vault-key',
+      });
+    });
+
+    it('should record a session for the token it issues', async () => {
+      // Arrange
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse } = clientSession(authSecret, challenge);
+
+      // Act
+      await userService.verifyLogin(email, authResponse, context);
+
+      // Assert
+      const session = (SessionModel.create as jest.Mock).mock.calls[0][0];
+      expect(session).toEqual({
+        id: expect.any(String),
+        userId: 'user123',
+        deviceName: 'Firefox on Linux',
+        ipAddress: '127.0.0.1',
+        userAgent: context.userAgent,
+        expiresAt: expect.any(Date),
+      });
+      expect(session.expiresAt.getTime()).toBeGreaterThan(Date.now() + (config.refreshTokenTimeout - 60) * 1000);
+      expect(jwt.sign).toHaveBeenCalledWith(
+        { userId: 'user123', tokenVersion: 0, sessionId: session.id },
+        config.jwtSecret,
+        { expiresIn: config.accessTokenTimeout }
+      );
+    });
+
+    it('should only issue a pending token when a second factor is registered', async () => {
+      // Arrange
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(true);
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse } = clientSession(authSecret, challenge);
+
+      // Act
+      const result = await userService.verifyLogin(email, authResponse, context);
+
+      // Assert
+      expect(result.twoFactorRequired).toBe(true);
+      expect(result.twoFactorMethods).toEqual(['webauthn']);
+      expect(jwt.sign).toHaveBeenCalledWith(
+        { userId: 'user123', tokenVersion: 0, twoFactorPending: true },
+        config.jwtSecret,
+        { expiresIn: config.twoFactorTimeout }
+      );
+      expect(SessionModel.create).not.toHaveBeenCalled();
+      expect(AuditEventModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should offer every registered second factor', async () => {
+      // Arrange
+      (UserModel.hasWebAuthn as jest.Mock).mockResolvedValue(true);
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(true);
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse } = clientSession(authSecret, challenge);
+
+      // Act
+      const result = await userService.verifyLogin(email, authResponse, context);
+
+      // Assert
+      expect(result.twoFactorRequired).toBe(true);
+      expect(result.twoFactorMethods).toEqual(['webauthn', 'totp']);
+    });
+
+    it('should offer recovery codes only alongside a second factor', async () => {
+      // Arrange
+      (UserModel.countRecoveryCodes as jest.Mock).mockResolvedValue(10);
+      let challenge = await userService.getLoginChallenge(email);
+      let { authResponse } = clientSession(authSecret, challenge);
+
+      // Act
+      const withoutFactor = await userService.verifyLogin(email, authResponse, context);
+
+      (UserModel.hasTotp as jest.Mock).mockResolvedValue(true);
+      challenge = await userService.getLoginChallenge(email);
+      ({ authResponse } = clientSession(authSecret, challenge));
+      const withFactor = await userService.verifyLogin(email, authResponse, context);
+
+      // Assert
+      expect(withoutFactor.twoFactorRequired).toBeUndefined();
+      expect(withFactor.twoFactorMethods).toEqual(['totp', 'recovery']);
+    });
+
+    it('should reject a proof computed from the wrong password', async () => {
+      // Arrange
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse } = clientSession('wrong password', challenge);
+
       // Act & Assert
-      await expect(userService.getLoginChallenge(email)).rejects.toThrow('User not found');
-      expect(UserModel.getByEmail).toHaveBeenCalledWith(email);
+      await expect(userService.verifyLogin(email, authResponse, context)).rejects.toThrow('Invalid credentials');
+      expect(AuditEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user123', type: 'login_failed', details: { method: 'password' } })
+      );
+    });
+
+    it('should reject a client ephemeral that is a multiple of N', async () => {
+      // Arrange
+      const { challengeId } = await userService.getLoginChallenge(email);
+
+      // Act & Assert
+      await expect(
+        userService.verifyLogin(
+          email,
+          { challengeId, clientEphemeral: toHex(SRP_N), clientProof: 'a'.repeat(64) },
+          context
+        )
+      ).rejects.toThrow('Invalid credentials');
+    });
+
+    it('should reject an unknown email the same way as a wrong password', async () => {
+      // Arrange
+      (UserModel.getByEmail as jest.Mock).mockResolvedValue(null);
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse } = clientSession(authSecret, challenge);
+
+      // Act & Assert
+      await expect(userService.verifyLogin(email, authResponse, context)).rejects.toThrow('Invalid credentials');
+      await expect(userService.verifyLogin(email, authResponse, context)).rejects.toThrow('No active challenge');
+    });
+
+    it('should check the proof for an unknown email as fully as for a real account', async () => {
+      // Arrange
+      (UserModel.getByEmail as jest.Mock).mockResolvedValue(null);
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse } = clientSession(authSecret, challenge);
+      const verifySpy = jest.spyOn(srp, 'verifySession');
+
+      // Act & Assert
+      try {
+        await expect(userService.verifyLogin(email, authResponse, context)).rejects.toThrow('Invalid credentials');
+        expect(verifySpy).toHaveBeenCalledWith(
+          expect.objectContaining({ identity: email, salt: challenge.salt, clientProof: authResponse.clientProof })
+        );
+      } finally {
+        verifySpy.mockRestore();
+      }
+    });
+
+    it('should not allow a challenge to be answered twice', async () => {
+      // Arrange
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse } = clientSession(authSecret, challenge);
+      await userService.verifyLogin(email, authResponse, context);
+
+      // Act & Assert
+      await expect(userService.verifyLogin(email, authResponse, context)).rejects.toThrow('No active challenge');
+    });
+
+    it('should keep concurrent challenges for the same account apart', async () => {
+      // Arrange
+      const first = await userService.getLoginChallenge(email);
+      const second = await userService.getLoginChallenge(email);
+      const firstSession = clientSession(authSecret, first);
+      const secondSession = clientSession(authSecret, second);
+
+      // Act
+      const firstResult = await userService.verifyLogin(email, firstSession.authResponse, context);
+      const secondResult = await userService.verifyLogin(email, secondSession.authResponse, context);
+
+      // Assert
+      expect(firstResult.serverProof).toBe(firstSession.expectedServerProof);
+      expect(secondResult.serverProof).toBe(secondSession.expectedServerProof);
+    });
+
+    it('should reject an answer to an expired challenge', async () => {
+      // Arrange
+      const challenge = await userService.getLoginChallenge(email);
+      const { authResponse } = clientSession(authSecret, challenge);
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now + (config.challengeTimeout + 1) * 1000);
+
+      // Act & Assert
+      try {
+        await expect(userService.verifyLogin(email, authResponse, context)).rejects.toThrow('No active challenge');
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('changePassword', () => {
+    const newCredentials = {
+      clientSalt: 'bmV3c2FsdA==',
+      verifier: 'abcdef',
+      wrappedVaultKey: 'rewrapped-vault-key',
+      kdf: config.kdfPolicy,
+    };
+
+    beforeEach(() => {
+      (UserModel.getById as jest.Mock).mockResolvedValue({
+        id: 'user123',
+        email,
+        username: 'srpuser',
+        clientSalt: salt,
+        verifier,
+        wrappedVaultKey: 'wrapped-vault-key',
+        tokenVersion: 0,
+      });
+      (SessionModel.getById as jest.Mock).mockResolvedValue({ id: 'session123', userId: 'user123', revokedAt: null });
+    });
+
+    it('should replace the credentials after a valid proof of the current password', async () => {
+      // Arrange
+      (UserModel.updateCredentials as jest.Mock).mockResolvedValue(1);
+      const challenge = await userService.getPasswordChangeChallenge('user123');
+      const { authResponse, expectedServerProof } = clientSession(authSecret, challenge);
+
+      // Act
+      const result = await userService.changePassword('user123', 'session123', { authResponse, ...newCredentials }, context);
+
+      // Assert
+      expect(challenge.wrappedVaultKey).toBe('wrapped-vault-key');
+      expect(UserModel.updateCredentials).toHaveBeenCalledWith('user123', verifier, newCredentials);
+      expect(result).toEqual({ token: 'mock-jwt-token', serverProof: expectedServerProof });
+    });
+
+    it('should sign out every other session and keep the current one', async () => {
+      // Arrange
+      (UserModel.updateCredentials as jest.Mock).mockResolvedValue(1);
+      const challenge = await userService.getPasswordChangeChallenge('user123');
+      const { authResponse } = clientSession(authSecret, challenge);
+
+      // Act
+      await userService.changePassword('user123', 'session123', { authResponse, ...newCredentials }, context);
+
+      // Assert
+      expect(SessionModel.revokeAll).toHaveBeenCalledWith('user123', 'session123');
+      expect(jwt.sign).toHaveBeenCalledWith(
+        { userId: 'user123', tokenVersion: 1, sessionId: 'session123' },
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should not touch the credentials if the current password is wrong', async () => {
+      // Arrange
+      const challenge = await userService.getPasswordChangeChallenge('user123');
+      const { authResponse } = clientSession('wrong password', challenge);
+
+      // Act & Assert
+      await expect(
+        userService.changePassword('user123', 'session123', { authResponse, ...newCredentials }, context)
+      ).rejects.toThrow('Invalid credentials');
+      expect(UserModel.updateCredentials).not.toHaveBeenCalled();
+    });
+
+    it('should fail if the credentials changed concurrently', async () => {
+      // Arrange
+      (UserModel.updateCredentials as jest.Mock).mockResolvedValue(null);
+      const challenge = await userService.getPasswordChangeChallenge('user123');
+      const { authResponse } = clientSession(authSecret, challenge);
+
+      // Act & Assert
+      await expect(
+        userService.changePassword('user123', 'session123', { authResponse, ...newCredentials }, context)
+      ).rejects.toThrow('Invalid credentials');
+    });
+  });
+
+  describe('upgradeKdf', () => {
+    const upgradedCredentials = {
+      clientSalt: 'dXBncmFkZWQ=',
+      verifier: 'fedcba',
+      wrappedVaultKey: 'rewrapped-vault-key',
+      kdf: config.kdfPolicy,
+    };
+
+    beforeEach(() => {
+      (UserModel.getById as jest.Mock).mockResolvedValue({
+        id: 'user123',
+        email,
+        username: 'srpuser',
+        clientSalt: salt,
+        verifier,
+        wrappedVaultKey: 'wrapped-vault-key',
+        kdf: { algorithm: 'argon2id', iterations: 1, memory: 16384, parallelism: 1 },
+        tokenVersion: 0,
+      });
+    });
+
+    it('should replace the credentials without revoking other sessions', async () => {
+      // Arrange
+      (UserModel.updateCredentials as jest.Mock).mockResolvedValue(0);
+      const challenge = await userService.getPasswordChangeChallenge('user123');
+      const { authResponse, expectedServerProof } = clientSession(authSecret, challenge);
+
+      // Act
+      const result = await userService.upgradeKdf('user123', { authResponse, ...upgradedCredentials }, context);
+
+      // Assert
+      expect(UserModel.updateCredentials).toHaveBeenCalledWith('user123', verifier, upgradedCredentials, false);
+      expect(result).toEqual({ serverProof: expectedServerProof });
+    });
+
+    it('should reject parameters that are still below the policy', async () => {
+      // Arrange
+      const challenge = await userService.getPasswordChangeChallenge('user123');
+      const { authResponse } = clientSession(authSecret, challenge);
+      const kdf = { ...config.kdfPolicy, iterations: config.kdfPolicy.iterations - 1 };
+
+      // Act & Assert
+      await expect(
+        userService.upgradeKdf('user123', { authResponse, ...upgradedCredentials, kdf }, context)
+      ).rejects.toThrow('KDF parameters below policy');
+      expect(UserModel.updateCredentials).not.toHaveBeenCalled();
     });
   });
 
-  // Additional tests for verifyLogin, getUserById, and getUserDTOById would follow a similar pattern
+  // Additional tests for getUserById and getUserDTOById would follow a similar pattern
 });
\ No newline at end of file
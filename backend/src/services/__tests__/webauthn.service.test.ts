@@ -213,7 +213,8 @@ describe('WebAuthnService', () => {
       // Execute
       const result = await webAuthnService.verifyAuthentication(
         'mock-challenge',
-        mockAuthenticationResponse
+        mockAuthenticationResponse,
+        { ipAddress: null, userAgent: null }
       );
 
       // Assert
@@ -240,7 +241,8 @@ describe('WebAuthnService', () => {
       // Execute
       const result = await webAuthnService.verifyAuthentication(
         'mock-challenge',
-        mockAuthenticationResponse
+        mockAuthenticationResponse,
+        { ipAddress: null, userAgent: null }
       );
 
       // Assert
@@ -0,0 +1,69 @@
+/**
+ * Audit service for the per-user security event log
+ */
+
+import { AuditEventPage, AuditEventType, SessionContext } from '../types';
+import { AuditEventModel } from '../models';
+import { describeDevice } from '../utils';
+
+export const AUDIT_EVENT_TYPES: [AuditEventType, ...AuditEventType[]] = [
+  'login',
+  'login_failed',
+  'account_locked',
+  'password_changed',
+  'kdf_upgraded',
+  'webauthn_added',
+  'webauthn_removed',
+  'totp_enabled',
+  'totp_disabled',
+  'recovery_codes_regenerated',
+  'vault_exported',
+  'vault_imported',
+  'account_deletion_scheduled',
+  'account_restored',
+  'account_exported',
+];
+
+export class AuditService {
+  /**
+   * Record an event in the user's log
+   * @param context Where the request came from, if it came from the user at all
+   * @param details Extra facts worth showing the user; never secrets
+   */
+  async record(
+    userId: string,
+    type: AuditEventType,
+    context: SessionContext | null,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    await AuditEventModel.create({
+      userId,
+      type,
+      ipAddress: context?.ipAddress ?? null,
+      userAgent: context?.userAgent ?? null,
+      details,
+    });
+  }
+
+  /**
+   * List one page of a user's events, newest first
+   * @param types Only events of these types; all if empty
+   */
+  async listEvents(userId: string, page: number, pageSize: number, types: AuditEventType[] = []): Promise<AuditEventPage> {
+    const { events, total } = await AuditEventModel.getByUserId(userId, types, (page - 1) * pageSize, pageSize);
+
+    return {
+      events: events.map(event => ({
+        id: event.id,
+        type: event.type,
+        ipAddress: event.ipAddress,
+        deviceName: describeDevice(event.userAgent),
+        details: event.details,
+        createdAt: event.createdAt.toISOString(),
+      })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Challenge stores for pending authentication challenges
+ *
+ * Every challenge expires on its own and can be consumed exactly once. Keys
+ * should include something only the legitimate answer carries (a challenge ID
+ * or the challenge itself), so concurrent logins never overwrite each other.
+ */
+
+import { config } from '../config';
+import { ChallengeModel } from '../models';
+
+export interface ChallengeStore {
+  /**
+   * Store a challenge, replacing any with the same key
+   * @param key Key the answer will be looked up by
+   * @param value Data needed to check the answer
+   * @param ttlSeconds Seconds until the challenge expires
+   */
+  put(key: string, value: string, ttlSeconds?: number): Promise<void>;
+
+  /**
+   * Take a challenge out of the store
+   * @returns The value, or null if there was none or it has expired
+   */
+  consume(key: string): Promise<string | null>;
+}
+
+/**
+ * Challenge store in process memory, for a single backend instance
+ */
+export class MemoryChallengeStore implements ChallengeStore {
+  private challenges: Map<string, { value: string; expiresAt: number }> = new Map();
+
+  async put(key: string, value: string, ttlSeconds: number = config.challengeTimeout): Promise<void> {
+    const now = Date.now();
+
+    // Drop challenges that were never answered
+    for (const [storedKey, challenge] of this.challenges) {
+      if (challenge.expiresAt <= now) {
+        this.challenges.delete(storedKey);
+      }
+    }
+
+    this.challenges.set(key, { value, expiresAt: now + ttlSeconds * 1000 });
+  }
+
+  async consume(key: string): Promise<string | null> {
+    const challenge = this.challenges.get(key);
+    this.challenges.delete(key);
+
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    return challenge.value;
+  }
+}
+
+/**
+ * Challenge store in the database, shared by every backend instance
+ */
+export class SqlChallengeStore implements ChallengeStore {
+  async put(key: string, value: string, ttlSeconds: number = config.challengeTimeout): Promise<void> {
+    // Clean up opportunistically; a failure only leaves expired rows behind
+    await ChallengeModel.deleteExpired().catch(() => 0);
+    await ChallengeModel.put(key, value, new Date(Date.now() + ttlSeconds * 1000));
+  }
+
+  async consume(key: string): Promise<string | null> {
+    return ChallengeModel.consume(key);
+  }
+}
+
+/**
+ * Create the challenge store selected in the configuration
+ */
+export function createChallengeStore(): ChallengeStore {
+  return config.challengeStore === 'sql' ? new SqlChallengeStore() : new MemoryChallengeStore();
+}
+
+// Store shared by every service in this process
+export const challengeStore: ChallengeStore = createChallengeStore();
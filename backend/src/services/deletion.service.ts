@@ -0,0 +1,109 @@
+/**
+ * Deletion service for closing accounts and purging their data
+ *
+ * Deleting takes a fresh proof of the master password and of the second
+ * factor, if the account has one. The user may ask for a grace period, during
+ * which the account is signed out everywhere but its owner can sign in and
+ * restore it; otherwise, and once the period is over, everything is purged.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { AccountDeletionData, DeletionReceipt, SessionContext, SignedDeletionReceipt } from '../types';
+import { UserModel } from '../models';
+import { signDocument, verifyDocumentSignature } from '../utils';
+import { ReauthService } from './reauth.service';
+import { SessionService } from './session.service';
+import { AuditService } from './audit.service';
+
+// Signature purpose of deletion receipts
+const RECEIPT_PURPOSE = 'deletion-receipt';
+
+/**
+ * Check that a deletion receipt was issued by this server and not altered
+ */
+export function verifyDeletionReceipt(signed: SignedDeletionReceipt): boolean {
+  // Rebuild the receipt so its fields are checked in the order they were signed
+  const { receiptId, userId, email, requestedAt, purgeAt } = signed.receipt;
+  const receipt: DeletionReceipt = { receiptId, userId, email, requestedAt, purgeAt };
+
+  return verifyDocumentSignature(receipt, signed.signature, config.secretEncryptionKey, RECEIPT_PURPOSE);
+}
+
+export class DeletionService {
+  private reauthService = new ReauthService();
+  private sessionService = new SessionService();
+  private auditService = new AuditService();
+
+  /**
+   * Delete the account, now or after the grace period
+   * @returns A signed receipt for the user to keep
+   */
+  async deleteAccount(
+    userId: string,
+    data: AccountDeletionData,
+    context: SessionContext
+  ): Promise<SignedDeletionReceipt> {
+    const user = await UserModel.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.deletionDueAt) {
+      throw new Error('Deletion already scheduled');
+    }
+
+    await this.reauthService.confirmIdentity(user.id, data);
+
+    const requestedAt = new Date();
+    const gracePeriod = data.gracePeriod ? config.accountDeletionGracePeriod : 0;
+    const purgeAt = new Date(requestedAt.getTime() + gracePeriod * 1000);
+
+    if (gracePeriod > 0) {
+      await UserModel.scheduleDeletion(user.id, purgeAt);
+      await this.sessionService.revokeAllSessions(user.id);
+      await this.auditService.record(user.id, 'account_deletion_scheduled', context, {
+        purgeAt: purgeAt.toISOString(),
+      });
+    } else {
+      await UserModel.delete(user.id);
+    }
+
+    const receipt: DeletionReceipt = {
+      receiptId: uuidv4(),
+      userId: user.id,
+      email: user.email,
+      requestedAt: requestedAt.toISOString(),
+      purgeAt: purgeAt.toISOString(),
+    };
+
+    return { receipt, signature: signDocument(receipt, config.secretEncryptionKey, RECEIPT_PURPOSE) };
+  }
+
+  /**
+   * Cancel a scheduled deletion during its grace period
+   */
+  async restoreAccount(userId: string, context: SessionContext): Promise<void> {
+    if (!(await UserModel.scheduleDeletion(userId, null))) {
+      throw new Error('No deletion scheduled');
+    }
+
+    await this.auditService.record(userId, 'account_restored', context);
+  }
+
+  /**
+   * Purge every account whose grace period is over
+   * @returns Number of accounts purged
+   */
+  async purgeDueAccounts(): Promise<number> {
+    const userIds = await UserModel.getIdsDueForDeletion(new Date());
+
+    let purged = 0;
+    for (const userId of userIds) {
+      if (await UserModel.delete(userId)) {
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+}
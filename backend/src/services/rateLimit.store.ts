@@ -0,0 +1,128 @@
+/**
+ * Rate limit stores holding a token bucket per client and route group
+ *
+ * A bucket starts full and every request takes a token out of it. Tokens flow
+ * back at a steady rate up to the bucket's capacity, so a client may burst up
+ * to the capacity and then keep going at the refill rate.
+ */
+
+import { config } from '../config';
+import { RateLimitModel } from '../models';
+
+export interface RateLimitPolicy {
+  capacity: number; // Largest burst of requests
+  refillPerSecond: number; // Sustained request rate
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // Seconds until a token is available again; 0 if allowed
+}
+
+export interface RateLimitStore {
+  /**
+   * Take a token from a client's bucket
+   * @param key Client and route group the bucket belongs to
+   * @param policy Size and refill rate of the bucket
+   */
+  take(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
+
+// How often idle buckets are cleared out
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Stored buckets untouched this long are deleted; longer than any policy takes to refill
+const IDLE_BUCKET_SECONDS = 3600;
+
+/**
+ * Refill a bucket for the time since it was last drawn from and take a token
+ * @param tokens Tokens left after the last request, or null for a client not seen before
+ * @param elapsedSeconds Seconds since the last request
+ * @returns Tokens left afterwards, and whether the request may go ahead
+ */
+export function drawToken(
+  tokens: number | null,
+  elapsedSeconds: number,
+  policy: RateLimitPolicy
+): { tokens: number; result: RateLimitResult } {
+  const available = tokens === null
+    ? policy.capacity
+    : Math.min(policy.capacity, tokens + Math.max(0, elapsedSeconds) * policy.refillPerSecond);
+
+  if (available >= 1) {
+    return { tokens: available - 1, result: { allowed: true, retryAfter: 0 } };
+  }
+
+  return {
+    tokens: available,
+    result: { allowed: false, retryAfter: Math.ceil((1 - available) / policy.refillPerSecond) },
+  };
+}
+
+/**
+ * Seconds until a bucket has refilled completely, after which it can be forgotten
+ */
+function secondsToFull(tokens: number, policy: RateLimitPolicy): number {
+  return (policy.capacity - tokens) / policy.refillPerSecond;
+}
+
+/**
+ * Rate limit store in process memory, for a single backend instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, { tokens: number; updatedAt: number; fullAt: number }> = new Map();
+  private lastSweep = 0;
+
+  async take(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+
+    // A full bucket is the same as none, so drop those now and then
+    if (now - this.lastSweep >= SWEEP_INTERVAL_MS) {
+      this.lastSweep = now;
+      for (const [storedKey, bucket] of this.buckets) {
+        if (bucket.fullAt <= now) {
+          this.buckets.delete(storedKey);
+        }
+      }
+    }
+
+    const bucket = this.buckets.get(key);
+    const { tokens, result } = drawToken(
+      bucket ? bucket.tokens : null,
+      bucket ? (now - bucket.updatedAt) / 1000 : 0,
+      policy
+    );
+
+    this.buckets.set(key, { tokens, updatedAt: now, fullAt: now + secondsToFull(tokens, policy) * 1000 });
+
+    return result;
+  }
+}
+
+/**
+ * Rate limit store in the database, shared by every backend instance
+ */
+export class SqlRateLimitStore implements RateLimitStore {
+  private lastSweep = 0;
+
+  async take(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+
+    // Clean up opportunistically; a failure only leaves idle rows behind
+    if (now - this.lastSweep >= SWEEP_INTERVAL_MS) {
+      this.lastSweep = now;
+      await RateLimitModel.deleteIdle(new Date(now - IDLE_BUCKET_SECONDS * 1000)).catch(() => 0);
+    }
+
+    return RateLimitModel.update(key, bucket =>
+      drawToken(bucket ? bucket.tokens : null, bucket ? (now - bucket.updatedAt.getTime()) / 1000 : 0, policy)
+    );
+  }
+}
+
+/**
+ * Create the rate limit store selected in the configuration
+ */
+export function createRateLimitStore(): RateLimitStore {
+  return config.rateLimitStore === 'sql' ? new SqlRateLimitStore() : new MemoryRateLimitStore();
+}
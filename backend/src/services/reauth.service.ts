@@ -0,0 +1,65 @@
+/**
+ * Reauthentication service for confirming sensitive actions
+ *
+ * A session alone does not allow actions that could lock its owner out, such
+ * as deleting the account or replacing the recovery codes. The master password
+ * has to be proven afresh, and so does the second factor if the account has one.
+ */
+
+import { Reauthentication, SecondFactorProof } from '../types';
+import { UserModel } from '../models';
+import { UserService } from './user.service';
+import { TotpService } from './totp.service';
+import { RecoveryService } from './recovery.service';
+import { WebAuthnService } from './webauthn.service';
+
+export class ReauthService {
+  private userService = new UserService();
+  private totpService = new TotpService();
+  private recoveryService = new RecoveryService();
+  private webAuthnService = new WebAuthnService();
+
+  /**
+   * Check the master password proof and the second factor
+   * @throws If either is missing or wrong
+   */
+  async confirmIdentity(userId: string, proof: Reauthentication): Promise<void> {
+    await this.userService.confirmPassword(userId, proof.authResponse);
+    await this.confirmSecondFactor(userId, proof.secondFactor);
+  }
+
+  /**
+   * Check the second factor of an account that has one
+   * Recovery codes are accepted too, like at login, and are used up.
+   */
+  private async confirmSecondFactor(userId: string, proof: SecondFactorProof | undefined): Promise<void> {
+    const [hasWebAuthn, hasTotp] = await Promise.all([
+      UserModel.hasWebAuthn(userId),
+      UserModel.hasTotp(userId),
+    ]);
+    if (!hasWebAuthn && !hasTotp) {
+      return;
+    }
+    if (!proof) {
+      throw new Error('Second factor required');
+    }
+
+    switch (proof.method) {
+      case 'webauthn':
+        if (!hasWebAuthn) {
+          throw new Error('Second factor not available');
+        }
+        await this.webAuthnService.confirmAssertion(userId, proof.credential);
+        break;
+      case 'totp':
+        if (!hasTotp) {
+          throw new Error('Second factor not available');
+        }
+        await this.totpService.confirmCode(userId, proof.code);
+        break;
+      case 'recovery':
+        await this.recoveryService.confirmCode(userId, proof.code);
+        break;
+    }
+  }
+}
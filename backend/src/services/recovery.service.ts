@@ -0,0 +1,126 @@
+/**
+ * Recovery code service for regaining access after losing a second factor
+ */
+
+import { createHmac, randomInt } from 'crypto';
+import { config } from '../config';
+import { AuthResult, SessionContext } from '../types';
+import { UserModel, RecoveryCodeModel } from '../models';
+import { SessionService } from './session.service';
+import { AuditService } from './audit.service';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// No 0/O, 1/I/L or U, which are easy to misread when typed from paper
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTVWXYZ23456789';
+const CODE_LENGTH = 10;
+
+/**
+ * Generate a random recovery code, formatted as XXXXX-XXXXX
+ */
+function generateCode(): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, CODE_LENGTH / 2)}-${code.slice(CODE_LENGTH / 2)}`;
+}
+
+/**
+ * Hash a recovery code for storage and lookup
+ * Case, spaces and dashes are ignored so codes can be typed back loosely.
+ * Keyed with the server secret, so a leaked table cannot be brute-forced offline.
+ */
+function hashCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return createHmac('sha256', config.secretEncryptionKey)
+    .update(`falconpass/recovery-code:${normalized}`)
+    .digest('hex');
+}
+
+export class RecoveryService {
+  private sessionService = new SessionService();
+  private auditService = new AuditService();
+
+  /**
+   * Issue a new set of codes, invalidating every earlier one
+   * Only for accounts with a second factor, since the codes stand in for one.
+   * @returns The codes in plain text; they cannot be retrieved again
+   */
+  async regenerateCodes(userId: string, context: SessionContext): Promise<string[]> {
+    const [hasWebAuthn, hasTotp] = await Promise.all([
+      UserModel.hasWebAuthn(userId),
+      UserModel.hasTotp(userId),
+    ]);
+    if (!hasWebAuthn && !hasTotp) {
+      throw new Error('No second factor enabled');
+    }
+
+    const codes = await this.issueCodes(userId);
+    await this.auditService.record(userId, 'recovery_codes_regenerated', context);
+
+    return codes;
+  }
+
+  /**
+   * Issue codes when a user enrolls their first second factor
+   * @returns The new codes, or undefined if the user already has a set
+   */
+  async issueInitialCodes(userId: string): Promise<string[] | undefined> {
+    if (await RecoveryCodeModel.exists(userId)) {
+      return undefined;
+    }
+
+    return this.issueCodes(userId);
+  }
+
+  /**
+   * Number of codes the user has left
+   */
+  async getRemainingCount(userId: string): Promise<number> {
+    return UserModel.countRecoveryCodes(userId);
+  }
+
+  /**
+   * Use up a code to confirm a sensitive action, such as deleting the account
+   */
+  async confirmCode(userId: string, code: string): Promise<void> {
+    if (!(await RecoveryCodeModel.consume(userId, hashCode(code)))) {
+      throw new Error('Invalid code');
+    }
+  }
+
+  /**
+   * Complete a pending login with a recovery code and issue a full token
+   * The code is used up whether or not the rest of the login succeeds.
+   */
+  async verifyLogin(userId: string, code: string, context: SessionContext): Promise<AuthResult> {
+    const user = await UserModel.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!(await RecoveryCodeModel.consume(userId, hashCode(code)))) {
+      await this.auditService.record(user.id, 'login_failed', context, { method: 'recovery' });
+      throw new Error('Invalid code');
+    }
+
+    const tokens = await this.sessionService.startSession(user.id, user.tokenVersion, context);
+    await this.auditService.record(user.id, 'login', context, { method: 'recovery' });
+
+    return {
+      userId: user.id,
+      username: user.username,
+      ...tokens,
+    };
+  }
+
+  /**
+   * Replace the user's codes with a fresh set
+   */
+  private async issueCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateCode);
+    await RecoveryCodeModel.replaceAll(userId, codes.map(hashCode));
+    return codes;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Session service for issuing, listing and revoking login sessions
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { SessionContext, SessionDTO, SessionTokens } from '../types';
+import { SessionModel, RefreshTokenModel, UserModel } from '../models';
+import { describeDevice } from '../utils';
+
+// How stale last-seen times may get before a request updates them
+const LAST_SEEN_INTERVAL_SECONDS = 60;
+
+/**
+ * Hash a refresh token for storage and lookup
+ * The token is 256 random bits, so a plain hash is enough to make a leaked table useless.
+ */
+function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+export class SessionService {
+  /**
+   * Start a session after a completed login and issue its tokens
+   */
+  async startSession(userId: string, tokenVersion: number, context: SessionContext): Promise<SessionTokens> {
+    // Sessions past their expiry are of no use to anyone; drop them while we are here
+    await SessionModel.deleteExpired(userId);
+
+    const sessionId = uuidv4();
+    const expiresAt = this.sessionExpiry();
+
+    await SessionModel.create({
+      id: sessionId,
+      userId,
+      deviceName: describeDevice(context.userAgent),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      expiresAt,
+    });
+
+    return {
+      token: this.signToken(userId, tokenVersion, sessionId),
+      refreshToken: await this.issueRefreshToken(sessionId, expiresAt),
+    };
+  }
+
+  /**
+   * Issue a new access token for an existing session, e.g. after the token version changed
+   */
+  async reissueToken(userId: string, tokenVersion: number, sessionId: string): Promise<string> {
+    const session = await SessionModel.getById(sessionId);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw new Error('Session not found');
+    }
+
+    return this.signToken(userId, tokenVersion, sessionId);
+  }
+
+  /**
+   * Trade a refresh token for a new access token and a new refresh token
+   * Every refresh token works once. One that comes back after it was rotated
+   * has been copied, so the whole session is revoked and both holders lose it.
+   */
+  async refreshSession(refreshToken: string): Promise<SessionTokens> {
+    const stored = await RefreshTokenModel.getByHash(hashRefreshToken(refreshToken));
+    if (!stored) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const session = await SessionModel.getById(stored.sessionId);
+    const now = Date.now();
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= now || stored.expiresAt.getTime() <= now) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // A used token, or one another request just rotated, means someone else holds it too
+    if (stored.usedAt || !(await RefreshTokenModel.markUsed(stored.id))) {
+      await SessionModel.revoke(session.id, session.userId);
+      throw new Error('Refresh token reused');
+    }
+
+    const user = await UserModel.getById(session.userId);
+    if (!user) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // Using the session keeps it alive
+    const expiresAt = this.sessionExpiry();
+    await SessionModel.renew(session.id, expiresAt);
+
+    return {
+      token: this.signToken(user.id, user.tokenVersion, session.id),
+      refreshToken: await this.issueRefreshToken(session.id, expiresAt),
+    };
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to, e.g. on logout after the access token expired
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+    const stored = await RefreshTokenModel.getByHash(hashRefreshToken(refreshToken));
+    if (!stored) {
+      return false;
+    }
+
+    const session = await SessionModel.getById(stored.sessionId);
+    if (!session) {
+      return false;
+    }
+
+    return SessionModel.revoke(session.id, session.userId);
+  }
+
+  /**
+   * Check that a token's session is still active and record that it was used
+   */
+  async validateSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await SessionModel.getById(sessionId);
+    if (!session || session.userId !== userId || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      return false;
+    }
+
+    await SessionModel.touch(sessionId, LAST_SEEN_INTERVAL_SECONDS);
+
+    return true;
+  }
+
+  /**
+   * List a user's active sessions
+   * @param currentSessionId Session making the request, flagged in the result
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionDTO[]> {
+    const sessions = await SessionModel.getActiveByUserId(userId);
+
+    return sessions.map(session => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt.toISOString(),
+      lastSeenAt: session.lastSeenAt.toISOString(),
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of a user's sessions; its token is rejected from the next request on
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    return SessionModel.revoke(sessionId, userId);
+  }
+
+  /**
+   * Revoke all of a user's sessions
+   * @param exceptSessionId Session to keep signed in, if any
+   * @returns Number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    return SessionModel.revokeAll(userId, exceptSessionId);
+  }
+
+  /**
+   * Generate a short-lived JWT access token bound to a session
+   */
+  private signToken(userId: string, tokenVersion: number, sessionId: string): string {
+    return jwt.sign({ userId, tokenVersion, sessionId }, config.jwtSecret, {
+      expiresIn: config.accessTokenTimeout,
+    });
+  }
+
+  /**
+   * Create and store a refresh token
+   * @returns The token, which is only ever stored hashed
+   */
+  private async issueRefreshToken(sessionId: string, expiresAt: Date): Promise<string> {
+    const refreshToken = randomBytes(32).toString('base64url');
+    await RefreshTokenModel.create(sessionId, hashRefreshToken(refreshToken), expiresAt);
+    return refreshToken;
+  }
+
+  /**
+   * When a session started or refreshed now expires if it is not refreshed again
+   */
+  private sessionExpiry(): Date {
+    return new Date(Date.now() + config.refreshTokenTimeout * 1000);
+  }
+}
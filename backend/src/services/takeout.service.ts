@@ -0,0 +1,82 @@
+/**
+ * Takeout service for downloading everything an account holds
+ *
+ * The archive is signed, so it can be shown later to have come from this
+ * server unaltered. Vault entries stay encrypted; the client decrypts them
+ * with the vault key it already holds, and no key material is included.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { AccountTakeout, SessionContext, SignedAccountTakeout } from '../types';
+import {
+  UserModel,
+  WebAuthnCredentialModel,
+  SessionModel,
+  AuditEventModel,
+  VaultEntryModel,
+} from '../models';
+import { signDocument, verifyDocumentSignature } from '../utils';
+import { AuditService } from './audit.service';
+
+// Signature purpose of takeout archives
+const TAKEOUT_PURPOSE = 'account-takeout';
+
+/**
+ * Check that a takeout archive was issued by this server and not altered
+ */
+export function verifyTakeout(signed: SignedAccountTakeout): boolean {
+  return verifyDocumentSignature(signed.takeout, signed.signature, config.secretEncryptionKey, TAKEOUT_PURPOSE);
+}
+
+export class TakeoutService {
+  private auditService = new AuditService();
+
+  /**
+   * Gather and sign the account's data
+   */
+  async exportAccount(userId: string, context: SessionContext): Promise<SignedAccountTakeout> {
+    const profile = await UserModel.getDTOById(userId);
+    if (!profile) {
+      throw new Error('User not found');
+    }
+
+    // Record the export first, so the archive lists itself
+    await this.auditService.record(userId, 'account_exported', context);
+
+    const [webauthnCredentials, sessions, auditEvents, vault] = await Promise.all([
+      WebAuthnCredentialModel.getDTOsByUserId(userId),
+      SessionModel.getByUserId(userId),
+      AuditEventModel.getAllByUserId(userId),
+      VaultEntryModel.getDTOsByUserId(userId),
+    ]);
+
+    const takeout: AccountTakeout = {
+      takeoutId: uuidv4(),
+      exportedAt: new Date().toISOString(),
+      profile,
+      webauthnCredentials,
+      sessions: sessions.map(session => ({
+        id: session.id,
+        deviceName: session.deviceName,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt.toISOString(),
+        lastSeenAt: session.lastSeenAt.toISOString(),
+        expiresAt: session.expiresAt.toISOString(),
+        revokedAt: session.revokedAt ? session.revokedAt.toISOString() : null,
+      })),
+      auditEvents: auditEvents.map(event => ({
+        id: event.id,
+        type: event.type,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        details: event.details,
+        createdAt: event.createdAt.toISOString(),
+      })),
+      vault,
+    };
+
+    return { takeout, signature: signDocument(takeout, config.secretEncryptionKey, TAKEOUT_PURPOSE) };
+  }
+}
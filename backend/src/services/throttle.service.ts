@@ -0,0 +1,141 @@
+/**
+ * Throttle service for slowing down and locking out repeated failed logins
+ *
+ * Failures are counted per account and per IP address. After a few free
+ * attempts each further one has to wait twice as long as the last, and
+ * reaching the threshold locks the key for a while. Every lockout within a day
+ * of the previous one lasts twice as long.
+ */
+
+import { config } from '../config';
+import { ThrottleAccount } from '../types';
+import { LoginThrottleModel, UserModel } from '../models';
+import { AuditService } from './audit.service';
+
+// Failures allowed before attempts are delayed at all
+const FREE_ATTEMPTS = 3;
+
+// Longest delay between attempts short of a lockout
+const MAX_DELAY_SECONDS = 300;
+
+// An IP address may fail this many times more than one account, for shared networks
+const IP_THRESHOLD_FACTOR = 5;
+
+// Longest lockout, however often it was repeated
+const MAX_LOCKOUT_SECONDS = 24 * 3600;
+
+// Lockouts are forgotten after a day without failures
+const LOCKOUT_MEMORY_SECONDS = 24 * 3600;
+
+/**
+ * Throttle key of an account
+ * Password logins and second factors are counted separately, so guessing
+ * passwords for an account cannot lock its owner out of finishing a login.
+ */
+function accountKey(account: ThrottleAccount): string {
+  return 'email' in account ? `login:${account.email.toLowerCase()}` : `2fa:${account.userId}`;
+}
+
+/**
+ * Throttle key of an IP address
+ */
+function ipKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+export class ThrottleService {
+  private auditService = new AuditService();
+
+  /**
+   * Seconds until the next attempt for an account from an address is allowed
+   * @returns 0 if an attempt may be made now
+   */
+  async getRetryAfter(account: ThrottleAccount, ipAddress: string | null): Promise<number> {
+    const keys = ipAddress ? [accountKey(account), ipKey(ipAddress)] : [accountKey(account)];
+    const throttles = await LoginThrottleModel.getByKeys(keys);
+    const now = Date.now();
+
+    let waitUntil = now;
+    for (const throttle of throttles) {
+      if (throttle.lockedUntil) {
+        waitUntil = Math.max(waitUntil, throttle.lockedUntil.getTime());
+      }
+      if (throttle.failures > FREE_ATTEMPTS && throttle.lastFailureAt.getTime() > now - this.failureWindow()) {
+        const delay = Math.min(MAX_DELAY_SECONDS, 2 ** (throttle.failures - FREE_ATTEMPTS - 1));
+        waitUntil = Math.max(waitUntil, throttle.lastFailureAt.getTime() + delay * 1000);
+      }
+    }
+
+    return Math.ceil((waitUntil - now) / 1000);
+  }
+
+  /**
+   * Count a failed attempt and lock the account or address once it reaches its threshold
+   * The account's owner is told about its lockout the next time they sign in.
+   * @returns Throttle keys this failure locked, for the caller to log
+   */
+  async recordFailure(account: ThrottleAccount, ipAddress: string | null): Promise<string[]> {
+    const locked: string[] = [];
+
+    const key = accountKey(account);
+    const lockedUntil = await this.countFailure(key, config.loginLockoutThreshold);
+    if (lockedUntil) {
+      locked.push(key);
+
+      const user = 'email' in account
+        ? await UserModel.getByEmail(account.email)
+        : await UserModel.getById(account.userId);
+      if (user) {
+        await UserModel.recordLockout(user.id);
+        await this.auditService.record(user.id, 'account_locked', { ipAddress, userAgent: null }, {
+          step: 'email' in account ? 'password' : 'second_factor',
+          until: lockedUntil.toISOString(),
+        });
+      }
+    }
+
+    if (ipAddress && (await this.countFailure(ipKey(ipAddress), config.loginLockoutThreshold * IP_THRESHOLD_FACTOR))) {
+      locked.push(ipKey(ipAddress));
+    }
+
+    return locked;
+  }
+
+  /**
+   * Forget an account's failures after it was signed in to
+   * Failures of the address stay, so one known password cannot clear the way for guessing others.
+   */
+  async recordSuccess(account: ThrottleAccount): Promise<void> {
+    await LoginThrottleModel.delete(accountKey(account));
+  }
+
+  /**
+   * Count a failure against a key and lock it when it reaches the threshold
+   * @returns When the lock ends, or null if the key was not locked
+   */
+  private async countFailure(key: string, threshold: number): Promise<Date | null> {
+    const now = Date.now();
+    const throttle = await LoginThrottleModel.recordFailure(
+      key,
+      new Date(now - this.failureWindow()),
+      new Date(now - LOCKOUT_MEMORY_SECONDS * 1000)
+    );
+
+    if (throttle.failures < threshold) {
+      return null;
+    }
+
+    const duration = Math.min(MAX_LOCKOUT_SECONDS, config.loginLockoutDuration * 2 ** throttle.lockouts);
+    const lockedUntil = new Date(now + duration * 1000);
+    await LoginThrottleModel.lock(key, lockedUntil);
+
+    return lockedUntil;
+  }
+
+  /**
+   * Milliseconds failures are remembered without a new one
+   */
+  private failureWindow(): number {
+    return config.loginLockoutDuration * 1000;
+  }
+}
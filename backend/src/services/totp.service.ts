@@ -0,0 +1,147 @@
+/**
+ * TOTP service for authenticator-app two-factor authentication
+ */
+
+import { config } from '../config';
+import { AuthResult, TotpCredential, TotpEnrollment, TwoFactorEnrollmentResult, SessionContext } from '../types';
+import { UserModel, TotpCredentialModel } from '../models';
+import { encryptSecret, decryptSecret } from '../utils';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+import { RecoveryService } from './recovery.service';
+import { SessionService } from './session.service';
+import { AuditService } from './audit.service';
+
+// Keeps the TOTP encryption key apart from keys derived for other secrets
+const SECRET_PURPOSE = 'totp';
+
+export class TotpService {
+  private recoveryService = new RecoveryService();
+  private sessionService = new SessionService();
+  private auditService = new AuditService();
+
+  /**
+   * Start enrollment with a fresh secret
+   * The secret only becomes a second factor once a code from it is confirmed.
+   */
+  async beginEnrollment(userId: string): Promise<TotpEnrollment> {
+    const user = await UserModel.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const secret = generateTotpSecret();
+    const stored = await TotpCredentialModel.savePending(
+      userId,
+      encryptSecret(secret, config.secretEncryptionKey, SECRET_PURPOSE)
+    );
+    if (!stored) {
+      throw new Error('TOTP already enabled');
+    }
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, config.rpName),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * A first second factor also comes with a set of recovery codes.
+   */
+  async confirmEnrollment(userId: string, code: string, context: SessionContext): Promise<TwoFactorEnrollmentResult> {
+    const credential = await TotpCredentialModel.getByUserId(userId);
+    if (!credential) {
+      throw new Error('No TOTP enrollment pending');
+    }
+    if (credential.enabled) {
+      throw new Error('TOTP already enabled');
+    }
+
+    await this.verifyCode(credential, code);
+    await TotpCredentialModel.enable(userId);
+    await this.auditService.record(userId, 'totp_enabled', context);
+
+    const recoveryCodes = await this.recoveryService.issueInitialCodes(userId);
+
+    return { verified: true, recoveryCodes };
+  }
+
+  /**
+   * Turn TOTP off; takes a current code so a stolen session alone cannot remove it
+   */
+  async disable(userId: string, code: string, context: SessionContext): Promise<boolean> {
+    const credential = await TotpCredentialModel.getByUserId(userId);
+    if (!credential || !credential.enabled) {
+      throw new Error('TOTP not enabled');
+    }
+
+    await this.verifyCode(credential, code);
+
+    const deleted = await TotpCredentialModel.delete(userId);
+    if (deleted) {
+      await this.auditService.record(userId, 'totp_disabled', context);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Check a current code to confirm a sensitive action, such as deleting the account
+   */
+  async confirmCode(userId: string, code: string): Promise<void> {
+    const credential = await TotpCredentialModel.getByUserId(userId);
+    if (!credential || !credential.enabled) {
+      throw new Error('TOTP not enabled');
+    }
+
+    await this.verifyCode(credential, code);
+  }
+
+  /**
+   * Complete a pending login with a code and issue a full token
+   */
+  async verifyLogin(userId: string, code: string, context: SessionContext): Promise<AuthResult> {
+    const user = await UserModel.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const credential = await TotpCredentialModel.getByUserId(userId);
+    if (!credential || !credential.enabled) {
+      throw new Error('TOTP not enabled');
+    }
+
+    try {
+      await this.verifyCode(credential, code);
+    } catch (error) {
+      await this.auditService.record(user.id, 'login_failed', context, { method: 'totp' });
+      throw error;
+    }
+
+    const tokens = await this.sessionService.startSession(user.id, user.tokenVersion, context);
+    await this.auditService.record(user.id, 'login', context, { method: 'totp' });
+
+    return {
+      userId: user.id,
+      username: user.username,
+      ...tokens,
+    };
+  }
+
+  /**
+   * Check a code and use up its time step
+   */
+  private async verifyCode(credential: TotpCredential, code: string): Promise<void> {
+    const secret = decryptSecret(credential.encryptedSecret, config.secretEncryptionKey, SECRET_PURPOSE);
+
+    const step = verifyTotp(secret, code, credential.lastStep);
+    if (step === null) {
+      throw new Error('Invalid code');
+    }
+
+    // Another request may have used the same code since the credential was read
+    if (!(await TotpCredentialModel.recordStep(credential.userId, step))) {
+      throw new Error('Invalid code');
+    }
+  }
+}
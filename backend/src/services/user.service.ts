@@ -2,20 +2,65 @@
  * User service for authentication and user management
  */
 
-import { randomBytes } from 'crypto';
+import { createHmac } from 'crypto';
 import jwt from 'jsonwebtoken';
-import { User, UserDTO, UserRegistrationData, AuthChallenge, AuthResponse, AuthResult } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  User,
+  UserDTO,
+  UserRegistrationData,
+  PasswordChangeData,
+  KdfParams,
+  AuthChallenge,
+  AuthResponse,
+  AuthResult,
+  TwoFactorMethod,
+  SessionContext,
+} from '../types';
 import { config } from '../config';
 import { UserModel } from '../models';
+import { generateServerEphemeral, verifySession } from '../utils/srp';
+import { challengeStore } from './challenge.store';
+import { SessionService } from './session.service';
+import { AuditService } from './audit.service';
 
-// Store active challenges in memory
-const challenges: Map<string, { serverEphemeral: string; serverSession: string }> = new Map();
+/**
+ * Challenge store key of an SRP challenge
+ * Each challenge has its own ID, so concurrent logins to one account do not collide.
+ */
+function srpChallengeKey(email: string, challengeId: string): string {
+  return `srp:${email}:${challengeId}`;
+}
+
+/**
+ * Salt and verifier standing in for an account that does not exist
+ * Derived from the email with the server secret, so asking twice gives the same
+ * salt, as it would for a real account, without the email ever being stored.
+ */
+function fakeCredentials(email: string): { clientSalt: string; verifier: string } {
+  const derive = (purpose: string) =>
+    createHmac('sha256', config.secretEncryptionKey)
+      .update(`falconpass/${purpose}:${email}`)
+      .digest();
+
+  return {
+    clientSalt: derive('fake-salt').subarray(0, 16).toString('base64'), // Same size as a client salt
+    // Not g^x of any password, so no proof ever matches; B = k*v + g^b hides it behind the
+    // random g^b anyway, and a proof is still checked against it to take as long as a real one
+    verifier: derive('fake-verifier').toString('hex'),
+  };
+}
 
 export class UserService {
+  private sessionService = new SessionService();
+  private auditService = new AuditService();
+
   /**
    * Register a new user
    */
   async registerUser(userData: UserRegistrationData): Promise<{ userId: string }> {
+    this.assertKdfPolicy(userData.kdf);
+
     // Check if user already exists
     const existingUser = await UserModel.getByEmail(userData.email);
     if (existingUser) {
@@ -30,70 +75,213 @@ export class UserService {
 
   /**
    * Get login challenge for a user
+   * An unknown email gets a challenge for made-up credentials that looks and
+   * behaves like a real one, so the response does not tell whether the account exists.
    */
   async getLoginChallenge(email: string): Promise<AuthChallenge> {
     // Find user
     const user = await UserModel.getByEmail(email);
-    if (!user) {
-      throw new Error('User not found');
-    }
+    const credentials = user ?? { ...fakeCredentials(email), kdf: config.kdfPolicy };
 
-    // Generate server ephemeral and session
-    const serverEphemeral = randomBytes(32).toString('hex');
-    const serverSession = randomBytes(32).toString('hex');
+    // Generate server ephemeral B = k*v + g^b from the stored verifier
+    const ephemeral = generateServerEphemeral(credentials.verifier);
+    const serverEphemeral = ephemeral.public;
 
     // Store challenge
-    challenges.set(email, { serverEphemeral, serverSession });
+    const challengeId = uuidv4();
+    await challengeStore.put(
+      srpChallengeKey(email, challengeId),
+      JSON.stringify({ serverEphemeral, serverSecret: ephemeral.secret })
+    );
 
     // Return challenge
     return {
+      challengeId,
       serverEphemeral,
-      salt: user.clientSalt,
+      salt: credentials.clientSalt,
+      kdf: credentials.kdf,
     };
   }
 
   /**
    * Verify login and issue token
+   * @param context Where the login came from, recorded with the session it starts
    */
-  async verifyLogin(email: string, authResponse: AuthResponse): Promise<AuthResult> {
+  async verifyLogin(email: string, authResponse: AuthResponse, context: SessionContext): Promise<AuthResult> {
     // Find user
     const user = await UserModel.getByEmail(email);
     if (!user) {
-      throw new Error('User not found');
+      // Do all the work of a wrong password, so the time taken does not give the account away
+      await this.verifyProof({ email, ...fakeCredentials(email) }, authResponse);
+      throw new Error('Invalid credentials');
     }
 
-    // Get challenge
-    const challenge = challenges.get(email);
-    if (!challenge) {
-      throw new Error('No active challenge');
+    let serverProof: string;
+    try {
+      ({ serverProof } = await this.verifyProof(user, authResponse));
+    } catch (error: any) {
+      if (error.message === 'Invalid credentials') {
+        await this.auditService.record(user.id, 'login_failed', context, { method: 'password' });
+      }
+      throw error;
     }
 
-    // For now, we'll implement a simple verification
-    // In a production app, you would implement proper SRP verification here
-    // This is a simplified version that checks if the client provided valid-looking data
-    
-    if (!authResponse.clientProof || !authResponse.clientEphemeral) {
-      throw new Error('Invalid credentials');
+    // With a second factor registered, the password alone only earns a token for completing it
+    const twoFactorMethods: TwoFactorMethod[] = [];
+    if (await UserModel.hasWebAuthn(user.id)) {
+      twoFactorMethods.push('webauthn');
+    }
+    if (await UserModel.hasTotp(user.id)) {
+      twoFactorMethods.push('totp');
+    }
+    // Recovery codes only stand in for a second factor, they never add one
+    if (twoFactorMethods.length > 0 && (await UserModel.countRecoveryCodes(user.id)) > 0) {
+      twoFactorMethods.push('recovery');
     }
 
-    // Basic validation - in real implementation, verify the SRP proof
-    if (authResponse.clientProof.length < 32 || authResponse.clientEphemeral.length < 32) {
-      throw new Error('Invalid credentials');
+    if (twoFactorMethods.length > 0) {
+      return {
+        userId: user.id,
+        username: user.username,
+        token: this.generatePendingToken(user.id, user.tokenVersion),
+        serverProof,
+        wrappedVaultKey: user.wrappedVaultKey,
+        twoFactorRequired: true,
+        twoFactorMethods,
+      };
     }
-    
-    // Clear challenge
-    challenges.delete(email);
 
-    // Generate JWT token
-    const token = this.generateToken(user.id);
+    // Start the session
+    const { token, refreshToken } = await this.sessionService.startSession(user.id, user.tokenVersion, context);
+    await this.auditService.record(user.id, 'login', context, { method: 'password' });
 
     return {
       userId: user.id,
       username: user.username,
       token,
+      refreshToken,
+      serverProof,
+      wrappedVaultKey: user.wrappedVaultKey,
+    };
+  }
+
+  /**
+   * Get an SRP challenge for an authenticated user to prove their current password
+   * Includes the wrapped vault key so the client can re-wrap it under the new password.
+   */
+  async getPasswordChangeChallenge(userId: string): Promise<AuthChallenge> {
+    const user = await UserModel.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const challenge = await this.getLoginChallenge(user.email);
+
+    return {
+      ...challenge,
+      wrappedVaultKey: user.wrappedVaultKey,
+    };
+  }
+
+  /**
+   * Check a fresh proof of the master password to confirm a sensitive action
+   * The challenge comes from getPasswordChangeChallenge.
+   */
+  async confirmPassword(userId: string, authResponse: AuthResponse): Promise<{ serverProof: string }> {
+    const user = await UserModel.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return this.verifyProof(user, authResponse);
+  }
+
+  /**
+   * Change the master password
+   * The client proves the current password via SRP and uploads the new salt,
+   * verifier and re-wrapped vault key, which replace the old ones atomically.
+   * Every other session is signed out; the current one gets a fresh token.
+   */
+  async changePassword(
+    userId: string,
+    sessionId: string,
+    data: PasswordChangeData,
+    context: SessionContext
+  ): Promise<{ token: string; serverProof: string }> {
+    this.assertKdfPolicy(data.kdf);
+
+    const user = await UserModel.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const { serverProof } = await this.verifyProof(user, data.authResponse);
+
+    const tokenVersion = await UserModel.updateCredentials(user.id, user.verifier, {
+      clientSalt: data.clientSalt,
+      verifier: data.verifier,
+      wrappedVaultKey: data.wrappedVaultKey,
+      kdf: data.kdf,
+    });
+    if (tokenVersion === null) {
+      // The credentials changed between the proof and the update
+      throw new Error('Invalid credentials');
+    }
+
+    await this.sessionService.revokeAllSessions(user.id, sessionId);
+    await this.auditService.record(user.id, 'password_changed', context);
+
+    return {
+      token: await this.sessionService.reissueToken(user.id, tokenVersion, sessionId),
+      serverProof,
     };
   }
 
+  /**
+   * Re-key an account whose KDF parameters are weaker than the current policy
+   * Same password, so unlike a password change no other session is signed out.
+   */
+  async upgradeKdf(userId: string, data: PasswordChangeData, context: SessionContext): Promise<{ serverProof: string }> {
+    this.assertKdfPolicy(data.kdf);
+
+    const user = await UserModel.getById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const { serverProof } = await this.verifyProof(user, data.authResponse);
+
+    const tokenVersion = await UserModel.updateCredentials(
+      user.id,
+      user.verifier,
+      {
+        clientSalt: data.clientSalt,
+        verifier: data.verifier,
+        wrappedVaultKey: data.wrappedVaultKey,
+        kdf: data.kdf,
+      },
+      false
+    );
+    if (tokenVersion === null) {
+      throw new Error('Invalid credentials');
+    }
+
+    await this.auditService.record(user.id, 'kdf_upgraded', context, {
+      iterations: data.kdf.iterations,
+      memory: data.kdf.memory,
+      parallelism: data.kdf.parallelism,
+    });
+
+    return { serverProof };
+  }
+
+  /**
+   * Get the KDF parameters clients must use for new credentials
+   */
+  getKdfPolicy(): KdfParams {
+    return config.kdfPolicy;
+  }
+
   /**
    * Get user by ID
    */
@@ -109,11 +297,70 @@ export class UserService {
   }
 
   /**
-   * Generate JWT token
+   * Verify the client's SRP-6a proof M1 against the user's active challenge
+   * @returns Our proof M2 for the client to check
+   */
+  private async verifyProof(
+    user: Pick<User, 'email' | 'clientSalt' | 'verifier'>,
+    authResponse: AuthResponse
+  ): Promise<{ serverProof: string }> {
+    const challenge = await this.consumeChallenge(user.email, authResponse);
+
+    if (!authResponse.clientProof || !authResponse.clientEphemeral) {
+      throw new Error('Invalid credentials');
+    }
+
+    return verifySession({
+      identity: user.email,
+      salt: user.clientSalt,
+      verifier: user.verifier,
+      serverSecret: challenge.serverSecret,
+      serverPublic: challenge.serverEphemeral,
+      clientPublic: authResponse.clientEphemeral,
+      clientProof: authResponse.clientProof,
+    });
+  }
+
+  /**
+   * Take the challenge a response answers out of the store
+   * A challenge may only be answered once, whether or not the proof is valid.
+   */
+  private async consumeChallenge(
+    email: string,
+    authResponse: AuthResponse
+  ): Promise<{ serverEphemeral: string; serverSecret: string }> {
+    const stored = authResponse.challengeId
+      ? await challengeStore.consume(srpChallengeKey(email, authResponse.challengeId))
+      : null;
+    if (!stored) {
+      throw new Error('No active challenge');
+    }
+
+    return JSON.parse(stored) as { serverEphemeral: string; serverSecret: string };
+  }
+
+  /**
+   * Reject new credentials derived with a weaker KDF than the deployment requires
+   * Existing accounts keep working with whatever parameters they were created with.
+   */
+  private assertKdfPolicy(kdf: KdfParams): void {
+    const policy = config.kdfPolicy;
+    if (
+      kdf.algorithm !== policy.algorithm ||
+      kdf.iterations < policy.iterations ||
+      kdf.memory < policy.memory ||
+      kdf.parallelism < policy.parallelism
+    ) {
+      throw new Error('KDF parameters below policy');
+    }
+  }
+
+  /**
+   * Generate a short-lived JWT token that only allows completing the second factor
    */
-  private generateToken(userId: string): string {
-    return jwt.sign({ userId }, config.jwtSecret, {
-      expiresIn: config.jwtExpiresIn,
+  private generatePendingToken(userId: string, tokenVersion: number): string {
+    return jwt.sign({ userId, tokenVersion, twoFactorPending: true }, config.jwtSecret, {
+      expiresIn: config.twoFactorTimeout,
     });
   }
 }
\ No newline at end of file
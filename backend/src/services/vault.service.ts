@@ -2,10 +2,20 @@
  * Vault service for managing password entries
  */
 
-import { VaultEntryDTO, VaultEntryCreateData, VaultEntryUpdateData, VaultExportData, VaultImportResult } from '../types';
+import {
+  VaultEntryDTO,
+  VaultEntryCreateData,
+  VaultEntryUpdateData,
+  VaultExportData,
+  VaultImportResult,
+  SessionContext,
+} from '../types';
 import { VaultEntryModel } from '../models';
+import { AuditService } from './audit.service';
 
 export class VaultService {
+  private auditService = new AuditService();
+
   /**
    * Get all vault entries for a user
    */
@@ -29,9 +39,17 @@ export class VaultService {
 
   /**
    * Update a vault entry
+   * @returns The new revision, or null if the entry does not exist
    */
-  async updateEntry(entryId: string, data: VaultEntryUpdateData): Promise<boolean> {
-    return VaultEntryModel.update(entryId, data);
+  async updateEntry(entryId: string, data: VaultEntryUpdateData): Promise<number | null> {
+    const revision = await VaultEntryModel.update(entryId, data);
+    
+    if (revision === null && await VaultEntryModel.getById(entryId, data.userId)) {
+      // The entry exists but was changed since the client read it
+      throw new Error('Revision conflict');
+    }
+    
+    return revision;
   }
 
   /**
@@ -42,50 +60,46 @@ export class VaultService {
   }
 
   /**
-   * Export vault entries
+   * Export the user's vault entries, still encrypted
    */
-  async exportEntries(userId: string): Promise<VaultExportData> {
+  async exportVault(userId: string, context: SessionContext): Promise<VaultExportData> {
     const entries = await VaultEntryModel.getDTOsByUserId(userId);
+    await this.auditService.record(userId, 'vault_exported', context, { entries: entries.length });
     
     return {
-      format: 'falconpass-v1',
-      timestamp: new Date().toISOString(),
       entries,
+      exportedAt: new Date().toISOString(),
     };
   }
 
   /**
-   * Import vault entries
+   * Import encrypted vault entries
+   * Entries that cannot be stored, e.g. because their ID is taken, are counted as failed.
    */
-  async importEntries(userId: string, importData: VaultExportData): Promise<VaultImportResult> {
-    // Validate import format
-    if (importData.format !== 'falconpass-v1') {
-      throw new Error('Unsupported import format');
-    }
-    
-    // Track import results
-    const result: VaultImportResult = {
-      total: importData.entries.length,
-      imported: 0,
-      skipped: 0,
-      errors: 0,
-    };
+  async importVault(
+    userId: string,
+    entries: Array<{ id?: string; encryptedData: string; itemType?: string }>,
+    context: SessionContext
+  ): Promise<VaultImportResult> {
+    let imported = 0;
+    let failed = 0;
     
-    // Process each entry
-    for (const entry of importData.entries) {
+    for (const entry of entries) {
       try {
         await VaultEntryModel.create({
+          id: entry.id,
           userId,
           encryptedData: entry.encryptedData,
-          metadata: entry.metadata,
+          itemType: entry.itemType,
         });
-        
-        result.imported++;
+        imported++;
       } catch (error) {
-        result.errors++;
+        failed++;
       }
     }
     
-    return result;
+    await this.auditService.record(userId, 'vault_imported', context, { imported, failed });
+    
+    return { success: failed === 0, imported, failed };
   }
-}
\ No newline at end of file
+}
@@ -8,15 +8,78 @@ import {
   generateAuthenticationOptions,
   verifyAuthenticationResponse,
 } from '@simplewebauthn/server';
-import jwt from 'jsonwebtoken';
+import type { AuthenticatorTransportFuture } from '@simplewebauthn/typescript-types';
 import { config } from '../config';
-import { WebAuthnCredentialDTO, AuthResult } from '../types';
+import {
+  WebAuthnCredentialDTO,
+  AuthResult,
+  PasskeyLoginResult,
+  TwoFactorEnrollmentResult,
+  SessionContext,
+} from '../types';
 import { UserModel, WebAuthnCredentialModel } from '../models';
+import { RecoveryService } from './recovery.service';
+import { SessionService } from './session.service';
+import { AuditService } from './audit.service';
+import { challengeStore } from './challenge.store';
+
+// Login completes a pending login; reauth confirms a sensitive action of a signed-in user
+type Ceremony = 'register' | 'login' | 'reauth' | 'passkey';
 
-// Store challenges in memory (in production, use Redis or another distributed cache)
-const challengeStore: Map<string, string> = new Map();
+/**
+ * Challenge store key of a WebAuthn challenge
+ * Keyed by the challenge itself, which the authenticator signs and the response
+ * carries back, so concurrent ceremonies for one user do not collide.
+ * @param ceremony What the challenge is for
+ * @param challenge The base64url challenge
+ * @param userId Owner, for challenges issued to a signed-in or pending user
+ */
+function challengeKey(ceremony: Ceremony, challenge: string, userId?: string): string {
+  return userId ? `webauthn:${ceremony}:${userId}:${challenge}` : `webauthn:${ceremony}:${challenge}`;
+}
+
+/**
+ * Challenge a registration or authentication response answers, read from its client data
+ */
+function responseChallenge(credential: any): string | null {
+  try {
+    const clientData = JSON.parse(Buffer.from(credential.response.clientDataJSON, 'base64url').toString('utf8'));
+    return typeof clientData.challenge === 'string' ? clientData.challenge : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Use up the challenge a response claims to answer; each one is good for a single attempt
+ * @returns The challenge, or null if it was not issued for this ceremony or has expired
+ */
+async function consumeChallenge(
+  ceremony: Ceremony,
+  credential: any,
+  userId?: string
+): Promise<string | null> {
+  const challenge = responseChallenge(credential);
+  if (!challenge) {
+    return null;
+  }
+  return challengeStore.consume(challengeKey(ceremony, challenge, userId));
+}
+
+/**
+ * Whether a user handle from an assertion names the given user
+ * The handle is the registered user ID, which clients send back either as its
+ * base64url-encoded text or, if they took it for base64url already, unchanged.
+ */
+function userHandleMatches(userHandle: string, userId: string): boolean {
+  return userHandle === userId || Buffer.from(userHandle, 'base64url').toString('utf8') === userId;
+}
 
 export class WebAuthnService {
+  private recoveryService = new RecoveryService();
+  private sessionService = new SessionService();
+  private auditService = new AuditService();
+
   /**
    * Generate registration options for WebAuthn
    */
@@ -32,7 +95,7 @@ export class WebAuthnService {
     const excludeCredentials = existingCredentials.map(cred => ({
       id: Buffer.from(cred.credentialId, 'base64url'),
       type: 'public-key' as const,
-      transports: cred.transports ? cred.transports.split(',') : undefined,
+      transports: cred.transports ? (cred.transports.split(',') as AuthenticatorTransportFuture[]) : undefined,
     }));
 
     // Generate registration options
@@ -52,7 +115,7 @@ export class WebAuthnService {
     });
 
     // Store challenge
-    challengeStore.set(userId, options.challenge);
+    await challengeStore.put(challengeKey('register', options.challenge, userId), options.challenge);
 
     return options;
   }
@@ -60,15 +123,15 @@ export class WebAuthnService {
   /**
    * Verify registration response for WebAuthn
    */
-  async verifyRegistration(userId: string, credential: any): Promise<{ verified: boolean }> {
+  async verifyRegistration(userId: string, credential: any, context: SessionContext): Promise<TwoFactorEnrollmentResult> {
     // Find user
     const user = await UserModel.getById(userId);
     if (!user) {
       throw new Error('User not found');
     }
 
-    // Get expected challenge
-    const expectedChallenge = challengeStore.get(userId);
+    // Get expected challenge; it may only be answered once
+    const expectedChallenge = await consumeChallenge('register', credential, userId);
     if (!expectedChallenge) {
       throw new Error('Challenge not found');
     }
@@ -87,17 +150,18 @@ export class WebAuthnService {
         await WebAuthnCredentialModel.create({
           userId,
           credentialId: credential.id,
-          publicKey: verification.registrationInfo.credentialPublicKey.toString('base64url'),
+          publicKey: Buffer.from(verification.registrationInfo.credentialPublicKey).toString('base64url'),
           counter: verification.registrationInfo.counter,
           credentialDeviceType: verification.registrationInfo.credentialDeviceType,
           credentialBackedUp: verification.registrationInfo.credentialBackedUp,
           transports: credential.response.transports ? credential.response.transports.join(',') : '',
         });
+        await this.auditService.record(userId, 'webauthn_added', context);
 
-        // Clear challenge
-        challengeStore.delete(userId);
+        // A first second factor also comes with a set of recovery codes
+        const recoveryCodes = await this.recoveryService.issueInitialCodes(userId);
 
-        return { verified: true };
+        return { verified: true, recoveryCodes };
       }
 
       return { verified: false };
@@ -109,8 +173,9 @@ export class WebAuthnService {
 
   /**
    * Generate authentication options for WebAuthn
+   * @param ceremony Whether the assertion completes a login or confirms a sensitive action
    */
-  async generateAuthenticationOptions(userId: string): Promise<any> {
+  async generateAuthenticationOptions(userId: string, ceremony: 'login' | 'reauth' = 'login'): Promise<any> {
     // Find user
     const user = await UserModel.getById(userId);
     if (!user) {
@@ -129,13 +194,13 @@ export class WebAuthnService {
       allowCredentials: existingCredentials.map(cred => ({
         id: Buffer.from(cred.credentialId, 'base64url'),
         type: 'public-key' as const,
-        transports: cred.transports ? cred.transports.split(',') : undefined,
+        transports: cred.transports ? (cred.transports.split(',') as AuthenticatorTransportFuture[]) : undefined,
       })),
       userVerification: 'preferred',
     });
 
     // Store challenge
-    challengeStore.set(userId, options.challenge);
+    await challengeStore.put(challengeKey(ceremony, options.challenge, userId), options.challenge);
 
     return options;
   }
@@ -143,27 +208,88 @@ export class WebAuthnService {
   /**
    * Verify authentication response for WebAuthn
    */
-  async verifyAuthentication(userId: string, credential: any): Promise<AuthResult> {
+  async verifyAuthentication(userId: string, credential: any, context: SessionContext): Promise<AuthResult> {
     // Find user
     const user = await UserModel.getById(userId);
     if (!user) {
       throw new Error('User not found');
     }
 
-    // Get expected challenge
-    const expectedChallenge = challengeStore.get(userId);
+    try {
+      await this.verifyAssertion(userId, credential, 'login');
+    } catch (error: any) {
+      if (error.message !== 'Challenge not found') {
+        await this.auditService.record(userId, 'login_failed', context, { method: 'webauthn' });
+      }
+      throw error;
+    }
+
+    // Start the session
+    const tokens = await this.sessionService.startSession(userId, user.tokenVersion, context);
+    await this.auditService.record(userId, 'login', context, { method: 'webauthn' });
+
+    return {
+      userId: user.id,
+      username: user.username,
+      ...tokens,
+    };
+  }
+
+  /**
+   * Check an assertion to confirm a sensitive action, such as deleting the account
+   * The challenge must come from generateAuthenticationOptions for the reauth ceremony.
+   */
+  async confirmAssertion(userId: string, credential: any): Promise<void> {
+    await this.verifyAssertion(userId, credential, 'reauth');
+  }
+
+  /**
+   * Generate options for a passwordless login with a discoverable credential
+   * The allow list is empty, so the authenticator offers whichever passkeys it holds for this site.
+   */
+  async generatePasskeyLoginOptions(): Promise<any> {
+    const options = await generateAuthenticationOptions({
+      rpID: config.rpID,
+      allowCredentials: [],
+      // The passkey stands in for the master password, so the user must be verified
+      userVerification: 'required',
+    });
+
+    // Passwordless login challenges belong to no user until verified
+    await challengeStore.put(challengeKey('passkey', options.challenge), options.challenge);
+
+    return options;
+  }
+
+  /**
+   * Verify a passwordless login, resolving the user from the credential's user handle
+   */
+  async verifyPasskeyLogin(credential: any, context: SessionContext): Promise<PasskeyLoginResult> {
+    const userHandle = credential?.response?.userHandle;
+    if (!credential?.id || !userHandle) {
+      throw new Error('Invalid credential');
+    }
+
+    // Each challenge is good for a single attempt
+    const expectedChallenge = await consumeChallenge('passkey', credential);
     if (!expectedChallenge) {
-      throw new Error('Challenge not found');
+      throw new Error('Authentication failed');
     }
 
-    // Find the credential
+    // The user handle must name the owner of the credential that answered
     const storedCredential = await WebAuthnCredentialModel.getByCredentialId(credential.id);
-    if (!storedCredential) {
-      throw new Error('Credential not found');
+    if (!storedCredential || !userHandleMatches(userHandle, storedCredential.userId)) {
+      throw new Error('Authentication failed');
+    }
+
+    const user = await UserModel.getById(storedCredential.userId);
+    if (!user) {
+      throw new Error('Authentication failed');
     }
 
+    let verified = false;
+    let newCounter = storedCredential.counter;
     try {
-      // Verify authentication response
       const verification = await verifyAuthenticationResponse({
         response: credential,
         expectedChallenge,
@@ -174,32 +300,45 @@ export class WebAuthnService {
           credentialPublicKey: Buffer.from(storedCredential.publicKey, 'base64url'),
           counter: storedCredential.counter,
         },
+        requireUserVerification: true,
       });
+      verified = verification.verified;
+      newCounter = verification.authenticationInfo.newCounter;
+    } catch (error) {
+      console.error('Passkey login verification error:', error);
+    }
 
-      if (verification.verified) {
-        // Update counter
-        await WebAuthnCredentialModel.update(storedCredential.id, {
-          counter: verification.authenticationInfo.newCounter,
-        });
+    if (!verified) {
+      await this.auditService.record(user.id, 'login_failed', context, { method: 'passkey' });
+      throw new Error('Authentication failed');
+    }
 
-        // Clear challenge
-        challengeStore.delete(userId);
+    // Update counter
+    await WebAuthnCredentialModel.update(storedCredential.id, { counter: newCounter });
 
-        // Generate JWT token
-        const token = this.generateToken(userId);
+    const tokens = await this.sessionService.startSession(user.id, user.tokenVersion, context);
+    await this.auditService.record(user.id, 'login', context, { method: 'passkey' });
 
-        return {
-          userId: user.id,
-          username: user.username,
-          token,
-        };
-      }
+    return {
+      userId: user.id,
+      username: user.username,
+      email: user.email,
+      ...tokens,
+      prfWrappedVaultKey: storedCredential.prfWrappedVaultKey,
+    };
+  }
 
-      throw new Error('Authentication failed');
-    } catch (error) {
-      console.error('WebAuthn authentication verification error:', error);
-      throw new Error('Authentication failed');
+  /**
+   * Store or clear the vault key wrapped with a passkey's PRF output
+   */
+  async setPrfWrappedVaultKey(credentialId: string, userId: string, wrappedVaultKey: string | null): Promise<boolean> {
+    const credential = await WebAuthnCredentialModel.getByCredentialId(credentialId);
+
+    if (!credential || credential.userId !== userId) {
+      return false;
     }
+
+    return WebAuthnCredentialModel.update(credential.id, { prfWrappedVaultKey: wrappedVaultKey });
   }
 
   /**
@@ -212,22 +351,64 @@ export class WebAuthnService {
   /**
    * Delete a WebAuthn credential
    */
-  async deleteCredential(credentialId: string, userId: string): Promise<boolean> {
+  async deleteCredential(credentialId: string, userId: string, context: SessionContext): Promise<boolean> {
     const credential = await WebAuthnCredentialModel.getByCredentialId(credentialId);
     
     if (!credential || credential.userId !== userId) {
       return false;
     }
     
-    return WebAuthnCredentialModel.delete(credential.id);
+    const deleted = await WebAuthnCredentialModel.delete(credential.id);
+    if (deleted) {
+      await this.auditService.record(userId, 'webauthn_removed', context);
+    }
+    
+    return deleted;
   }
 
   /**
-   * Generate JWT token
+   * Verify an assertion from one of the user's credentials and advance its counter
+   * @param ceremony The ceremony the answered challenge was issued for
    */
-  private generateToken(userId: string): string {
-    return jwt.sign({ userId }, config.jwtSecret, {
-      expiresIn: config.jwtExpiresIn,
+  private async verifyAssertion(userId: string, credential: any, ceremony: 'login' | 'reauth'): Promise<void> {
+    // Get expected challenge; it may only be answered once, whether or not the assertion is valid
+    const expectedChallenge = await consumeChallenge(ceremony, credential, userId);
+    if (!expectedChallenge) {
+      throw new Error('Challenge not found');
+    }
+
+    // Find the credential; it must belong to the user
+    const storedCredential = await WebAuthnCredentialModel.getByCredentialId(credential?.id);
+    if (!storedCredential || storedCredential.userId !== userId) {
+      throw new Error('Credential not found');
+    }
+
+    let verification;
+    try {
+      // Verify authentication response
+      verification = await verifyAuthenticationResponse({
+        response: credential,
+        expectedChallenge,
+        expectedOrigin: config.origin,
+        expectedRPID: config.rpID,
+        authenticator: {
+          credentialID: Buffer.from(storedCredential.credentialId, 'base64url'),
+          credentialPublicKey: Buffer.from(storedCredential.publicKey, 'base64url'),
+          counter: storedCredential.counter,
+        },
+      });
+    } catch (error) {
+      console.error('WebAuthn authentication verification error:', error);
+      throw new Error('Authentication failed');
+    }
+
+    if (!verification.verified) {
+      throw new Error('Authentication failed');
+    }
+
+    // Update counter
+    await WebAuthnCredentialModel.update(storedCredential.id, {
+      counter: verification.authenticationInfo.newCounter,
     });
   }
 }
\ No newline at end of file
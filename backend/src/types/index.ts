@@ -9,6 +9,11 @@ export interface User {
   username: string;
   clientSalt: string;
   verifier: string;
+  wrappedVaultKey: string | null;
+  kdf: KdfParams;
+  tokenVersion: number; // Bumped to invalidate every previously issued token
+  lastLockoutAt: Date | null; // Last time failed logins locked the account
+  deletionDueAt: Date | null; // When a requested deletion purges the account
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,6 +25,10 @@ export interface UserDTO {
   createdAt: string;
   updatedAt: string;
   hasWebAuthn: boolean;
+  hasTotp: boolean;
+  recoveryCodesRemaining: number;
+  lastLockoutAt: string | null;
+  deletionDueAt: string | null; // Set while the account can still be restored
 }
 
 export interface UserRegistrationData {
@@ -27,15 +36,68 @@ export interface UserRegistrationData {
   username: string;
   clientSalt: string;
   verifier: string;
+  wrappedVaultKey: string;
+  kdf: KdfParams;
+}
+
+export interface PasswordChangeData {
+  authResponse: AuthResponse; // SRP proof for the current password
+  clientSalt: string;
+  verifier: string;
+  wrappedVaultKey: string;
+  kdf: KdfParams;
+}
+
+// Proof of a second factor for confirming a sensitive action outside a login
+export type SecondFactorProof =
+  | { method: 'totp' | 'recovery'; code: string }
+  | { method: 'webauthn'; credential: any };
+
+// Fresh proof of identity for a sensitive action, on top of the session
+export interface Reauthentication {
+  authResponse: AuthResponse; // SRP proof for the master password
+  secondFactor?: SecondFactorProof; // Required if the account has one
+}
+
+export interface AccountDeletionData extends Reauthentication {
+  gracePeriod: boolean; // Keep the account restorable for a while instead of purging it now
+}
+
+// Issued when an account is deleted, for the user to keep as proof
+export interface DeletionReceipt {
+  receiptId: string;
+  userId: string;
+  email: string;
+  requestedAt: string;
+  purgeAt: string; // When the account's data is or was purged
+}
+
+export interface SignedDeletionReceipt {
+  receipt: DeletionReceipt;
+  signature: string; // HMAC-SHA256 of the receipt under the server secret, base64url
+}
+
+// Master password key derivation, run client-side with these parameters
+export type KdfAlgorithm = 'argon2id';
+
+export interface KdfParams {
+  algorithm: KdfAlgorithm;
+  iterations: number; // Argon2 time cost
+  memory: number; // Argon2 memory cost in KiB
+  parallelism: number;
 }
 
 // Authentication types
 export interface AuthChallenge {
+  challengeId: string; // Sent back with the response to identify this challenge
   serverEphemeral: string;
   salt: string;
+  kdf: KdfParams;
+  wrappedVaultKey?: string | null; // Only for an authenticated password change
 }
 
 export interface AuthResponse {
+  challengeId: string;
   clientProof: string;
   clientEphemeral: string;
 }
@@ -44,6 +106,19 @@ export interface AuthResult {
   userId: string;
   username: string;
   token: string;
+  refreshToken?: string; // Only once the login is complete
+  serverProof?: string; // SRP-6a M2, lets the client authenticate the server
+  wrappedVaultKey?: string | null; // Only released after a successful SRP proof
+  twoFactorRequired?: boolean; // The token only allows completing the second factor
+  twoFactorMethods?: TwoFactorMethod[]; // Second factors the pending login may be completed with
+}
+
+// Second factors a login can be completed with; recovery codes stand in for a lost one
+export type TwoFactorMethod = 'webauthn' | 'totp' | 'recovery';
+
+export interface PasskeyLoginResult extends AuthResult {
+  email: string;
+  prfWrappedVaultKey: string | null; // Vault key wrapped with the passkey's PRF output, if set up
 }
 
 // WebAuthn types
@@ -55,7 +130,8 @@ export interface WebAuthnCredential {
   counter: number;
   credentialDeviceType: string;
   credentialBackedUp: boolean;
-  transports?: string[];
+  transports?: string; // Comma-separated, as the authenticator reported them
+  prfWrappedVaultKey: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -65,15 +141,145 @@ export interface WebAuthnCredentialDTO {
   credentialId: string;
   credentialDeviceType: string;
   credentialBackedUp: boolean;
+  prfEnabled: boolean; // Whether this passkey can unlock the vault on its own
+  createdAt: string;
+}
+
+// TOTP types
+export interface TotpCredential {
+  userId: string;
+  encryptedSecret: string;
+  enabled: boolean;
+  lastStep: number | null; // Time step of the last accepted code
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TotpEnrollment {
+  secret: string; // Base32, for manual entry
+  otpauthUri: string; // For the QR code
+}
+
+// Recovery code types
+export interface TwoFactorEnrollmentResult {
+  verified: boolean;
+  recoveryCodes?: string[]; // Only on the first second factor; shown to the user once
+}
+
+// Session types
+export interface Session {
+  id: string;
+  userId: string;
+  deviceName: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+export interface SessionDTO {
+  id: string;
+  deviceName: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean; // The session making the request
+}
+
+export interface RefreshToken {
+  id: string;
+  sessionId: string;
+  tokenHash: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt: Date | null; // Set once rotated; the token must never be accepted again
+}
+
+// Tokens of a session: a short-lived access token and the refresh token that renews it
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Where a login came from, recorded with the session it starts
+export interface SessionContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+// Failed login attempts against one throttle key, e.g. an account or an IP address
+export interface LoginThrottle {
+  key: string;
+  failures: number; // Since the last lockout
+  lockouts: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+// Account a login attempt is for: a password login names the email, a second factor the user
+export type ThrottleAccount = { email: string } | { userId: string };
+
+// Security-relevant things that happen to an account
+export type AuditEventType =
+  | 'login'
+  | 'login_failed'
+  | 'account_locked'
+  | 'password_changed'
+  | 'kdf_upgraded'
+  | 'webauthn_added'
+  | 'webauthn_removed'
+  | 'totp_enabled'
+  | 'totp_disabled'
+  | 'recovery_codes_regenerated'
+  | 'vault_exported'
+  | 'vault_imported'
+  | 'account_deletion_scheduled'
+  | 'account_restored'
+  | 'account_exported';
+
+export interface AuditEvent {
+  id: string;
+  userId: string;
+  type: AuditEventType;
+  ipAddress: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown>; // E.g. the login method or the number of imported entries
+  createdAt: Date;
+}
+
+export interface AuditEventDTO {
+  id: string;
+  type: AuditEventType;
+  ipAddress: string | null;
+  deviceName: string;
+  details: Record<string, unknown>;
   createdAt: string;
 }
 
+export interface AuditEventPage {
+  events: AuditEventDTO[]; // Newest first
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Token bucket of one client for one group of routes
+export interface RateLimitBucket {
+  key: string;
+  tokens: number; // Requests left, refilled continuously up to the policy's capacity
+  updatedAt: Date;
+}
+
 // Vault types
 export interface VaultEntry {
   id: string;
   userId: string;
   encryptedData: string;
-  metadata: VaultEntryMetadata;
+  itemType: string;
+  revision: number;
+  legacyMetadata: VaultEntryMetadata | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -81,11 +287,14 @@ export interface VaultEntry {
 export interface VaultEntryDTO {
   id: string;
   encryptedData: string;
-  metadata: VaultEntryMetadata;
+  itemType: string;
+  revision: number;
+  legacyMetadata: VaultEntryMetadata | null; // Plaintext metadata of entries not yet migrated by a client
   createdAt: string;
   updatedAt: string;
 }
 
+// Legacy plaintext metadata; new entries keep all of this inside encryptedData
 export interface VaultEntryMetadata {
   title?: string;
   url?: string;
@@ -95,15 +304,17 @@ export interface VaultEntryMetadata {
 }
 
 export interface VaultEntryCreateData {
+  id?: string; // Client-chosen ID; generated if omitted
   userId: string;
   encryptedData: string;
-  metadata: VaultEntryMetadata;
+  itemType?: string;
 }
 
 export interface VaultEntryUpdateData {
   userId: string;
   encryptedData: string;
-  metadata: VaultEntryMetadata;
+  itemType?: string;
+  revision: number; // Revision the client last saw; the update fails if it has moved on
 }
 
 export interface VaultExportData {
@@ -117,6 +328,44 @@ export interface VaultImportResult {
   failed: number;
 }
 
+// Account takeout types
+// A session as kept on record, including revoked and expired ones not yet cleaned up
+export interface TakeoutSession {
+  id: string;
+  deviceName: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+export interface TakeoutAuditEvent {
+  id: string;
+  type: AuditEventType;
+  ipAddress: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Everything the server holds about an account; the vault stays encrypted, and no key material is included
+export interface AccountTakeout {
+  takeoutId: string;
+  exportedAt: string;
+  profile: UserDTO;
+  webauthnCredentials: WebAuthnCredentialDTO[];
+  sessions: TakeoutSession[]; // Newest first
+  auditEvents: TakeoutAuditEvent[]; // Oldest first
+  vault: VaultEntryDTO[];
+}
+
+export interface SignedAccountTakeout {
+  takeout: AccountTakeout;
+  signature: string; // HMAC-SHA256 of the takeout under the server secret, base64url
+}
+
 // Database types
 export interface DatabaseUser {
   id: string;
@@ -124,6 +373,14 @@ export interface DatabaseUser {
   username: string;
   client_salt: string;
   verifier: string;
+  wrapped_vault_key: string | null;
+  kdf_algorithm: string;
+  kdf_iterations: number;
+  kdf_memory: number;
+  kdf_parallelism: number;
+  token_version: number;
+  last_lockout_at: Date | null;
+  deletion_due_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -137,7 +394,62 @@ export interface DatabaseWebAuthnCredential {
   credential_device_type: string;
   credential_backed_up: boolean;
   transports?: string;
+  prf_wrapped_vault_key: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DatabaseTotpCredential {
+  user_id: string;
+  encrypted_secret: string;
+  enabled: boolean;
+  last_step: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DatabaseSession {
+  id: string;
+  user_id: string;
+  device_name: string;
+  ip_address: string | null;
+  user_agent: string | null;
   created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
+
+export interface DatabaseRefreshToken {
+  id: string;
+  session_id: string;
+  token_hash: string;
+  created_at: Date;
+  expires_at: Date;
+  used_at: Date | null;
+}
+
+export interface DatabaseLoginThrottle {
+  key: string;
+  failures: number;
+  lockouts: number;
+  last_failure_at: Date;
+  locked_until: Date | null;
+}
+
+export interface DatabaseAuditEvent {
+  id: string;
+  user_id: string;
+  type: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  details: string; // JSON string
+  created_at: Date;
+}
+
+export interface DatabaseRateLimitBucket {
+  key: string;
+  tokens: number;
   updated_at: Date;
 }
 
@@ -145,7 +457,9 @@ export interface DatabaseVaultEntry {
   id: string;
   user_id: string;
   encrypted_data: string;
-  metadata: string; // JSON string
+  item_type: string;
+  revision: number;
+  metadata: string; // JSON string, '{}' once a client has moved it into encrypted_data
   created_at: Date;
   updated_at: Date;
 }
\ No newline at end of file
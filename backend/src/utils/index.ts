@@ -2,7 +2,13 @@
  * Utility functions for the FalconPass backend
  */
 
-import { randomBytes } from 'crypto';
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { SessionContext, SessionTokens } from '../types';
+import { config } from '../config';
+
+// The refresh token is only sent to the user routes, which renew and end sessions
+const REFRESH_COOKIE_PATH = '/api/users';
 
 /**
  * Generate a random string of specified length
@@ -130,10 +136,170 @@ export function maskSensitiveData<T extends Record<string, any>>(
   for (const field of fieldsToMask) {
     for (const key in result) {
       if (key.toLowerCase().includes(field.toLowerCase()) && typeof result[key] === 'string') {
-        result[key] = '********';
+        (result as Record<string, any>)[key] = '********';
       }
     }
   }
   
   return result;
-}
\ No newline at end of file
+}
+
+/**
+ * Derive the AES-256 key for server-side secrets from the configured key material
+ * @param keyMaterial Secret key material from the configuration
+ * @param purpose Distinguishes keys for different kinds of secrets
+ */
+function deriveSecretKey(keyMaterial: string, purpose: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', keyMaterial, '', `falconpass/${purpose}`, 32));
+}
+
+/**
+ * Encrypt a secret the server must be able to read back, such as a TOTP seed
+ * @param plaintext Secret to encrypt
+ * @param keyMaterial Secret key material from the configuration
+ * @param purpose Distinguishes keys for different kinds of secrets
+ * @returns iv.tag.ciphertext, each base64-encoded (AES-256-GCM)
+ */
+export function encryptSecret(plaintext: string, keyMaterial: string, purpose: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveSecretKey(keyMaterial, purpose), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * @param encrypted Output of encryptSecret
+ * @param keyMaterial Secret key material from the configuration
+ * @param purpose Purpose the secret was encrypted for
+ * @returns The plaintext secret
+ */
+export function decryptSecret(encrypted: string, keyMaterial: string, purpose: string): string {
+  const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Invalid encrypted secret');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', deriveSecretKey(keyMaterial, purpose), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Sign a document the server hands out, such as a deletion receipt, so it can later vouch for it
+ * The payload is the document's JSON, so its fields must be signed and checked in the same order.
+ * @param document Document to sign
+ * @param keyMaterial Secret key material from the configuration
+ * @param purpose Distinguishes signatures for different kinds of documents
+ * @returns HMAC-SHA256 of the document, base64url-encoded
+ */
+export function signDocument(document: unknown, keyMaterial: string, purpose: string): string {
+  return createHmac('sha256', keyMaterial)
+    .update(`falconpass/${purpose}:${JSON.stringify(document)}`)
+    .digest('base64url');
+}
+
+/**
+ * Check a signature produced by signDocument
+ * @returns Whether the document was signed for this purpose and not altered since
+ */
+export function verifyDocumentSignature(
+  document: unknown,
+  signature: unknown,
+  keyMaterial: string,
+  purpose: string
+): boolean {
+  const expected = signDocument(document, keyMaterial, purpose);
+
+  return (
+    typeof signature === 'string' &&
+    signature.length === expected.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+/**
+ * Describe the device a request came from, for listing sessions
+ * @param userAgent User-Agent header, if any
+ * @returns A name like "Firefox on Linux"
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  // Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+  return browser ?? system ?? 'Unknown device';
+}
+
+/**
+ * Get what a new session should record about the request that started it
+ */
+export function getSessionContext(request: FastifyRequest): SessionContext {
+  return {
+    ipAddress: request.ip || null,
+    userAgent: request.headers['user-agent']?.slice(0, 512) ?? null,
+  };
+}
+
+/**
+ * Set the cookies of a completed login: the access token and the refresh token that renews it
+ */
+export function setSessionCookies(reply: FastifyReply, tokens: SessionTokens): void {
+  reply.setCookie('token', tokens.token, {
+    path: '/',
+    httpOnly: true,
+    secure: config.isProduction,
+    sameSite: 'strict',
+    maxAge: config.accessTokenTimeout,
+  });
+  reply.setCookie('refreshToken', tokens.refreshToken, {
+    path: REFRESH_COOKIE_PATH,
+    httpOnly: true,
+    secure: config.isProduction,
+    sameSite: 'strict',
+    maxAge: config.refreshTokenTimeout,
+  });
+}
+
+/**
+ * Clear the session cookies on logout
+ */
+export function clearSessionCookies(reply: FastifyReply): void {
+  reply.clearCookie('token', { path: '/' });
+  reply.clearCookie('refreshToken', { path: REFRESH_COOKIE_PATH });
+}
+
+/**
+ * Turn away a login attempt that came too soon after earlier failures
+ */
+export function sendTooManyAttempts(reply: FastifyReply, retryAfter: number): FastifyReply {
+  return reply
+    .code(429)
+    .header('Retry-After', String(retryAfter))
+    .send({ error: 'Too many attempts', retryAfter });
+}
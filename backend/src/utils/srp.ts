@@ -0,0 +1,181 @@
+/**
+ * SRP-6a (RFC 5054) server-side primitives
+ *
+ * Uses the 2048-bit group from RFC 5054 Appendix A with SHA-256 as the hash.
+ * All big integers cross the wire as lowercase hex strings.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 5054 2048-bit group
+const N_HEX =
+  'AC6BDB41324A9A9BF166DE5E1389582FAF72B6651987EE07FC3192943DB56050A37329CBB4' +
+  'A099ED8193E0757767A13DD52312AB4B03310DCD7F48A9DA04FD50E8083969EDB767B0CF60' +
+  '95179A163AB3661A05FBD5FAAAE82918A9962F0B93B855F97993EC975EEAA80D740ADBF4FF' +
+  '747359D041D5C33EA71D281E446B14773BCA97B43A23FB801676BD207A436C6481F1D2B907' +
+  '8717461A5B9D32E688F87748544523B524B0D57D5EA77A2775D2ECFA032CFBDBF52FB37861' +
+  '60279004E57AE6AF874E7303CE53299CCC041C7BC308D82A5698F3A8D0C38271AE35F8E9DB' +
+  'FBB694B5C803D89F7AE435DE236D525F54759B65E372FCD68EF20FA7111F9E4AFF73';
+
+export const SRP_N = BigInt(`0x${N_HEX}`);
+export const SRP_G = 2n;
+
+const N_BYTES = N_HEX.length / 2;
+const EPHEMERAL_SECRET_BYTES = 32;
+
+/**
+ * Convert a big integer to a fixed-width hex string
+ * @param value Integer to convert
+ * @param bytes Width in bytes (defaults to the size of N)
+ * @returns Zero-padded lowercase hex string
+ */
+export function toHex(value: bigint, bytes: number = N_BYTES): string {
+  return value.toString(16).padStart(bytes * 2, '0');
+}
+
+/**
+ * Parse a hex string into a big integer
+ * @param hex Hex string, with or without leading zeros
+ * @returns Parsed integer
+ */
+export function fromHex(hex: string): bigint {
+  if (!/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new Error('Invalid hex value');
+  }
+  return BigInt(`0x${hex}`);
+}
+
+/**
+ * SHA-256 over the concatenation of the given values
+ * Big integers are hashed in their padded form, strings as UTF-8.
+ * @param values Values to hash
+ * @returns Digest as a big integer
+ */
+export function hash(...values: Array<bigint | string | Buffer>): bigint {
+  const sha = createHash('sha256');
+  for (const value of values) {
+    if (typeof value === 'bigint') {
+      sha.update(Buffer.from(toHex(value), 'hex'));
+    } else if (typeof value === 'string') {
+      sha.update(value, 'utf8');
+    } else {
+      sha.update(value);
+    }
+  }
+  return BigInt(`0x${sha.digest('hex')}`);
+}
+
+/**
+ * Modular exponentiation (base^exp mod m)
+ */
+export function modPow(base: bigint, exp: bigint, m: bigint): bigint {
+  let result = 1n;
+  let b = ((base % m) + m) % m;
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % m;
+    }
+    e >>= 1n;
+    b = (b * b) % m;
+  }
+  return result;
+}
+
+// Multiplier parameter k = H(N | PAD(g))
+export const SRP_K = hash(SRP_N, SRP_G);
+
+/**
+ * Generate the server ephemeral pair for a stored verifier
+ * @param verifierHex Stored verifier v = g^x mod N
+ * @returns Secret b and public B = k*v + g^b mod N, both as hex
+ */
+export function generateServerEphemeral(verifierHex: string): { secret: string; public: string } {
+  const v = fromHex(verifierHex);
+  const b = fromHex(randomBytes(EPHEMERAL_SECRET_BYTES).toString('hex'));
+  const B = (SRP_K * v + modPow(SRP_G, b, SRP_N)) % SRP_N;
+
+  return {
+    secret: toHex(b, EPHEMERAL_SECRET_BYTES),
+    public: toHex(B),
+  };
+}
+
+/**
+ * Compute the client proof M1 = H(H(N) xor H(g) | H(I) | s | A | B | K)
+ */
+export function computeClientProof(
+  identity: string,
+  salt: string,
+  A: bigint,
+  B: bigint,
+  K: bigint
+): bigint {
+  const hNxorG = hash(SRP_N) ^ hash(SRP_G);
+  return hash(
+    Buffer.from(toHex(hNxorG, 32), 'hex'),
+    Buffer.from(toHex(hash(identity), 32), 'hex'),
+    salt,
+    A,
+    B,
+    Buffer.from(toHex(K, 32), 'hex')
+  );
+}
+
+/**
+ * Compute the server proof M2 = H(A | M1 | K)
+ */
+export function computeServerProof(A: bigint, M1: bigint, K: bigint): bigint {
+  return hash(A, Buffer.from(toHex(M1, 32), 'hex'), Buffer.from(toHex(K, 32), 'hex'));
+}
+
+/**
+ * Verify a client's SRP-6a session proof
+ * @param params Values from the stored challenge and the client's response
+ * @returns Server proof M2 (hex) if the client proof is valid
+ * @throws Error('Invalid credentials') if the proof does not match
+ */
+export function verifySession(params: {
+  identity: string;
+  salt: string;
+  verifier: string;
+  serverSecret: string;
+  serverPublic: string;
+  clientPublic: string;
+  clientProof: string;
+}): { serverProof: string } {
+  if (!/^[0-9a-fA-F]{64}$/.test(params.clientProof) || !/^[0-9a-fA-F]+$/.test(params.clientPublic)) {
+    throw new Error('Invalid credentials');
+  }
+
+  const A = fromHex(params.clientPublic);
+  const B = fromHex(params.serverPublic);
+  const b = fromHex(params.serverSecret);
+  const v = fromHex(params.verifier);
+
+  // Safeguard against a malicious client: A mod N must not be zero
+  if (A % SRP_N === 0n) {
+    throw new Error('Invalid credentials');
+  }
+
+  const u = hash(A, B);
+  if (u === 0n) {
+    throw new Error('Invalid credentials');
+  }
+
+  const S = modPow(A * modPow(v, u, SRP_N), b, SRP_N);
+  const K = hash(S);
+
+  const expected = Buffer.from(toHex(computeClientProof(params.identity, params.salt, A, B, K), 32), 'hex');
+  const received = Buffer.from(params.clientProof, 'hex');
+
+  if (!timingSafeEqual(received, expected)) {
+    throw new Error('Invalid credentials');
+  }
+
+  const M1 = fromHex(params.clientProof);
+
+  return {
+    serverProof: toHex(computeServerProof(A, M1, K), 32),
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * TOTP (RFC 6238) primitives
+ *
+ * HMAC-SHA1 with 6 digits and a 30 second period, the defaults every
+ * authenticator app understands. Secrets cross the wire as unpadded base32.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD = 30; // Seconds per time step
+export const TOTP_DRIFT_STEPS = 1; // Steps accepted either side of the current one
+
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as unpadded base32 (RFC 4648)
+ * @param data Bytes to encode
+ * @returns Uppercase base32 string
+ */
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ * @param input Base32 string
+ * @returns Decoded bytes
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 value');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(output);
+}
+
+/**
+ * Generate a new random TOTP secret
+ * @returns Base32-encoded 160-bit secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Time step for a point in time
+ * @param now Epoch milliseconds
+ */
+export function totpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * HOTP (RFC 4226) value for a counter
+ * @param secret Base32-encoded secret
+ * @param counter Moving factor; the time step for TOTP
+ * @returns Zero-padded code
+ */
+export function generateHotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+
+  // Dynamic truncation
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Check a code against the steps around the current time
+ * Steps at or before lastStep were already used and never match, which
+ * stops a code from being replayed within its validity window.
+ * @param secret Base32-encoded secret
+ * @param code Code entered by the user
+ * @param lastStep Step of the last accepted code, if any
+ * @param now Epoch milliseconds
+ * @returns The matched step, or null if the code is wrong or already used
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastStep: number | null = null,
+  now: number = Date.now()
+): number | null {
+  const candidate = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(candidate)) {
+    return null;
+  }
+
+  const current = totpStep(now);
+  let matched: number | null = null;
+
+  // Check every step in the window so the timing does not reveal which one matched
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    const expected = generateHotp(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(candidate)) && matched === null) {
+      matched = step;
+    }
+  }
+
+  if (matched === null || (lastStep !== null && matched <= lastStep)) {
+    return null;
+  }
+
+  return matched;
+}
+
+/**
+ * Build the otpauth:// URI authenticator apps read from a QR code
+ * @param secret Base32-encoded secret
+ * @param accountName Account label, usually the email
+ * @param issuer Service name shown by the app
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
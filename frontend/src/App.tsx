@@ -2,6 +2,8 @@ import { useState } from 'react'
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { ThemeProvider, createTheme, CssBaseline, Box, Container, Paper } from '@mui/material'
 import { authService } from './services/authService'
+import { useAuthStore } from './store/auth'
+import { useLockStore } from './store/lock'
 import { LanguageProvider } from './contexts/LanguageContext'
 import './i18n'
 import './App.css'
@@ -10,6 +12,7 @@ import './App.css'
 import AppLayout from './components/layout/AppLayout'
 import Login from './components/auth/Login'
 import Register from './components/auth/Register'
+import Unlock from './components/auth/Unlock'
 import Dashboard from './components/dashboard/Dashboard'
 import Vault from './components/vault/Vault'
 import VaultEntryForm from './components/vault/VaultEntryForm'
@@ -29,6 +32,7 @@ function App() {
   // State management
   const [isAuthenticated, setIsAuthenticated] = useState(mockAuthState.isAuthenticated)
   const [darkMode, setDarkMode] = useState(true) // Default to dark mode for cyberpunk theme
+  const sessionLocked = useLockStore((state) => state.sessionLocked)
 
   // Cyberpunk theme with neon colors and futuristic styling
   const theme = createTheme({
@@ -224,6 +228,8 @@ function App() {
     setIsAuthenticated(false)
     // Also update the authService for components that check it
     authService.setAuthenticated(false, null)
+    // Drop any keys and end the server session as well
+    useAuthStore.getState().logout()
   }
 
   // Cyberpunk background wrapper with grid pattern and scan line
@@ -343,6 +349,20 @@ function App() {
               )
             }
           />
+          <Route
+            path="/unlock"
+            element={
+              !isAuthenticated ? (
+                <Navigate to="/login" />
+              ) : sessionLocked ? (
+                <AuthContainer>
+                  <Unlock onLogout={handleLogout} />
+                </AuthContainer>
+              ) : (
+                <Navigate to="/dashboard" />
+              )
+            }
+          />
           <Route
             path="/"
             element={
@@ -19,6 +19,7 @@ import {
 } from '@mui/material';
 import { Visibility, VisibilityOff, Fingerprint } from '@mui/icons-material';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useAuthStore } from '../../store/auth';
 
 interface LoginProps {
   onLogin?: () => void;
@@ -32,6 +33,7 @@ const Login = ({ onLogin }: LoginProps) => {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const loginWithPasskey = useAuthStore((state) => state.loginWithPasskey);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,21 +71,18 @@ const Login = ({ onLogin }: LoginProps) => {
     setLoading(true);
     
     try {
-      // TODO: Implement WebAuthn login logic
-      console.log('Attempting WebAuthn login');
-      
-      // Simulate successful login
-      setTimeout(() => {
-        setLoading(false);
-        // Call the onLogin function from props if it exists
-        if (onLogin) {
-          onLogin();
-        }
-        navigate('/dashboard');
-      }, 1000);
+      // No username needed: the passkey identifies the account
+      await loginWithPasskey();
+      setLoading(false);
+      // Call the onLogin function from props if it exists
+      if (onLogin) {
+        onLogin();
+      }
+      // A passkey that cannot unlock the vault lands on the unlock screen from here
+      navigate('/dashboard');
     } catch (err) {
       setLoading(false);
-      setError(t('auth.loginFailed'));
+      setError(t('auth.passkeyLoginFailed'));
       console.error('WebAuthn error:', err);
     }
   };
@@ -314,7 +313,7 @@ const Login = ({ onLogin }: LoginProps) => {
               },
             }}
             >
-              {t('auth.signIn').toUpperCase()}
+              {t('auth.signInWithPasskey').toUpperCase()}
             </Button>
           
           <Box className="text-center mt-4">
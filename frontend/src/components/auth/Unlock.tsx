@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  Link,
+  OutlinedInput,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { Fingerprint, Lock, Visibility, VisibilityOff } from '@mui/icons-material';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useAuthStore } from '../../store/auth';
+import { useLockStore } from '../../store/lock';
+
+interface UnlockProps {
+  onLogout?: () => void;
+}
+
+// Unlock screen shown after the vault locks while the session stays signed in
+const Unlock = ({ onLogout }: UnlockProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { t } = useLanguage();
+  const user = useAuthStore((state) => state.user);
+  const unlock = useLockStore((state) => state.unlock);
+  const unlockWithPin = useLockStore((state) => state.unlockWithPin);
+  const unlockWithPasskey = useLockStore((state) => state.unlockWithPasskey);
+  const quickUnlock = useLockStore((state) => state.quickUnlock);
+  const unlocking = useLockStore((state) => state.status === 'unlocking');
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [preferPassword, setPreferPassword] = useState(false);
+  const [error, setError] = useState('');
+
+  // Quick unlock is offered first when set up; it disappears once its attempts run out
+  const usePin = quickUnlock === 'pin' && !preferPassword;
+  const secretLabel = usePin ? t('auth.pin') : t('auth.masterPassword');
+
+  // Where the user was when the vault locked
+  const returnTo = (location.state as { from?: string } | null)?.from || '/dashboard';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!password) {
+      setError(t('auth.allFieldsRequired'));
+      return;
+    }
+
+    try {
+      await (usePin ? unlockWithPin(password) : unlock(password));
+      setPassword('');
+      navigate(returnTo, { replace: true });
+    } catch (err) {
+      setPassword('');
+      setError(err instanceof Error ? err.message : t('auth.unlockFailed'));
+    }
+  };
+
+  const handlePasskeyUnlock = async () => {
+    setError('');
+    try {
+      await unlockWithPasskey();
+      navigate(returnTo, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('auth.unlockFailed'));
+    }
+  };
+
+  const toggleUnlockMethod = () => {
+    setPreferPassword(!preferPassword);
+    setPassword('');
+    setError('');
+  };
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <Card
+        elevation={3}
+        className="w-full cyber-glow"
+        sx={{
+          background: 'linear-gradient(135deg, rgba(26, 26, 26, 0.95), rgba(42, 42, 42, 0.95))',
+          border: '2px solid #00FFFF',
+          borderRadius: 4,
+        }}
+      >
+        <CardContent className="p-8">
+          <Box className="text-center mb-6">
+            <Lock sx={{ fontSize: 48, color: '#00FFFF', mb: 1 }} />
+            <Typography
+              variant="h4"
+              component="h1"
+              className="cyber-text"
+              sx={{
+                fontFamily: 'Orbitron',
+                fontWeight: 900,
+                color: '#00FFFF',
+              }}
+            >
+              {t('auth.vaultLocked')}
+            </Typography>
+            <Typography
+              variant="body1"
+              className="mt-2"
+              sx={{
+                color: '#E0FFFF',
+                fontFamily: 'JetBrains Mono',
+              }}
+            >
+              {t('auth.vaultLockedDescription')}
+            </Typography>
+            {user && (
+              <Typography variant="body2" sx={{ color: '#FF0080', fontFamily: 'JetBrains Mono', mt: 1 }}>
+                {user.email}
+              </Typography>
+            )}
+          </Box>
+
+          {error && (
+            <Alert severity="error" className="mb-4">
+              {error}
+            </Alert>
+          )}
+
+          {quickUnlock === 'prf' && (
+            <Button
+              fullWidth
+              variant="outlined"
+              size="large"
+              startIcon={<Fingerprint />}
+              onClick={handlePasskeyUnlock}
+              disabled={unlocking}
+              sx={{
+                mb: 2,
+                fontFamily: 'Orbitron',
+                fontWeight: 700,
+                border: '2px solid #FF0080',
+                color: '#FF0080',
+                py: 2,
+              }}
+            >
+              {t('auth.unlockWithPasskey').toUpperCase()}
+            </Button>
+          )}
+
+          <form onSubmit={handleSubmit}>
+            <FormControl variant="outlined" fullWidth margin="normal" sx={{ mb: 3 }}>
+              <InputLabel
+                htmlFor="unlock-password"
+                sx={{
+                  color: '#E0FFFF',
+                  fontFamily: 'JetBrains Mono',
+                  fontWeight: 600,
+                }}
+              >
+                {secretLabel.toUpperCase()}
+              </InputLabel>
+              <OutlinedInput
+                id="unlock-password"
+                type={showPassword ? 'text' : 'password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={usePin ? 'off' : 'current-password'}
+                inputProps={usePin ? { inputMode: 'numeric', pattern: '[0-9]*' } : undefined}
+                autoFocus
+                sx={{
+                  fontFamily: 'JetBrains Mono',
+                  background: 'rgba(26, 26, 26, 0.8)',
+                  border: '2px solid #00FFFF',
+                  borderRadius: 2,
+                  color: '#FFFFFF',
+                }}
+                endAdornment={
+                  <InputAdornment position="end">
+                    <IconButton
+                      aria-label={t('auth.togglePasswordVisibility')}
+                      onClick={() => setShowPassword(!showPassword)}
+                      edge="end"
+                      sx={{ color: '#00FFFF' }}
+                    >
+                      {showPassword ? <VisibilityOff /> : <Visibility />}
+                    </IconButton>
+                  </InputAdornment>
+                }
+                label={secretLabel.toUpperCase()}
+              />
+            </FormControl>
+
+            <Button
+              type="submit"
+              fullWidth
+              variant="contained"
+              size="large"
+              disabled={unlocking}
+              className="cyber-button"
+              sx={{
+                mb: 3,
+                fontFamily: 'Orbitron',
+                fontWeight: 700,
+                letterSpacing: '2px',
+                background: 'linear-gradient(45deg, rgba(0, 255, 255, 0.1), rgba(255, 0, 128, 0.1))',
+                border: '2px solid #00FFFF',
+                color: '#00FFFF',
+                py: 2,
+              }}
+            >
+              {unlocking ? t('auth.unlocking').toUpperCase() : t('auth.unlock').toUpperCase()}
+            </Button>
+          </form>
+
+          {quickUnlock === 'pin' && (
+            <Box className="text-center" sx={{ mb: 2 }}>
+              <Link
+                component="button"
+                type="button"
+                onClick={toggleUnlockMethod}
+                sx={{ color: '#00FFFF', fontFamily: 'JetBrains Mono' }}
+              >
+                {usePin ? t('auth.useMasterPassword') : t('auth.usePin')}
+              </Link>
+            </Box>
+          )}
+
+          {onLogout && (
+            <Box className="text-center">
+              <Link
+                component="button"
+                type="button"
+                onClick={onLogout}
+                sx={{ color: '#FF0080', fontFamily: 'JetBrains Mono' }}
+              >
+                {t('auth.signOutInstead')}
+              </Link>
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default Unlock;
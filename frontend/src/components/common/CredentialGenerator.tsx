@@ -14,12 +14,14 @@ import {
 import { Refresh, ContentCopy } from '@mui/icons-material';
 import PasswordGenerator from './PasswordGenerator';
 import TempEmailGenerator from './TempEmailGenerator';
+import { useClipboardStore } from '../../store/clipboard';
 
 interface CredentialGeneratorProps {
   onCredentialsGenerated?: (credentials: { email: string; password: string }) => void;
 }
 
 const CredentialGenerator = ({ onCredentialsGenerated }: CredentialGeneratorProps) => {
+  const copyToClipboard = useClipboardStore((state) => state.copy);
   const [generatedEmail, setGeneratedEmail] = useState<string>('');
   const [generatedPassword, setGeneratedPassword] = useState<string>('');
   const [snackbarOpen, setSnackbarOpen] = useState<boolean>(false);
@@ -84,10 +86,14 @@ const CredentialGenerator = ({ onCredentialsGenerated }: CredentialGeneratorProp
     }
   };
   
-  const copyBothCredentials = () => {
+  const copyBothCredentials = async () => {
     const text = `Email: ${generatedEmail}\nPassword: ${generatedPassword}`;
-    navigator.clipboard.writeText(text);
-    showSnackbar('Credentials copied to clipboard!', 'success');
+    try {
+      await copyToClipboard(text);
+      showSnackbar('Credentials copied to clipboard!', 'success');
+    } catch {
+      showSnackbar('Could not access the clipboard', 'error');
+    }
   };
   
   const showSnackbar = (message: string, severity: 'success' | 'info' | 'warning' | 'error') => {
@@ -14,6 +14,7 @@ import {
   LinearProgress,
 } from '@mui/material';
 import { ContentCopy, Refresh, Check } from '@mui/icons-material';
+import { useClipboardStore } from '../../store/clipboard';
 
 interface PasswordGeneratorProps {
   onSelectPassword?: (password: string) => void;
@@ -22,6 +23,7 @@ interface PasswordGeneratorProps {
 }
 
 const PasswordGenerator = ({ onSelectPassword, onPasswordGenerated, standalone = false }: PasswordGeneratorProps) => {
+  const copyToClipboard = useClipboardStore((state) => state.copy);
   const [length, setLength] = useState<number>(16);
   const [includeUppercase, setIncludeUppercase] = useState<boolean>(true);
   const [includeLowercase, setIncludeLowercase] = useState<boolean>(true);
@@ -134,10 +136,14 @@ const PasswordGenerator = ({ onSelectPassword, onPasswordGenerated, standalone =
     setStrength(Math.max(0, Math.min(100, score)));
   };
 
-  const handleCopyPassword = () => {
-    navigator.clipboard.writeText(password);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  const handleCopyPassword = async () => {
+    try {
+      await copyToClipboard(password);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
   };
 
   const handleUsePassword = () => {
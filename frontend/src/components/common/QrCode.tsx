@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { Box } from '@mui/material';
+import { encodeQrCode } from '../../services/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number; // Rendered width and height in pixels
+  label?: string;
+}
+
+// Modules of light border scanners need around the symbol
+const QUIET_ZONE = 4;
+
+// QR code drawn locally as SVG, so the encoded secret never leaves the browser
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 200, label = 'QR code' }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const commands: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) {
+          commands.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+        }
+      });
+    });
+    return { path: commands.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <Box
+      component="svg"
+      role="img"
+      aria-label={label}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      sx={{ width: size, height: size, display: 'block' }}
+    >
+      <rect width={dimension} height={dimension} fill="#FFFFFF" />
+      <path d={path} fill="#000000" />
+    </Box>
+  );
+};
+
+export default QrCode;
@@ -15,6 +15,7 @@ import {
 } from '@mui/material';
 import { Refresh, ContentCopy, Check } from '@mui/icons-material';
 import tempEmailService, { generateTempEmail, TEMP_EMAIL_DOMAINS } from '../../services/tempEmailService';
+import { useClipboardStore } from '../../store/clipboard';
 
 interface TempEmailGeneratorProps {
   onEmailGenerated?: (email: string) => void;
@@ -22,6 +23,7 @@ interface TempEmailGeneratorProps {
 }
 
 const TempEmailGenerator = ({ onEmailGenerated, standalone = false }: TempEmailGeneratorProps) => {
+  const copyToClipboard = useClipboardStore((state) => state.copy);
   const [email, setEmail] = useState<string>('');
   const [copied, setCopied] = useState<boolean>(false);
   const [includeTimestamp, setIncludeTimestamp] = useState<boolean>(true);
@@ -47,10 +49,14 @@ const TempEmailGenerator = ({ onEmailGenerated, standalone = false }: TempEmailG
   };
   
   // Copy email to clipboard
-  const handleCopyEmail = () => {
-    navigator.clipboard.writeText(email);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  const handleCopyEmail = async () => {
+    try {
+      await copyToClipboard(email);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
   };
   
   // Use the generated email
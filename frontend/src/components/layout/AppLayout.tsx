@@ -1,8 +1,12 @@
-import { useState } from 'react';
-import { Outlet } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { Box, CssBaseline, ThemeProvider, createTheme } from '@mui/material';
 import Navbar from './Navbar';
 import Sidebar from './Sidebar';
+import ClipboardCountdown from './ClipboardCountdown';
+import { useLockStore } from '../../store/lock';
+import { useSettingsStore } from '../../store/settings';
+import { startInactivityMonitor } from '../../services/autoLock';
 
 // Create a responsive theme with light/dark mode support
 const getTheme = (mode: 'light' | 'dark') => createTheme({
@@ -43,11 +47,29 @@ interface AppLayoutProps {
 
 const AppLayout = ({ darkMode, toggleDarkMode, onLogout }: AppLayoutProps) => {
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(true);
+  const location = useLocation();
+  const autoLockTimeout = useSettingsStore((state) => state.autoLockTimeout);
+  const lockStatus = useLockStore((state) => state.status);
+  const sessionLocked = useLockStore((state) => state.sessionLocked);
+  const lock = useLockStore((state) => state.lock);
   
   const theme = getTheme(darkMode ? 'dark' : 'light');
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
 
+  // Auto-lock after inactivity; only an unlocked vault has anything to lock
+  useEffect(() => {
+    if (lockStatus !== 'unlocked') {
+      return;
+    }
+    return startInactivityMonitor(autoLockTimeout, lock);
+  }, [autoLockTimeout, lockStatus, lock]);
+
+  // Locking wipes keys and entries; the session stays, so ask for the master password again
+  if (sessionLocked) {
+    return <Navigate to="/unlock" state={{ from: location.pathname }} replace />;
+  }
+
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
@@ -88,6 +110,7 @@ const AppLayout = ({ darkMode, toggleDarkMode, onLogout }: AppLayoutProps) => {
             <Outlet />
           </Box>
         </Box>
+        <ClipboardCountdown />
       </Box>
     </ThemeProvider>
   );
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { Box, Chip, CircularProgress } from '@mui/material';
+import { ContentPaste } from '@mui/icons-material';
+import { useClipboardStore } from '../../store/clipboard';
+
+// Countdown until copied secrets are cleared from the clipboard
+const ClipboardCountdown = () => {
+  const clearsAt = useClipboardStore((state) => state.clearsAt);
+  const clearAfter = useClipboardStore((state) => state.clearAfter);
+  const clearNow = useClipboardStore((state) => state.clearNow);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (clearsAt === null) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [clearsAt]);
+
+  if (clearsAt === null) {
+    return null;
+  }
+
+  const secondsLeft = Math.max(0, Math.ceil((clearsAt - now) / 1000));
+  const progress = clearAfter > 0 ? (secondsLeft / clearAfter) * 100 : 0;
+
+  return (
+    <Box sx={{ position: 'fixed', bottom: 24, right: 24, zIndex: (theme) => theme.zIndex.snackbar }}>
+      <Chip
+        color="primary"
+        variant="outlined"
+        icon={<ContentPaste />}
+        label={
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {secondsLeft > 0 ? `Clipboard clears in ${secondsLeft}s` : 'Clearing clipboard...'}
+            <CircularProgress variant="determinate" value={progress} size={16} thickness={5} />
+          </Box>
+        }
+        onDelete={() => void clearNow()}
+        sx={{ backgroundColor: 'background.paper', boxShadow: 3 }}
+      />
+    </Box>
+  );
+};
+
+export default ClipboardCountdown;
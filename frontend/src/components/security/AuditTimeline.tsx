@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import {
+  Block,
+  CloudDownload,
+  CloudUpload,
+  DeleteForever,
+  ErrorOutline,
+  Fingerprint,
+  History,
+  Key,
+  Login,
+  PhonelinkLock,
+  Restore,
+} from '@mui/icons-material';
+import { getAuditEvents } from '../../services/auth';
+import type { AuditEventInfo, AuditEventType } from '../../types/api.types';
+
+const PAGE_SIZE = 20;
+
+// Filter chips, each covering the event types it names
+const FILTERS: { label: string; types: AuditEventType[] }[] = [
+  { label: 'Sign-ins', types: ['login'] },
+  { label: 'Failed sign-ins', types: ['login_failed', 'account_locked'] },
+  {
+    label: 'Two-factor changes',
+    types: ['webauthn_added', 'webauthn_removed', 'totp_enabled', 'totp_disabled', 'recovery_codes_regenerated'],
+  },
+  { label: 'Password changes', types: ['password_changed', 'kdf_upgraded'] },
+  { label: 'Exports & imports', types: ['vault_exported', 'vault_imported', 'account_exported'] },
+  { label: 'Account deletion', types: ['account_deletion_scheduled', 'account_restored'] },
+];
+
+const METHOD_LABELS: Record<string, string> = {
+  password: 'password',
+  webauthn: 'security key',
+  passkey: 'passkey',
+  totp: 'authenticator code',
+  recovery: 'recovery code',
+};
+
+/**
+ * Describe an event in a sentence
+ */
+function describeEvent(event: AuditEventInfo): string {
+  const method = METHOD_LABELS[String(event.details.method)] ?? 'unknown method';
+
+  switch (event.type) {
+    case 'login':
+      return `Signed in with ${method}`;
+    case 'login_failed':
+      return `Failed sign-in with ${method}`;
+    case 'account_locked':
+      return event.details.until
+        ? `Sign-ins locked until ${new Date(String(event.details.until)).toLocaleString()}`
+        : 'Sign-ins locked';
+    case 'password_changed':
+      return 'Master password changed';
+    case 'kdf_upgraded':
+      return 'Key derivation strengthened';
+    case 'webauthn_added':
+      return 'Security key added';
+    case 'webauthn_removed':
+      return 'Security key removed';
+    case 'totp_enabled':
+      return 'Authenticator app enabled';
+    case 'totp_disabled':
+      return 'Authenticator app disabled';
+    case 'recovery_codes_regenerated':
+      return 'New recovery codes generated';
+    case 'vault_exported':
+      return `Vault exported (${event.details.entries ?? 0} entries)`;
+    case 'vault_imported':
+      return event.details.failed
+        ? `Vault imported (${event.details.imported} entries, ${event.details.failed} failed)`
+        : `Vault imported (${event.details.imported ?? 0} entries)`;
+    case 'account_deletion_scheduled':
+      return `Account deletion requested, final on ${new Date(String(event.details.purgeAt)).toLocaleString()}`;
+    case 'account_restored':
+      return 'Account deletion cancelled';
+    case 'account_exported':
+      return 'Account data exported';
+  }
+}
+
+/**
+ * Pick the icon of an event
+ */
+function eventIcon(type: AuditEventType) {
+  switch (type) {
+    case 'login':
+      return <Login color="success" />;
+    case 'login_failed':
+      return <ErrorOutline color="warning" />;
+    case 'account_locked':
+      return <Block color="error" />;
+    case 'password_changed':
+    case 'kdf_upgraded':
+      return <Key color="primary" />;
+    case 'webauthn_added':
+    case 'webauthn_removed':
+      return <Fingerprint color="primary" />;
+    case 'totp_enabled':
+    case 'totp_disabled':
+    case 'recovery_codes_regenerated':
+      return <PhonelinkLock color="primary" />;
+    case 'vault_exported':
+    case 'account_exported':
+      return <CloudDownload color="primary" />;
+    case 'vault_imported':
+      return <CloudUpload color="primary" />;
+    case 'account_deletion_scheduled':
+      return <DeleteForever color="error" />;
+    case 'account_restored':
+      return <Restore color="success" />;
+  }
+}
+
+/**
+ * Timeline of the account's security events, newest first
+ */
+const AuditTimeline: React.FC = () => {
+  const [filter, setFilter] = useState<number | null>(null);
+  const [events, setEvents] = useState<AuditEventInfo[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+
+    getAuditEvents(page, PAGE_SIZE, filter === null ? [] : FILTERS[filter].types)
+      .then((result) => {
+        if (cancelled) return;
+        setEvents(previous => (page === 1 ? result.events : [...previous, ...result.events]));
+        setTotal(result.total);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load security events');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filter, page]);
+
+  const handleFilter = (index: number) => {
+    setFilter(filter === index ? null : index);
+    setPage(1);
+  };
+
+  return (
+    <Card elevation={2}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6">Account Activity</Typography>
+          <History color="primary" fontSize="large" />
+        </Box>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          {FILTERS.map((option, index) => (
+            <Chip
+              key={option.label}
+              label={option.label}
+              color={filter === index ? 'primary' : 'default'}
+              variant={filter === index ? 'filled' : 'outlined'}
+              onClick={() => handleFilter(index)}
+            />
+          ))}
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!loading && !error && events.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            No matching activity yet
+          </Typography>
+        ) : (
+          <List>
+            {events.map((event) => (
+              <ListItem key={event.id} divider>
+                <ListItemIcon>{eventIcon(event.type)}</ListItemIcon>
+                <ListItemText
+                  primary={describeEvent(event)}
+                  secondary={`${new Date(event.createdAt).toLocaleString()} · ${event.deviceName} · ${
+                    event.ipAddress ?? 'Unknown IP'
+                  }`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {events.length < total && (
+          <Box sx={{ textAlign: 'center', mt: 2 }}>
+            <Button variant="outlined" onClick={() => setPage(page + 1)} disabled={loading}>
+              Load More
+            </Button>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditTimeline;
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import axios from 'axios';
 import { Box, Typography, Card, CardContent, LinearProgress, Grid, Chip, Alert } from '@mui/material';
 import { Security as SecurityIcon, Warning, CheckCircle } from '@mui/icons-material';
+import AuditTimeline from './AuditTimeline';
 
 interface SecurityStats {
   securityScore: number;
@@ -60,15 +61,12 @@ const Security: React.FC = () => {
     return <Box sx={{ width: '100%', mt: 4 }}><LinearProgress /></Box>;
   }
 
-  if (error) {
-    return <Alert severity="error">{error}</Alert>;
-  }
-
   return (
     <Box sx={{ flexGrow: 1, py: 3 }}>
       <Typography variant="h4" component="h1" gutterBottom>
         Security Report
       </Typography>
+      {error && <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>}
       <Grid container spacing={3}>
         <Grid item xs={12} md={6}>
           <Card elevation={2}>
@@ -136,6 +134,9 @@ const Security: React.FC = () => {
           </Card>
         </Grid>
       </Grid>
+      <Box sx={{ mt: 3 }}>
+        <AuditTimeline />
+      </Box>
     </Box>
   );
 };
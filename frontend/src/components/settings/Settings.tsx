@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -22,6 +22,7 @@ import {
   DialogContent,
   DialogContentText,
   DialogActions,
+  LinearProgress,
 } from '@mui/material';
 import {
   Security,
@@ -33,7 +34,36 @@ import {
   Key,
   Refresh,
   Download,
+  Pin,
+  QrCode2,
+  Logout,
 } from '@mui/icons-material';
+import { useAuthStore } from '../../store/auth';
+import { useLockStore } from '../../store/lock';
+import { useSettingsStore } from '../../store/settings';
+import { useVaultStore } from '../../store/vault';
+import { isPasskeyUnlockAvailable } from '../../services/quickUnlock';
+import {
+  getWebAuthnCredentials,
+  deleteWebAuthnCredential,
+  isTotpEnabled,
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTotp,
+  getRecoveryCodeCount,
+  regenerateRecoveryCodes,
+  getSessions,
+  revokeSession,
+  logoutEverywhere,
+  getLastLockout,
+  getPendingDeletion,
+  deleteAccount,
+  restoreAccount,
+  getTakeout,
+} from '../../services/auth';
+import QrCode from '../common/QrCode';
+import type { PasswordChangeStep, SecondFactorResponse, TotpEnrollment, WebAuthnCredential } from '../../types';
+import type { SessionInfo } from '../../types/api.types';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -61,6 +91,25 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
+const passwordChangeStepLabels: Record<PasswordChangeStep, string> = {
+  verifying: 'Verifying current password...',
+  deriving: 'Deriving new keys...',
+  saving: 'Saving new credentials...',
+};
+
+/**
+ * Save data as a JSON file through the browser's download
+ */
+function downloadJson(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function a11yProps(index: number) {
   return {
     id: `settings-tab-${index}`,
@@ -81,25 +130,109 @@ const Settings = () => {
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [passwordError, setPasswordError] = useState('');
+  const [passwordSuccess, setPasswordSuccess] = useState('');
+  const [passwordChangeStep, setPasswordChangeStep] = useState<PasswordChangeStep | null>(null);
+  const changePassword = useAuthStore((state) => state.changePassword);
   
   // Settings states
-  const [autoLockTimeout, setAutoLockTimeout] = useState(15);
+  const autoLockTimeout = useSettingsStore((state) => state.autoLockTimeout);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
   const [enableBiometrics, setEnableBiometrics] = useState(true);
   const [enableAutoFill, setEnableAutoFill] = useState(true);
-  const [clearClipboard, setClearClipboard] = useState(true);
-  const [clearClipboardTimeout, setClearClipboardTimeout] = useState(30);
+  const clearClipboardAfter = useSettingsStore((state) => state.clearClipboardAfter);
+
+  // Quick unlock states
+  const quickUnlock = useLockStore((state) => state.quickUnlock);
+  const enablePinUnlock = useLockStore((state) => state.enablePinUnlock);
+  const enablePasskeyUnlock = useLockStore((state) => state.enablePasskeyUnlock);
+  const disableQuickUnlock = useLockStore((state) => state.disableQuickUnlock);
+  const [pin, setPin] = useState('');
+  const [quickUnlockError, setQuickUnlockError] = useState('');
+  const [quickUnlockSuccess, setQuickUnlockSuccess] = useState('');
+  const [quickUnlockBusy, setQuickUnlockBusy] = useState(false);
   
-  // Mock WebAuthn credentials
-  const [webAuthnDevices, setWebAuthnDevices] = useState([
-    { id: '1', name: 'Windows Hello', lastUsed: '2023-09-15' },
-    { id: '2', name: 'YubiKey 5', lastUsed: '2023-09-10' },
-  ]);
+  // WebAuthn credentials
+  const registerPasskey = useAuthStore((state) => state.registerPasskey);
+  const [webAuthnDevices, setWebAuthnDevices] = useState<WebAuthnCredential[]>([]);
+  const [webAuthnError, setWebAuthnError] = useState('');
+  const [removeDeviceId, setRemoveDeviceId] = useState<string | null>(null);
+  const [removeDevicePassword, setRemoveDevicePassword] = useState('');
+  const [removeDeviceCode, setRemoveDeviceCode] = useState('');
+  const [removeDeviceError, setRemoveDeviceError] = useState('');
+  const [removeDeviceBusy, setRemoveDeviceBusy] = useState(false);
+
+  // Authenticator app (TOTP)
+  const [totpEnabled, setTotpEnabled] = useState(false);
+  const [totpEnrollment, setTotpEnrollment] = useState<TotpEnrollment | null>(null);
+  const [totpCode, setTotpCode] = useState('');
+  const [totpError, setTotpError] = useState('');
+  const [totpSuccess, setTotpSuccess] = useState('');
+  const [totpBusy, setTotpBusy] = useState(false);
+
+  // Recovery codes; new ones are only held here until the page is left
+  const [recoveryCodesRemaining, setRecoveryCodesRemaining] = useState<number | null>(null);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [recoveryError, setRecoveryError] = useState('');
+  const [recoveryBusy, setRecoveryBusy] = useState(false);
+  const [regenerateDialogOpen, setRegenerateDialogOpen] = useState(false);
+  const [regeneratePassword, setRegeneratePassword] = useState('');
+  const [regenerateCode, setRegenerateCode] = useState('');
+  const [regenerateError, setRegenerateError] = useState('');
+
+  // Signed-in sessions
+  const logout = useAuthStore((state) => state.logout);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [sessionsError, setSessionsError] = useState('');
+  const [sessionsBusy, setSessionsBusy] = useState(false);
+
+  // Last time failed logins locked the account, if ever
+  const [lastLockoutAt, setLastLockoutAt] = useState<string | null>(null);
+
+  // Account deletion
+  const user = useAuthStore((state) => state.user);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteCode, setDeleteCode] = useState('');
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [deleteGracePeriod, setDeleteGracePeriod] = useState(true);
+  const [deleteError, setDeleteError] = useState('');
+  const [deleteBusy, setDeleteBusy] = useState(false);
+  const [pendingDeletionAt, setPendingDeletionAt] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState('');
+
+  // Account data export
+  const decryptTakeout = useVaultStore((state) => state.decryptTakeout);
+  const [exportReadable, setExportReadable] = useState(false);
+  const [exportError, setExportError] = useState('');
+  const [exportBusy, setExportBusy] = useState(false);
+
+  useEffect(() => {
+    getWebAuthnCredentials()
+      .then(setWebAuthnDevices)
+      .catch((error) => setWebAuthnError(error instanceof Error ? error.message : 'Failed to load devices'));
+    isTotpEnabled()
+      .then(setTotpEnabled)
+      .catch((error) => setTotpError(error instanceof Error ? error.message : 'Failed to load authenticator status'));
+    getRecoveryCodeCount()
+      .then(setRecoveryCodesRemaining)
+      .catch((error) => setRecoveryError(error instanceof Error ? error.message : 'Failed to load recovery codes'));
+    getSessions()
+      .then(setSessions)
+      .catch((error) => setSessionsError(error instanceof Error ? error.message : 'Failed to load sessions'));
+    getLastLockout()
+      .then(setLastLockoutAt)
+      .catch(() => setLastLockoutAt(null));
+    getPendingDeletion()
+      .then(setPendingDeletionAt)
+      .catch(() => setPendingDeletionAt(null));
+  }, []);
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
 
-  const handlePasswordChange = () => {
+  const handlePasswordChange = async () => {
+    setPasswordSuccess('');
+
     if (newPassword !== confirmPassword) {
       setPasswordError('Passwords do not match');
       return;
@@ -109,35 +242,299 @@ const Settings = () => {
       setPasswordError('Password must be at least 12 characters long');
       return;
     }
+
+    if (newPassword === currentPassword) {
+      setPasswordError('New password must be different from the current password');
+      return;
+    }
     
-    // TODO: Implement actual password change logic
-    console.log('Password changed');
     setPasswordError('');
-    setCurrentPassword('');
-    setNewPassword('');
-    setConfirmPassword('');
+    try {
+      await changePassword({ currentPassword, newPassword }, setPasswordChangeStep);
+      setPasswordSuccess('Password updated. All other devices have been signed out.');
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (error) {
+      setPasswordError(error instanceof Error ? error.message : 'Failed to change password');
+    } finally {
+      setPasswordChangeStep(null);
+    }
   };
 
-  const handleRemoveWebAuthnDevice = (id: string) => {
-    // TODO: Implement actual WebAuthn device removal
-    setWebAuthnDevices(webAuthnDevices.filter(device => device.id !== id));
+  const handleEnableQuickUnlock = async (method: 'pin' | 'prf') => {
+    setQuickUnlockError('');
+    setQuickUnlockSuccess('');
+    setQuickUnlockBusy(true);
+    try {
+      if (method === 'pin') {
+        await enablePinUnlock(pin);
+        setPin('');
+        setQuickUnlockSuccess('PIN set. Use it to unlock the vault until you sign out.');
+      } else {
+        await enablePasskeyUnlock();
+        setQuickUnlockSuccess('Passkey set. Use it to unlock the vault until you sign out.');
+      }
+    } catch (error) {
+      setQuickUnlockError(error instanceof Error ? error.message : 'Failed to set up quick unlock');
+    } finally {
+      setQuickUnlockBusy(false);
+    }
+  };
+
+  const handleDisableQuickUnlock = () => {
+    disableQuickUnlock();
+    setQuickUnlockError('');
+    setQuickUnlockSuccess('Quick unlock turned off.');
+  };
+
+  const showRecoveryCodes = (codes: string[]) => {
+    setNewRecoveryCodes(codes);
+    setRecoveryCodesRemaining(codes.length);
+    setRecoveryError('');
+  };
+
+  // A code is from the authenticator app if it is all digits, else a recovery code;
+  // without one, a registered security key confirms instead
+  const secondFactorFromCode = (input: string): SecondFactorResponse | undefined => {
+    const code = input.trim();
+    if (code) {
+      return /^\d+$/.test(code) ? { method: 'totp', code } : { method: 'recovery', code };
+    }
+    return webAuthnDevices.length > 0 ? { method: 'webauthn' } : undefined;
+  };
+
+  const closeRegenerateDialog = () => {
+    setRegenerateDialogOpen(false);
+    setRegeneratePassword('');
+    setRegenerateCode('');
+    setRegenerateError('');
   };
 
-  const handleAddWebAuthnDevice = () => {
-    // TODO: Implement actual WebAuthn device registration
-    console.log('Register new WebAuthn device');
+  const handleRegenerateRecoveryCodes = async () => {
+    if (!user) {
+      return;
+    }
+
+    const secondFactor = secondFactorFromCode(regenerateCode);
+    if (!secondFactor && totpEnabled) {
+      setRegenerateError('Enter a code from your authenticator app or a recovery code');
+      return;
+    }
+
+    setRegenerateError('');
+    setRecoveryBusy(true);
+    try {
+      showRecoveryCodes(await regenerateRecoveryCodes(user.email, regeneratePassword, secondFactor));
+      closeRegenerateDialog();
+    } catch (error) {
+      setRegenerateError(error instanceof Error ? error.message : 'Failed to generate recovery codes');
+    } finally {
+      setRecoveryBusy(false);
+    }
   };
 
-  const handleDeleteAccount = () => {
-    // TODO: Implement actual account deletion
-    console.log('Account deleted');
+  const handleDownloadRecoveryCodes = () => {
+    if (!newRecoveryCodes) {
+      return;
+    }
+    const blob = new Blob(
+      [`FalconPass recovery codes\nEach code works once.\n\n${newRecoveryCodes.join('\n')}\n`],
+      { type: 'text/plain' }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'falconpass-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRevokeSession = async (session: SessionInfo) => {
+    setSessionsError('');
+    setSessionsBusy(true);
+    try {
+      await revokeSession(session.id);
+      if (session.current) {
+        await logout();
+        return;
+      }
+      setSessions(sessions.filter(other => other.id !== session.id));
+    } catch (error) {
+      setSessionsError(error instanceof Error ? error.message : 'Failed to sign out session');
+    } finally {
+      setSessionsBusy(false);
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    setSessionsError('');
+    setSessionsBusy(true);
+    try {
+      await logoutEverywhere();
+      await logout();
+    } catch (error) {
+      setSessionsError(error instanceof Error ? error.message : 'Failed to sign out');
+      setSessionsBusy(false);
+    }
+  };
+
+  const closeRemoveDeviceDialog = () => {
+    setRemoveDeviceId(null);
+    setRemoveDevicePassword('');
+    setRemoveDeviceCode('');
+    setRemoveDeviceError('');
+  };
+
+  const handleRemoveWebAuthnDevice = async () => {
+    if (!user || !removeDeviceId) {
+      return;
+    }
+
+    const secondFactor = secondFactorFromCode(removeDeviceCode);
+    if (!secondFactor && totpEnabled) {
+      setRemoveDeviceError('Enter a code from your authenticator app or a recovery code');
+      return;
+    }
+
+    setRemoveDeviceError('');
+    setRemoveDeviceBusy(true);
+    try {
+      await deleteWebAuthnCredential(removeDeviceId, user.email, removeDevicePassword, secondFactor);
+      setWebAuthnDevices(webAuthnDevices.filter(device => device.id !== removeDeviceId));
+      closeRemoveDeviceDialog();
+    } catch (error) {
+      setRemoveDeviceError(error instanceof Error ? error.message : 'Failed to remove device');
+    } finally {
+      setRemoveDeviceBusy(false);
+    }
+  };
+
+  const handleAddWebAuthnDevice = async () => {
+    setWebAuthnError('');
+    try {
+      const { credential, recoveryCodes } = await registerPasskey();
+      setWebAuthnDevices([...webAuthnDevices, credential]);
+      if (recoveryCodes) {
+        showRecoveryCodes(recoveryCodes);
+      }
+    } catch (error) {
+      setWebAuthnError(error instanceof Error ? error.message : 'Failed to register device');
+    }
+  };
+
+  const handleStartTotpEnrollment = async () => {
+    setTotpError('');
+    setTotpSuccess('');
+    setTotpBusy(true);
+    try {
+      setTotpEnrollment(await beginTotpEnrollment());
+    } catch (error) {
+      setTotpError(error instanceof Error ? error.message : 'Failed to start authenticator setup');
+    } finally {
+      setTotpBusy(false);
+    }
+  };
+
+  const handleTotpCode = async () => {
+    setTotpError('');
+    setTotpSuccess('');
+    setTotpBusy(true);
+    try {
+      if (totpEnabled) {
+        await disableTotp(totpCode);
+        setTotpEnabled(false);
+        setTotpSuccess('Authenticator app removed.');
+      } else {
+        const recoveryCodes = await confirmTotpEnrollment(totpCode);
+        setTotpEnabled(true);
+        if (recoveryCodes) {
+          showRecoveryCodes(recoveryCodes);
+        }
+        setTotpEnrollment(null);
+        setTotpSuccess('Authenticator app set up. Sign-ins now ask for a code from it.');
+      }
+      setTotpCode('');
+    } catch (error) {
+      setTotpCode('');
+      setTotpError(error instanceof Error ? error.message : 'Failed to verify code');
+    } finally {
+      setTotpBusy(false);
+    }
+  };
+
+  const closeDeleteAccountDialog = () => {
     setDeleteAccountDialogOpen(false);
+    setDeletePassword('');
+    setDeleteCode('');
+    setDeleteConfirmation('');
+    setDeleteError('');
+  };
+
+  const handleDeleteAccount = async () => {
+    if (!user) {
+      return;
+    }
+
+    const secondFactor = secondFactorFromCode(deleteCode);
+    if (!secondFactor && totpEnabled) {
+      setDeleteError('Enter a code from your authenticator app or a recovery code');
+      return;
+    }
+
+    setDeleteError('');
+    setDeleteBusy(true);
+    try {
+      const receipt = await deleteAccount(user.email, deletePassword, secondFactor, deleteGracePeriod);
+      setDeletePassword('');
+      downloadJson(receipt, `falconpass-deletion-receipt-${receipt.receipt.receiptId}.json`);
+      // Every session ended with the account, this one included
+      await logout();
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete account');
+      setDeleteBusy(false);
+    }
   };
 
-  const handleExportVault = () => {
-    // TODO: Implement actual vault export
-    console.log('Vault exported');
+  const handleRestoreAccount = async () => {
+    setRestoreError('');
+    try {
+      await restoreAccount();
+      setPendingDeletionAt(null);
+    } catch (error) {
+      setRestoreError(error instanceof Error ? error.message : 'Failed to restore account');
+    }
+  };
+
+  const closeExportVaultDialog = () => {
     setExportVaultDialogOpen(false);
+    setExportReadable(false);
+    setExportError('');
+  };
+
+  const handleExportVault = async () => {
+    setExportError('');
+    setExportBusy(true);
+    try {
+      const signed = await getTakeout();
+      const date = signed.takeout.exportedAt.slice(0, 10);
+      downloadJson(signed, `falconpass-takeout-${date}.json`);
+
+      // The readable copy is made here; the server only ever sees the encrypted vault
+      if (exportReadable) {
+        const readable = decryptTakeout(signed.takeout);
+        downloadJson(readable, `falconpass-takeout-${date}-readable.json`);
+        if (readable.undecryptable.length > 0) {
+          setExportError(`${readable.undecryptable.length} vault entries could not be decrypted and were left out of the readable copy`);
+          return;
+        }
+      }
+      closeExportVaultDialog();
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to export account data');
+    } finally {
+      setExportBusy(false);
+    }
   };
 
   return (
@@ -163,6 +560,21 @@ const Settings = () => {
         
         {/* Account Settings */}
         <TabPanel value={tabValue} index={0}>
+          {pendingDeletionAt && (
+            <Alert
+              severity="warning"
+              sx={{ mb: 3 }}
+              action={
+                <Button color="inherit" size="small" onClick={handleRestoreAccount}>
+                  Keep Account
+                </Button>
+              }
+            >
+              This account is scheduled for deletion and will be permanently erased on{' '}
+              {new Date(pendingDeletionAt).toLocaleString()}.
+              {restoreError && ` ${restoreError}`}
+            </Alert>
+          )}
           <Typography variant="h6" gutterBottom>
             Change Password
           </Typography>
@@ -173,6 +585,21 @@ const Settings = () => {
               </Alert>
             )}
             
+            {passwordSuccess && (
+              <Alert severity="success" sx={{ mb: 2 }}>
+                {passwordSuccess}
+              </Alert>
+            )}
+            
+            {passwordChangeStep && (
+              <Box sx={{ mb: 2 }}>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  {passwordChangeStepLabels[passwordChangeStep]}
+                </Typography>
+                <LinearProgress />
+              </Box>
+            )}
+            
             <TextField
               margin="normal"
               required
@@ -248,7 +675,7 @@ const Settings = () => {
               startIcon={<Save />}
               onClick={handlePasswordChange}
               sx={{ mt: 3 }}
-              disabled={!currentPassword || !newPassword || !confirmPassword}
+              disabled={!currentPassword || !newPassword || !confirmPassword || !!passwordChangeStep}
             >
               Update Password
             </Button>
@@ -271,27 +698,78 @@ const Settings = () => {
           {/* Delete Account Dialog */}
           <Dialog
             open={deleteAccountDialogOpen}
-            onClose={() => setDeleteAccountDialogOpen(false)}
+            onClose={closeDeleteAccountDialog}
           >
             <DialogTitle>Delete Account</DialogTitle>
             <DialogContent>
               <DialogContentText>
                 Are you sure you want to delete your account? This action cannot be undone and will permanently delete all your data, including your password vault.
               </DialogContentText>
+              {deleteError && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                  {deleteError}
+                </Alert>
+              )}
+              <TextField
+                margin="dense"
+                id="deletePassword"
+                label="Master Password"
+                type="password"
+                fullWidth
+                variant="outlined"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+                sx={{ mt: 2 }}
+              />
+              {(totpEnabled || webAuthnDevices.length > 0) && (
+                <TextField
+                  margin="dense"
+                  id="deleteCode"
+                  label={totpEnabled ? 'Authenticator or recovery code' : 'Recovery code'}
+                  helperText={
+                    webAuthnDevices.length > 0
+                      ? 'Leave empty to confirm with your security key instead'
+                      : undefined
+                  }
+                  type="text"
+                  fullWidth
+                  variant="outlined"
+                  value={deleteCode}
+                  onChange={(e) => setDeleteCode(e.target.value)}
+                />
+              )}
               <TextField
-                autoFocus
                 margin="dense"
                 id="confirmDelete"
                 label="Type 'DELETE' to confirm"
                 type="text"
                 fullWidth
                 variant="outlined"
-                sx={{ mt: 2 }}
+                value={deleteConfirmation}
+                onChange={(e) => setDeleteConfirmation(e.target.value)}
               />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={deleteGracePeriod}
+                    onChange={(e) => setDeleteGracePeriod(e.target.checked)}
+                  />
+                }
+                label="Keep the account restorable for a grace period before erasing it"
+                sx={{ mt: 1 }}
+              />
+              <DialogContentText variant="body2" sx={{ mt: 1 }}>
+                A signed receipt of the deletion is downloaded for your records.
+              </DialogContentText>
+              {deleteBusy && <LinearProgress sx={{ mt: 2 }} />}
             </DialogContent>
             <DialogActions>
-              <Button onClick={() => setDeleteAccountDialogOpen(false)}>Cancel</Button>
-              <Button onClick={handleDeleteAccount} color="error">
+              <Button onClick={closeDeleteAccountDialog} disabled={deleteBusy}>Cancel</Button>
+              <Button
+                onClick={handleDeleteAccount}
+                color="error"
+                disabled={deleteConfirmation !== 'DELETE' || !deletePassword || deleteBusy}
+              >
                 Delete Account
               </Button>
             </DialogActions>
@@ -300,6 +778,14 @@ const Settings = () => {
         
         {/* Security Settings */}
         <TabPanel value={tabValue} index={1}>
+          {lastLockoutAt && (
+            <Alert severity="warning" sx={{ mb: 3 }}>
+              Sign-ins to your account were locked on {new Date(lastLockoutAt).toLocaleString()} after
+              too many failed attempts. If that was not you, change your master password and review
+              the active sessions below.
+            </Alert>
+          )}
+
           <Typography variant="h6" gutterBottom>
             Authentication
           </Typography>
@@ -317,7 +803,7 @@ const Settings = () => {
                   select
                   label="Lock after"
                   value={autoLockTimeout}
-                  onChange={(e) => setAutoLockTimeout(Number(e.target.value))}
+                  onChange={(e) => updateSettings({ autoLockTimeout: Number(e.target.value) })}
                   SelectProps={{
                     native: true,
                   }}
@@ -355,24 +841,105 @@ const Settings = () => {
               </Paper>
             </Grid>
           </Grid>
+
+          <Typography variant="h6" gutterBottom sx={{ mt: 4 }}>
+            Quick Unlock
+          </Typography>
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              Unlock the vault with a PIN or a passkey instead of your master password. Quick unlock
+              lasts until you sign out or close the browser, and turns itself off after 5 failed attempts.
+            </Typography>
+
+            {quickUnlockError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {quickUnlockError}
+              </Alert>
+            )}
+
+            {quickUnlockSuccess && (
+              <Alert severity="success" sx={{ mb: 2 }}>
+                {quickUnlockSuccess}
+              </Alert>
+            )}
+
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              Status: {quickUnlock === 'pin' ? 'PIN' : quickUnlock === 'prf' ? 'Passkey' : 'Off'}
+            </Typography>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+              <TextField
+                label="PIN (4-12 digits)"
+                type="password"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                inputProps={{ inputMode: 'numeric', pattern: '[0-9]*', autoComplete: 'off' }}
+                variant="outlined"
+                disabled={quickUnlockBusy}
+                sx={{ flex: '1 1 200px' }}
+              />
+              <Button
+                variant="outlined"
+                color="primary"
+                startIcon={<Pin />}
+                onClick={() => handleEnableQuickUnlock('pin')}
+                disabled={quickUnlockBusy || !pin}
+              >
+                Set PIN
+              </Button>
+              {isPasskeyUnlockAvailable() && (
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  startIcon={<Fingerprint />}
+                  onClick={() => handleEnableQuickUnlock('prf')}
+                  disabled={quickUnlockBusy}
+                >
+                  Use Passkey
+                </Button>
+              )}
+            </Box>
+
+            {quickUnlockBusy && <LinearProgress sx={{ mt: 2 }} />}
+
+            {quickUnlock && (
+              <Button
+                variant="text"
+                color="error"
+                onClick={handleDisableQuickUnlock}
+                sx={{ mt: 2 }}
+              >
+                Turn Off Quick Unlock
+              </Button>
+            )}
+          </Paper>
           
           <Typography variant="h6" gutterBottom sx={{ mt: 4 }}>
             WebAuthn Devices
           </Typography>
           <Paper variant="outlined" sx={{ p: 2 }}>
             <Typography variant="body2" color="text.secondary" paragraph>
-              Manage security keys and biometric devices used for authentication.
+              Manage security keys and biometric devices used for authentication. Passkeys whose
+              authenticator supports PRF can also sign in and unlock the vault without your master password.
             </Typography>
+
+            {webAuthnError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {webAuthnError}
+              </Alert>
+            )}
             
             <List>
               {webAuthnDevices.map((device) => (
                 <ListItem key={device.id}>
                   <ListItemText
                     primary={device.name}
-                    secondary={`Last used: ${device.lastUsed}`}
+                    secondary={`Added: ${new Date(device.createdAt).toLocaleDateString()}${
+                      device.prfEnabled ? ' · Unlocks vault' : ''
+                    }`}
                   />
                   <ListItemSecondaryAction>
-                    <IconButton edge="end" aria-label="delete" onClick={() => handleRemoveWebAuthnDevice(device.id)}>
+                    <IconButton edge="end" aria-label="delete" onClick={() => setRemoveDeviceId(device.id)}>
                       <Delete />
                     </IconButton>
                   </ListItemSecondaryAction>
@@ -390,6 +957,295 @@ const Settings = () => {
               Add New Device
             </Button>
           </Paper>
+
+          {/* Remove WebAuthn Device Dialog */}
+          <Dialog
+            open={removeDeviceId !== null}
+            onClose={closeRemoveDeviceDialog}
+          >
+            <DialogTitle>Remove Device</DialogTitle>
+            <DialogContent>
+              <DialogContentText>
+                Confirm with your master password and your second factor. The device can no longer be used to sign in.
+              </DialogContentText>
+              {removeDeviceError && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                  {removeDeviceError}
+                </Alert>
+              )}
+              <TextField
+                margin="dense"
+                id="removeDevicePassword"
+                label="Master Password"
+                type="password"
+                fullWidth
+                variant="outlined"
+                value={removeDevicePassword}
+                onChange={(e) => setRemoveDevicePassword(e.target.value)}
+                sx={{ mt: 2 }}
+              />
+              <TextField
+                margin="dense"
+                id="removeDeviceCode"
+                label={totpEnabled ? 'Authenticator or recovery code' : 'Recovery code'}
+                helperText="Leave empty to confirm with your security key instead"
+                type="text"
+                fullWidth
+                variant="outlined"
+                value={removeDeviceCode}
+                onChange={(e) => setRemoveDeviceCode(e.target.value)}
+              />
+              {removeDeviceBusy && <LinearProgress sx={{ mt: 2 }} />}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={closeRemoveDeviceDialog} disabled={removeDeviceBusy}>Cancel</Button>
+              <Button
+                onClick={handleRemoveWebAuthnDevice}
+                color="error"
+                disabled={!removeDevicePassword || removeDeviceBusy}
+              >
+                Remove
+              </Button>
+            </DialogActions>
+          </Dialog>
+          
+          <Typography variant="h6" gutterBottom sx={{ mt: 4 }}>
+            Authenticator App
+          </Typography>
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              Use a 6-digit code from an authenticator app as your second factor, on its own or
+              alongside your WebAuthn devices.
+            </Typography>
+
+            {totpError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {totpError}
+              </Alert>
+            )}
+
+            {totpSuccess && (
+              <Alert severity="success" sx={{ mb: 2 }}>
+                {totpSuccess}
+              </Alert>
+            )}
+
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              Status: {totpEnabled ? 'On' : totpEnrollment ? 'Waiting for first code' : 'Off'}
+            </Typography>
+
+            {totpEnrollment && !totpEnabled && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+                <QrCode value={totpEnrollment.otpauthUri} label="Authenticator setup QR code" />
+                <Box sx={{ flex: '1 1 200px' }}>
+                  <Typography variant="body2" paragraph>
+                    Scan the QR code with your authenticator app, or enter this key by hand:
+                  </Typography>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {totpEnrollment.secret.match(/.{1,4}/g)?.join(' ')}
+                  </Typography>
+                </Box>
+              </Box>
+            )}
+
+            {(totpEnabled || totpEnrollment) && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+                <TextField
+                  label="6-digit code"
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  inputProps={{ inputMode: 'numeric', pattern: '[0-9]*', autoComplete: 'one-time-code' }}
+                  variant="outlined"
+                  disabled={totpBusy}
+                  sx={{ flex: '1 1 200px' }}
+                />
+                <Button
+                  variant="outlined"
+                  color={totpEnabled ? 'error' : 'primary'}
+                  onClick={handleTotpCode}
+                  disabled={totpBusy || totpCode.length !== 6}
+                >
+                  {totpEnabled ? 'Turn Off' : 'Verify'}
+                </Button>
+              </Box>
+            )}
+
+            {!totpEnabled && !totpEnrollment && (
+              <Button
+                variant="outlined"
+                color="primary"
+                startIcon={<QrCode2 />}
+                onClick={handleStartTotpEnrollment}
+                disabled={totpBusy}
+              >
+                Set Up Authenticator App
+              </Button>
+            )}
+
+            {totpBusy && <LinearProgress sx={{ mt: 2 }} />}
+          </Paper>
+
+          <Typography variant="h6" gutterBottom sx={{ mt: 4 }}>
+            Recovery Codes
+          </Typography>
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              If you lose your passkey or authenticator app, sign in with one of these codes instead.
+              Each code works once. Generating a new set invalidates the old one.
+            </Typography>
+
+            {recoveryError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {recoveryError}
+              </Alert>
+            )}
+
+            {recoveryCodesRemaining !== null && (
+              <Typography variant="body2" sx={{ mb: 2 }}>
+                Codes left: {recoveryCodesRemaining}
+              </Typography>
+            )}
+
+            {newRecoveryCodes && (
+              <Box sx={{ mb: 2 }}>
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  Save these codes somewhere safe now. They will not be shown again.
+                </Alert>
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))',
+                    gap: 1,
+                    fontFamily: 'monospace',
+                    mb: 2,
+                  }}
+                >
+                  {newRecoveryCodes.map((code) => (
+                    <Typography key={code} variant="body2" sx={{ fontFamily: 'monospace' }}>
+                      {code}
+                    </Typography>
+                  ))}
+                </Box>
+                <Button variant="text" startIcon={<Download />} onClick={handleDownloadRecoveryCodes}>
+                  Download
+                </Button>
+              </Box>
+            )}
+
+            <Button
+              variant="outlined"
+              color="primary"
+              startIcon={<Refresh />}
+              onClick={() => setRegenerateDialogOpen(true)}
+              disabled={recoveryBusy}
+            >
+              Generate New Codes
+            </Button>
+          </Paper>
+
+          {/* Regenerate Recovery Codes Dialog */}
+          <Dialog
+            open={regenerateDialogOpen}
+            onClose={closeRegenerateDialog}
+          >
+            <DialogTitle>Generate New Recovery Codes</DialogTitle>
+            <DialogContent>
+              <DialogContentText>
+                Confirm with your master password and your second factor. Your current codes stop working.
+              </DialogContentText>
+              {regenerateError && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                  {regenerateError}
+                </Alert>
+              )}
+              <TextField
+                margin="dense"
+                id="regeneratePassword"
+                label="Master Password"
+                type="password"
+                fullWidth
+                variant="outlined"
+                value={regeneratePassword}
+                onChange={(e) => setRegeneratePassword(e.target.value)}
+                sx={{ mt: 2 }}
+              />
+              <TextField
+                margin="dense"
+                id="regenerateCode"
+                label={totpEnabled ? 'Authenticator or recovery code' : 'Recovery code'}
+                helperText={
+                  webAuthnDevices.length > 0
+                    ? 'Leave empty to confirm with your security key instead'
+                    : undefined
+                }
+                type="text"
+                fullWidth
+                variant="outlined"
+                value={regenerateCode}
+                onChange={(e) => setRegenerateCode(e.target.value)}
+              />
+              {recoveryBusy && <LinearProgress sx={{ mt: 2 }} />}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={closeRegenerateDialog} disabled={recoveryBusy}>Cancel</Button>
+              <Button
+                onClick={handleRegenerateRecoveryCodes}
+                color="primary"
+                disabled={!regeneratePassword || recoveryBusy}
+              >
+                Generate
+              </Button>
+            </DialogActions>
+          </Dialog>
+
+          <Typography variant="h6" gutterBottom sx={{ mt: 4 }}>
+            Active Sessions
+          </Typography>
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              Devices currently signed in to your account. Sign out any you do not recognize.
+            </Typography>
+
+            {sessionsError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {sessionsError}
+              </Alert>
+            )}
+
+            <List>
+              {sessions.map((session) => (
+                <ListItem key={session.id}>
+                  <ListItemText
+                    primary={session.current ? `${session.deviceName} (this device)` : session.deviceName}
+                    secondary={`${session.ipAddress ?? 'Unknown IP'} · Signed in: ${new Date(
+                      session.createdAt
+                    ).toLocaleString()} · Last active: ${new Date(session.lastSeenAt).toLocaleString()}`}
+                  />
+                  <ListItemSecondaryAction>
+                    <IconButton
+                      edge="end"
+                      aria-label="sign out"
+                      onClick={() => handleRevokeSession(session)}
+                      disabled={sessionsBusy}
+                    >
+                      <Logout />
+                    </IconButton>
+                  </ListItemSecondaryAction>
+                </ListItem>
+              ))}
+            </List>
+
+            <Button
+              variant="outlined"
+              color="error"
+              startIcon={<Logout />}
+              onClick={handleLogoutEverywhere}
+              disabled={sessionsBusy}
+              sx={{ mt: 2 }}
+            >
+              Log Out Everywhere
+            </Button>
+          </Paper>
           
           <Typography variant="h6" gutterBottom sx={{ mt: 4 }}>
             Master Key Rotation
@@ -441,8 +1297,8 @@ const Settings = () => {
             <FormControlLabel
               control={
                 <Switch
-                  checked={clearClipboard}
-                  onChange={(e) => setClearClipboard(e.target.checked)}
+                  checked={clearClipboardAfter > 0}
+                  onChange={(e) => updateSettings({ clearClipboardAfter: e.target.checked ? 30 : 0 })}
                   color="primary"
                 />
               }
@@ -453,12 +1309,12 @@ const Settings = () => {
               <TextField
                 select
                 label="Clear after"
-                value={clearClipboardTimeout}
-                onChange={(e) => setClearClipboardTimeout(Number(e.target.value))}
+                value={clearClipboardAfter || 30}
+                onChange={(e) => updateSettings({ clearClipboardAfter: Number(e.target.value) })}
                 SelectProps={{
                   native: true,
                 }}
-                disabled={!clearClipboard}
+                disabled={clearClipboardAfter === 0}
                 variant="outlined"
                 size="small"
               >
@@ -496,10 +1352,11 @@ const Settings = () => {
           
           <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
             <Typography variant="subtitle1" gutterBottom>
-              Export Vault
+              Export Account Data
             </Typography>
             <Typography variant="body2" color="text.secondary" paragraph>
-              Export your vault data as an encrypted file for backup purposes.
+              Download everything FalconPass holds about your account: your profile, security keys,
+              sessions, account activity and your encrypted vault.
             </Typography>
             <Button
               variant="outlined"
@@ -507,7 +1364,7 @@ const Settings = () => {
               startIcon={<Download />}
               onClick={() => setExportVaultDialogOpen(true)}
             >
-              Export Encrypted Vault
+              Export Account Data
             </Button>
           </Paper>
           
@@ -538,29 +1395,43 @@ const Settings = () => {
             />
           </Paper>
           
-          {/* Export Vault Dialog */}
+          {/* Export Account Data Dialog */}
           <Dialog
             open={exportVaultDialogOpen}
-            onClose={() => setExportVaultDialogOpen(false)}
+            onClose={closeExportVaultDialog}
           >
-            <DialogTitle>Export Vault</DialogTitle>
+            <DialogTitle>Export Account Data</DialogTitle>
             <DialogContent>
               <DialogContentText>
-                Your vault will be exported as an encrypted file. You will need your master password to decrypt this file.
+                The archive is signed by the server, so it can be shown to be complete and unaltered.
+                Your vault stays encrypted in it.
               </DialogContentText>
-              <TextField
-                margin="dense"
-                id="password"
-                label="Confirm Master Password"
-                type="password"
-                fullWidth
-                variant="outlined"
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={exportReadable}
+                    onChange={(e) => setExportReadable(e.target.checked)}
+                  />
+                }
+                label="Also save a readable copy, with the vault decrypted on this device"
                 sx={{ mt: 2 }}
               />
+              {exportReadable && (
+                <Alert severity="warning" sx={{ mt: 2 }}>
+                  The readable copy holds your passwords in plain text. Keep it somewhere safe and
+                  delete it once you are done with it.
+                </Alert>
+              )}
+              {exportError && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                  {exportError}
+                </Alert>
+              )}
+              {exportBusy && <LinearProgress sx={{ mt: 2 }} />}
             </DialogContent>
             <DialogActions>
-              <Button onClick={() => setExportVaultDialogOpen(false)}>Cancel</Button>
-              <Button onClick={handleExportVault} color="primary">
+              <Button onClick={closeExportVaultDialog}>Cancel</Button>
+              <Button onClick={handleExportVault} color="primary" disabled={exportBusy}>
                 Export
               </Button>
             </DialogActions>
@@ -41,8 +41,10 @@ import {
 import { vaultService } from '../../services/vaultService';
 import type { VaultEntryData } from '../../types/api.types';
 import { authService } from '../../services/authService';
+import { useClipboardStore } from '../../store/clipboard';
 
 const Vault = () => {
+  const copyToClipboard = useClipboardStore((state) => state.copy);
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -170,10 +172,12 @@ const Vault = () => {
     handleSortClose();
   };
 
-  const handleCopyPassword = (password: string) => {
-    navigator.clipboard.writeText(password);
-    // TODO: Add a toast notification
-    console.log('Password copied to clipboard');
+  const handleCopyPassword = async (password: string) => {
+    try {
+      await copyToClipboard(password);
+    } catch (error) {
+      console.error('Failed to copy password:', error);
+    }
   };
 
   const handleDeleteClick = (entryId: string) => {
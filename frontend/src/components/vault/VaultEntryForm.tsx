@@ -32,6 +32,7 @@ import {
 } from '@mui/icons-material';
 import PasswordGenerator from '../common/PasswordGenerator';
 import CredentialGenerator from '../common/CredentialGenerator';
+import { useClipboardStore } from '../../store/clipboard';
 
 // Mock data for demonstration
 const mockCategories = [
@@ -85,6 +86,7 @@ interface VaultEntryFormData {
 }
 
 const VaultEntryForm = () => {
+  const copyToClipboard = useClipboardStore((state) => state.copy);
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const isEditMode = id !== 'new';
@@ -233,10 +235,12 @@ const VaultEntryForm = () => {
     setShowGenerator(false);
   };
 
-  const handleCopyPassword = () => {
-    navigator.clipboard.writeText(formData.password);
-    // TODO: Add a toast notification
-    console.log('Password copied to clipboard');
+  const handleCopyPassword = async () => {
+    try {
+      await copyToClipboard(formData.password);
+    } catch (error) {
+      console.error('Failed to copy password:', error);
+    }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
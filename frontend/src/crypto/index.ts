@@ -3,18 +3,75 @@
  * 
  * This module implements client-side cryptography for the password manager:
  * - Argon2id for key derivation from master password
- * - XChaCha20-Poly1305 for authenticated encryption of vault entries
+ * - HKDF-SHA256 to split the master key into independent sub-keys
+ * - XChaCha20-Poly1305 (IETF AEAD) for vault entries, bound to entry and user
  * - Zero-knowledge design: master password never sent to server
+ *
+ * Key hierarchy:
+ *   master password --Argon2id--> master key
+ *   master key --HKDF("falconpass/auth")--> auth key (SRP verifier only)
+ *   master key --HKDF("falconpass/enc")---> encryption key (never leaves the client)
+ *   encryption key --wraps--> random vault key (encrypts vault entries)
  */
 
 import * as argon2 from 'argon2-browser';
 import * as sodium from 'libsodium-wrappers';
+import type { KdfParams } from '../types';
 
 // Constants for cryptography
 const SALT_BYTES = 16;
 const NONCE_BYTES = 24; // XChaCha20 uses 24-byte nonces
 const KEY_BYTES = 32;
 
+// KDF parameters of accounts created before they were stored per user
+export const DEFAULT_KDF_PARAMS: KdfParams = {
+  algorithm: 'argon2id',
+  iterations: 3,
+  memory: 65536, // 64 MB
+  parallelism: 1,
+};
+
+// Version of the vault entry plaintext schema, bound into the associated data
+export const VAULT_SCHEMA_VERSION = 1;
+
+// Encrypted envelope format: ENVELOPE_PREFIX + base64([version][algorithm][key ID][nonce][ciphertext]).
+// The prefix cannot occur in base64, which tells envelopes apart from legacy blobs.
+const ENVELOPE_PREFIX = 'fpe.';
+export const ENVELOPE_VERSION = 1;
+export const LEGACY_ENVELOPE_VERSION = 0;
+const KEY_ID_BYTES = 16; // crypto_generichash_BYTES_MIN
+const KEY_ID_CONTEXT = 'falconpass/key-id';
+
+// Envelope algorithm IDs
+const ALG_LEGACY = 0; // Unversioned blob, secretbox or AEAD without a header
+const ALG_XCHACHA20_POLY1305_IETF = 1;
+
+// HKDF info labels for domain separation of sub-keys
+const HKDF_INFO_AUTH = 'falconpass/auth';
+const HKDF_INFO_ENCRYPTION = 'falconpass/enc';
+const HKDF_INFO_QUICK_UNLOCK = 'falconpass/quick-unlock';
+const HKDF_INFO_PASSKEY_LOGIN = 'falconpass/passkey-login';
+
+/**
+ * Keys derived from the master password
+ */
+export interface KeyHierarchy {
+  authKey: Uint8Array; // Only used to compute the SRP verifier and proofs
+  encryptionKey: Uint8Array; // Only used client-side for vault encryption
+  salt: Uint8Array;
+}
+
+/**
+ * Parsed encrypted envelope
+ */
+export interface EncryptedEnvelope {
+  version: number;
+  algorithm: number;
+  keyId: string | null; // Null for legacy blobs, which do not record their key
+  nonce: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
 /**
  * Initialize the sodium library
  */
@@ -27,12 +84,18 @@ export async function initCrypto(): Promise<void> {
  * Derive a key from the master password using Argon2id
  * @param password The master password
  * @param salt Optional salt (generated if not provided)
+ * @param params KDF algorithm and cost, as stored for the account
  * @returns Object containing the derived key and salt used
  */
 export async function deriveKeyFromPassword(
   password: string,
-  salt?: Uint8Array
+  salt?: Uint8Array,
+  params: KdfParams = DEFAULT_KDF_PARAMS
 ): Promise<{ key: Uint8Array; salt: Uint8Array }> {
+  if (params.algorithm !== 'argon2id') {
+    throw new Error(`Unsupported KDF algorithm: ${params.algorithm}`);
+  }
+
   // Generate salt if not provided
   if (!salt) {
     salt = sodium.randombytes_buf(SALT_BYTES);
@@ -43,8 +106,9 @@ export async function deriveKeyFromPassword(
     pass: password,
     salt: salt,
     type: argon2.ArgonType.Argon2id,
-    time: 3, // Number of iterations
-    mem: 65536, // Memory to use in KiB (64 MB)
+    time: params.iterations, // Number of iterations
+    mem: params.memory, // Memory to use in KiB
+    parallelism: params.parallelism,
     hashLen: KEY_BYTES, // Output key length
   });
 
@@ -54,15 +118,101 @@ export async function deriveKeyFromPassword(
   };
 }
 
+/**
+ * Check whether KDF parameters are weaker than a policy in any dimension
+ * @param params Parameters an account was created with
+ * @param policy Parameters currently required by the deployment
+ * @returns Whether the account should be re-keyed with the policy parameters
+ */
+export function isKdfWeaker(params: KdfParams, policy: KdfParams): boolean {
+  return (
+    params.algorithm !== policy.algorithm ||
+    params.iterations < policy.iterations ||
+    params.memory < policy.memory ||
+    params.parallelism < policy.parallelism
+  );
+}
+
+/**
+ * Expand a key into a sub-key using HKDF-SHA256
+ * @param ikm Input key material (the master key)
+ * @param info Context label that separates the derived keys
+ * @param length Output length in bytes
+ * @returns The derived sub-key
+ */
+export async function hkdf(
+  ikm: Uint8Array,
+  info: string,
+  length: number = KEY_BYTES
+): Promise<Uint8Array> {
+  const baseKey = await crypto.subtle.importKey('raw', new Uint8Array(ikm), 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0), // The master key is already uniformly random
+      info: new TextEncoder().encode(info),
+    },
+    baseKey,
+    length * 8
+  );
+
+  return new Uint8Array(bits);
+}
+
+/**
+ * Derive the full key hierarchy from the master password
+ * The master key itself is wiped as soon as the sub-keys exist.
+ * @param password The master password
+ * @param salt Optional salt (generated if not provided)
+ * @param params KDF algorithm and cost, as stored for the account
+ * @returns The auth key, the encryption key and the salt used
+ */
+export async function deriveKeyHierarchy(
+  password: string,
+  salt?: Uint8Array,
+  params?: KdfParams
+): Promise<KeyHierarchy> {
+  const { key: masterKey, salt: usedSalt } = await deriveKeyFromPassword(password, salt, params);
+
+  try {
+    const authKey = await hkdf(masterKey, HKDF_INFO_AUTH);
+    const encryptionKey = await hkdf(masterKey, HKDF_INFO_ENCRYPTION);
+
+    return { authKey, encryptionKey, salt: usedSalt };
+  } finally {
+    sodium.memzero(masterKey);
+  }
+}
+
+/**
+ * Build the associated data that binds a vault entry ciphertext to its context
+ * Moving a ciphertext to another entry or user, or replaying it under another
+ * schema version, makes decryption fail.
+ * @param entryId The vault entry ID
+ * @param userId The owner's user ID
+ * @param schemaVersion Version of the plaintext schema
+ * @returns Canonical associated data string
+ */
+export function vaultEntryAssociatedData(
+  entryId: string,
+  userId: string,
+  schemaVersion: number = VAULT_SCHEMA_VERSION
+): string {
+  return JSON.stringify(['falconpass/vault-entry', schemaVersion, userId, entryId]);
+}
+
 /**
  * Encrypt data using XChaCha20-Poly1305
  * @param data The plaintext data to encrypt
  * @param key The encryption key
- * @returns Object containing the ciphertext, nonce, and salt
+ * @param associatedData Context authenticated along with the ciphertext, but not encrypted
+ * @returns Object containing the ciphertext and nonce
  */
 export function encryptData(
   data: string,
-  key: Uint8Array
+  key: Uint8Array,
+  associatedData: string
 ): { ciphertext: Uint8Array; nonce: Uint8Array } {
   // Generate a random nonce
   const nonce = sodium.randombytes_buf(NONCE_BYTES);
@@ -71,7 +221,13 @@ export function encryptData(
   const dataBytes = sodium.from_string(data);
   
   // Encrypt the data
-  const ciphertext = sodium.crypto_secretbox_easy(dataBytes, nonce, key);
+  const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+    dataBytes,
+    sodium.from_string(associatedData),
+    null,
+    nonce,
+    key
+  );
   
   return {
     ciphertext,
@@ -84,24 +240,113 @@ export function encryptData(
  * @param ciphertext The encrypted data
  * @param nonce The nonce used for encryption
  * @param key The encryption key
+ * @param associatedData The associated data the ciphertext was bound to
  * @returns The decrypted data as a string
  */
 export function decryptData(
   ciphertext: Uint8Array,
   nonce: Uint8Array,
-  key: Uint8Array
+  key: Uint8Array,
+  associatedData: string
 ): string {
   try {
     // Decrypt the data
-    const decrypted = sodium.crypto_secretbox_open_easy(ciphertext, nonce, key);
+    const decrypted = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      ciphertext,
+      sodium.from_string(associatedData),
+      nonce,
+      key
+    );
     
     // Convert back to string
     return sodium.to_string(decrypted);
-  } catch (error) {
+  } catch {
     throw new Error('Decryption failed. Invalid key or corrupted data.');
   }
 }
 
+/**
+ * Decrypt data written before vault entries used AEAD (XSalsa20-Poly1305 secretbox)
+ * Only for reading old entries; nothing new is encrypted this way.
+ * @param ciphertext The encrypted data
+ * @param nonce The nonce used for encryption
+ * @param key The encryption key
+ * @returns The decrypted data as a string
+ */
+export function decryptLegacyData(
+  ciphertext: Uint8Array,
+  nonce: Uint8Array,
+  key: Uint8Array
+): string {
+  try {
+    return sodium.to_string(sodium.crypto_secretbox_open_easy(ciphertext, nonce, key));
+  } catch {
+    throw new Error('Decryption failed. Invalid key or corrupted data.');
+  }
+}
+
+/**
+ * Generate a new random vault key
+ * @returns A fresh symmetric key for vault entries
+ */
+export function generateVaultKey(): Uint8Array {
+  return sodium.randombytes_buf(KEY_BYTES);
+}
+
+/**
+ * Wrap (encrypt) a key with a key-encryption key
+ * @param key The key to wrap
+ * @param wrappingKey The key-encryption key
+ * @returns Base64 encoded [nonce][ciphertext]
+ */
+export function wrapKey(key: Uint8Array, wrappingKey: Uint8Array): string {
+  const nonce = sodium.randombytes_buf(NONCE_BYTES);
+  const ciphertext = sodium.crypto_secretbox_easy(key, nonce, wrappingKey);
+
+  const combined = new Uint8Array(nonce.length + ciphertext.length);
+  combined.set(nonce, 0);
+  combined.set(ciphertext, nonce.length);
+
+  return sodium.to_base64(combined);
+}
+
+/**
+ * Unwrap (decrypt) a key produced by wrapKey
+ * @param wrapped Base64 encoded wrapped key
+ * @param wrappingKey The key-encryption key
+ * @returns The unwrapped key
+ */
+export function unwrapKey(wrapped: string, wrappingKey: Uint8Array): Uint8Array {
+  try {
+    const combined = sodium.from_base64(wrapped);
+    const nonce = combined.slice(0, NONCE_BYTES);
+    const ciphertext = combined.slice(NONCE_BYTES);
+
+    return sodium.crypto_secretbox_open_easy(ciphertext, nonce, wrappingKey);
+  } catch {
+    throw new Error('Failed to unwrap key. Invalid key or corrupted data.');
+  }
+}
+
+/**
+ * Derive the key that wraps the vault key for quick unlock
+ * @param secret Secret of the quick-unlock factor: an Argon2id-stretched PIN or a WebAuthn PRF output
+ * @returns The wrapping key
+ */
+export async function deriveQuickUnlockKey(secret: Uint8Array): Promise<Uint8Array> {
+  return hkdf(secret, HKDF_INFO_QUICK_UNLOCK);
+}
+
+/**
+ * Derive the key that wraps the vault key for passwordless passkey login
+ * @param prfOutput WebAuthn PRF output of the passkey
+ * @returns The wrapping key
+ */
+export async function derivePasskeyLoginKey(prfOutput: Uint8Array): Promise<Uint8Array> {
+  return hkdf(prfOutput, HKDF_INFO_PASSKEY_LOGIN);
+}
+
 /**
  * Generate a secure random password
  * @param length The length of the password
@@ -152,46 +397,144 @@ export function generatePassword(
 }
 
 /**
- * Serialize encrypted vault entry for storage
- * @param ciphertext The encrypted data
- * @param nonce The nonce used for encryption
- * @param salt The salt used for key derivation
- * @returns Base64 encoded string of serialized data
+ * Fingerprint a key so envelopes can record which key encrypted them
+ * @param key The encryption key
+ * @returns Hex-encoded key ID (not usable to recover the key)
  */
-export function serializeEncryptedData(
-  ciphertext: Uint8Array,
-  nonce: Uint8Array,
-  salt: Uint8Array
-): string {
-  // Concatenate all bytes: [salt][nonce][ciphertext]
-  const combined = new Uint8Array(salt.length + nonce.length + ciphertext.length);
-  combined.set(salt, 0);
-  combined.set(nonce, salt.length);
-  combined.set(ciphertext, salt.length + nonce.length);
-  
-  // Convert to Base64 for storage
-  return sodium.to_base64(combined);
+export function getKeyId(key: Uint8Array): string {
+  return sodium.to_hex(sodium.crypto_generichash(KEY_ID_BYTES, sodium.from_string(KEY_ID_CONTEXT), key));
 }
 
 /**
- * Deserialize encrypted vault entry from storage
- * @param serialized Base64 encoded string of serialized data
- * @returns Object containing the ciphertext, nonce, and salt
+ * Serialize an envelope as ENVELOPE_PREFIX + base64([version][algorithm][key ID][nonce][ciphertext])
+ * @param envelope The envelope to serialize
+ * @returns String for storage
  */
-export function deserializeEncryptedData(
-  serialized: string
-): { ciphertext: Uint8Array; nonce: Uint8Array; salt: Uint8Array } {
-  // Convert from Base64
-  const combined = sodium.from_base64(serialized);
-  
-  // Extract components
-  const salt = combined.slice(0, SALT_BYTES);
-  const nonce = combined.slice(SALT_BYTES, SALT_BYTES + NONCE_BYTES);
-  const ciphertext = combined.slice(SALT_BYTES + NONCE_BYTES);
-  
+export function serializeEnvelope(envelope: EncryptedEnvelope): string {
+  if (!envelope.keyId) {
+    throw new Error('Envelope is missing a key ID');
+  }
+
+  const keyId = sodium.from_hex(envelope.keyId);
+  const combined = new Uint8Array(2 + KEY_ID_BYTES + envelope.nonce.length + envelope.ciphertext.length);
+  combined[0] = envelope.version;
+  combined[1] = envelope.algorithm;
+  combined.set(keyId, 2);
+  combined.set(envelope.nonce, 2 + KEY_ID_BYTES);
+  combined.set(envelope.ciphertext, 2 + KEY_ID_BYTES + envelope.nonce.length);
+
+  return ENVELOPE_PREFIX + sodium.to_base64(combined);
+}
+
+/**
+ * Parse a stored envelope, including blobs written before envelopes were versioned
+ * Legacy blobs are [salt][nonce][ciphertext] with an unused salt and are reported
+ * as version LEGACY_ENVELOPE_VERSION.
+ * @param serialized Serialized envelope or legacy blob
+ * @returns The parsed envelope
+ */
+export function parseEnvelope(serialized: string): EncryptedEnvelope {
+  if (!serialized.startsWith(ENVELOPE_PREFIX)) {
+    const combined = sodium.from_base64(serialized);
+
+    return {
+      version: LEGACY_ENVELOPE_VERSION,
+      algorithm: ALG_LEGACY,
+      keyId: null,
+      nonce: combined.slice(SALT_BYTES, SALT_BYTES + NONCE_BYTES),
+      ciphertext: combined.slice(SALT_BYTES + NONCE_BYTES),
+    };
+  }
+
+  const combined = sodium.from_base64(serialized.slice(ENVELOPE_PREFIX.length));
+  const version = combined[0];
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${version}`);
+  }
+
   return {
-    ciphertext,
-    nonce,
-    salt,
+    version,
+    algorithm: combined[1],
+    keyId: sodium.to_hex(combined.slice(2, 2 + KEY_ID_BYTES)),
+    nonce: combined.slice(2 + KEY_ID_BYTES, 2 + KEY_ID_BYTES + NONCE_BYTES),
+    ciphertext: combined.slice(2 + KEY_ID_BYTES + NONCE_BYTES),
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Check whether a stored blob predates the current envelope format
+ * @param serialized Serialized envelope or legacy blob
+ * @returns Whether the blob should be re-encrypted
+ */
+export function isLegacyEnvelope(serialized: string): boolean {
+  return !serialized.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Encrypt data into a serialized envelope with the current format and algorithm
+ * @param data The plaintext data to encrypt
+ * @param key The encryption key
+ * @param associatedData Context authenticated along with the ciphertext
+ * @returns Serialized envelope
+ */
+export function sealEnvelope(data: string, key: Uint8Array, associatedData: string): string {
+  const { ciphertext, nonce } = encryptData(data, key, associatedData);
+
+  return serializeEnvelope({
+    version: ENVELOPE_VERSION,
+    algorithm: ALG_XCHACHA20_POLY1305_IETF,
+    keyId: getKeyId(key),
+    nonce,
+    ciphertext,
+  });
+}
+
+/**
+ * Decrypt a serialized envelope
+ * Legacy blobs are refused: the oldest are not bound to any associated data,
+ * so accepting them here would let whoever stores them swap one for another.
+ * @param serialized Serialized envelope
+ * @param key The encryption key
+ * @param associatedData The associated data the ciphertext was bound to
+ * @returns The decrypted data as a string
+ */
+export function openEnvelope(serialized: string, key: Uint8Array, associatedData: string): string {
+  if (isLegacyEnvelope(serialized)) {
+    throw new Error('Decryption failed. Data predates the envelope format and must be migrated.');
+  }
+
+  const envelope = parseEnvelope(serialized);
+
+  if (envelope.keyId !== getKeyId(key)) {
+    throw new Error('Decryption failed. Data was encrypted with a different key.');
+  }
+
+  if (envelope.algorithm !== ALG_XCHACHA20_POLY1305_IETF) {
+    throw new Error(`Unsupported encryption algorithm: ${envelope.algorithm}`);
+  }
+
+  return decryptData(envelope.ciphertext, envelope.nonce, key, associatedData);
+}
+
+/**
+ * Decrypt a legacy blob, for migrating it into an envelope
+ * Legacy blobs hold either AEAD ciphertext bound to the associated data or,
+ * older still, secretbox ciphertext without any. Nothing but the migration
+ * may call this, since the latter are not bound to where they are stored.
+ * @param serialized Legacy blob
+ * @param key The encryption key
+ * @param associatedData The associated data the ciphertext may be bound to
+ * @returns The decrypted data as a string
+ */
+export function openLegacyBlob(serialized: string, key: Uint8Array, associatedData: string): string {
+  if (!isLegacyEnvelope(serialized)) {
+    throw new Error('Not a legacy blob');
+  }
+
+  const envelope = parseEnvelope(serialized);
+  try {
+    return decryptData(envelope.ciphertext, envelope.nonce, key, associatedData);
+  } catch {
+    return decryptLegacyData(envelope.ciphertext, envelope.nonce, key);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * FalconPass SRP-6a Client
+ *
+ * Client half of the SRP-6a exchange (RFC 5054, 2048-bit group, SHA-256).
+ * Must stay byte-for-byte compatible with backend/src/utils/srp.ts:
+ * - Big integers are hashed padded to the size of N
+ * - Strings are hashed as UTF-8
+ * - All values cross the wire as lowercase hex
+ */
+
+import * as sodium from 'libsodium-wrappers';
+
+// RFC 5054 2048-bit group
+const N_HEX =
+  'AC6BDB41324A9A9BF166DE5E1389582FAF72B6651987EE07FC3192943DB56050A37329CBB4' +
+  'A099ED8193E0757767A13DD52312AB4B03310DCD7F48A9DA04FD50E8083969EDB767B0CF60' +
+  '95179A163AB3661A05FBD5FAAAE82918A9962F0B93B855F97993EC975EEAA80D740ADBF4FF' +
+  '747359D041D5C33EA71D281E446B14773BCA97B43A23FB801676BD207A436C6481F1D2B907' +
+  '8717461A5B9D32E688F87748544523B524B0D57D5EA77A2775D2ECFA032CFBDBF52FB37861' +
+  '60279004E57AE6AF874E7303CE53299CCC041C7BC308D82A5698F3A8D0C38271AE35F8E9DB' +
+  'FBB694B5C803D89F7AE435DE236D525F54759B65E372FCD68EF20FA7111F9E4AFF73';
+
+const N = BigInt(`0x${N_HEX}`);
+const G = 2n;
+const N_BYTES = N_HEX.length / 2;
+const HASH_BYTES = 32;
+const EPHEMERAL_SECRET_BYTES = 32;
+
+function toHex(value: bigint, bytes: number = N_BYTES): string {
+  return value.toString(16).padStart(bytes * 2, '0');
+}
+
+function fromHex(hex: string): bigint {
+  if (!/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new Error('Invalid hex value');
+  }
+  return BigInt(`0x${hex}`);
+}
+
+function hash(...values: Array<bigint | string | Uint8Array>): bigint {
+  const parts = values.map(value => {
+    if (typeof value === 'bigint') return sodium.from_hex(toHex(value)) as Uint8Array;
+    if (typeof value === 'string') return sodium.from_string(value) as Uint8Array;
+    return value;
+  });
+
+  const combined = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    combined.set(part, offset);
+    offset += part.length;
+  }
+
+  return fromHex(sodium.to_hex(sodium.crypto_hash_sha256(combined)));
+}
+
+function hashBytes(value: bigint): Uint8Array {
+  return sodium.from_hex(toHex(value, HASH_BYTES));
+}
+
+function modPow(base: bigint, exp: bigint, m: bigint): bigint {
+  let result = 1n;
+  let b = ((base % m) + m) % m;
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % m;
+    }
+    e >>= 1n;
+    b = (b * b) % m;
+  }
+  return result;
+}
+
+/**
+ * Derive the SRP private key x = H(s | H(I ":" secret))
+ */
+function derivePrivateKey(identity: string, salt: string, secret: string): bigint {
+  return hash(salt, hashBytes(hash(`${identity}:${secret}`)));
+}
+
+/**
+ * Compute the verifier stored by the server at registration
+ * @param identity The user's identity (email)
+ * @param salt The client salt as sent to the server
+ * @param secret Hex-encoded authentication secret derived from the master password
+ * @returns Verifier v = g^x mod N as hex
+ */
+export function computeVerifier(identity: string, salt: string, secret: string): string {
+  return toHex(modPow(G, derivePrivateKey(identity, salt, secret), N));
+}
+
+/**
+ * Result of the client side of an SRP-6a session
+ */
+export interface SrpClientSession {
+  clientEphemeral: string; // A
+  clientProof: string; // M1
+  expectedServerProof: string; // M2 we expect back from the server
+}
+
+/**
+ * Run the client side of the SRP-6a exchange against a server challenge
+ * @param identity The user's identity (email)
+ * @param salt The client salt returned in the challenge
+ * @param secret Hex-encoded authentication secret derived from the master password
+ * @param serverEphemeral The server's public ephemeral B
+ * @returns The values to send to the server and the proof to expect back
+ */
+export function deriveSession(
+  identity: string,
+  salt: string,
+  secret: string,
+  serverEphemeral: string
+): SrpClientSession {
+  const B = fromHex(serverEphemeral);
+  if (B % N === 0n) {
+    throw new Error('Invalid server ephemeral');
+  }
+
+  const k = hash(N, G);
+  const a = fromHex(sodium.to_hex(sodium.randombytes_buf(EPHEMERAL_SECRET_BYTES)));
+  const A = modPow(G, a, N);
+  const u = hash(A, B);
+  if (u === 0n) {
+    throw new Error('Invalid server ephemeral');
+  }
+
+  const x = derivePrivateKey(identity, salt, secret);
+  const S = modPow(((B - ((k * modPow(G, x, N)) % N)) % N + N) % N, a + u * x, N);
+  const K = hash(S);
+
+  const M1 = hash(
+    hashBytes(hash(N) ^ hash(G)),
+    hashBytes(hash(identity)),
+    salt,
+    A,
+    B,
+    hashBytes(K)
+  );
+  const M2 = hash(A, hashBytes(M1), hashBytes(K));
+
+  return {
+    clientEphemeral: toHex(A),
+    clientProof: toHex(M1, HASH_BYTES),
+    expectedServerProof: toHex(M2, HASH_BYTES),
+  };
+}
+
+/**
+ * Check the server's proof M2 so the client knows it talked to a server holding the verifier
+ * @param session The client session returned by deriveSession
+ * @param serverProof The M2 value returned by the server
+ * @returns Whether the server proved knowledge of the verifier
+ */
+export function verifyServerProof(session: SrpClientSession, serverProof: string | undefined): boolean {
+  if (!serverProof || serverProof.length !== session.expectedServerProof.length) {
+    return false;
+  }
+  return sodium.memcmp(
+    sodium.from_hex(serverProof.toLowerCase()),
+    sodium.from_hex(session.expectedServerProof)
+  );
+}
@@ -51,7 +51,20 @@ export default {
     "moderate": "Moderate",
     "strong": "Strong",
     "passwordStrengthTooltip": "Use a mix of uppercase, lowercase, numbers, and special characters. Minimum 8 characters recommended.",
-    "togglePasswordVisibility": "toggle password visibility"
+    "togglePasswordVisibility": "toggle password visibility",
+    "vaultLocked": "Vault Locked",
+    "vaultLockedDescription": "Your vault was locked. Enter your master password to continue.",
+    "masterPassword": "Master Password",
+    "unlock": "Unlock",
+    "unlocking": "Unlocking...",
+    "unlockFailed": "Unlock failed. Please try again.",
+    "signOutInstead": "Sign out instead",
+    "pin": "PIN",
+    "unlockWithPasskey": "Unlock with passkey",
+    "useMasterPassword": "Use master password instead",
+    "usePin": "Use PIN instead",
+    "signInWithPasskey": "Sign in with passkey",
+    "passkeyLoginFailed": "Passkey sign-in failed. Try again or use your master password."
   },
   "navigation": {
     "falconPass": "FALCONPASS",
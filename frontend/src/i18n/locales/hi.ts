@@ -51,7 +51,20 @@ export default {
     "moderate": "मध्यम",
     "strong": "मजबूत",
     "passwordStrengthTooltip": "बड़े अक्षर, छोटे अक्षर, संख्याएं और विशेष वर्णों का मिश्रण उपयोग करें। न्यूनतम 8 वर्ण अनुशंसित।",
-    "togglePasswordVisibility": "पासवर्ड दृश्यता टॉगल करें"
+    "togglePasswordVisibility": "पासवर्ड दृश्यता टॉगल करें",
+    "vaultLocked": "वॉल्ट लॉक है",
+    "vaultLockedDescription": "आपका वॉल्ट लॉक कर दिया गया था। जारी रखने के लिए अपना मास्टर पासवर्ड दर्ज करें।",
+    "masterPassword": "मास्टर पासवर्ड",
+    "unlock": "अनलॉक करें",
+    "unlocking": "अनलॉक हो रहा है...",
+    "unlockFailed": "अनलॉक असफल। कृपया पुनः प्रयास करें।",
+    "signOutInstead": "इसके बजाय साइन आउट करें",
+    "pin": "पिन",
+    "unlockWithPasskey": "पासकी से अनलॉक करें",
+    "useMasterPassword": "इसके बजाय मास्टर पासवर्ड का उपयोग करें",
+    "usePin": "इसके बजाय पिन का उपयोग करें",
+    "signInWithPasskey": "पासकी से साइन इन करें",
+    "passkeyLoginFailed": "पासकी से साइन इन विफल रहा। फिर से प्रयास करें या अपने मास्टर पासवर्ड का उपयोग करें।"
   },
   "navigation": {
     "falconPass": "फाल्कनपास",
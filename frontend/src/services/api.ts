@@ -4,12 +4,54 @@
  */
 
 // Import types from the types directory
-import type { ApiResponse, User, VaultEntry, LoginChallenge, AuthResponse, LoginResult } from '../types/api.types';
+import type {
+  ApiResponse,
+  User,
+  VaultEntry,
+  LoginChallenge,
+  AuthResponse,
+  LoginResult,
+  PasswordChangeRequest,
+  PasskeyLoginResult,
+  WebAuthnCredentialInfo,
+  TwoFactorEnrollmentResult,
+  SessionInfo,
+  AuditEventType,
+  AuditEventPage,
+  AccountDeletionRequest,
+  ReauthenticationRequest,
+  SignedAccountTakeout,
+  SignedDeletionReceipt,
+} from '../types/api.types';
+import type { KdfParams, TotpEnrollment } from '../types';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/browser';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
+// Lock name shared by every tab; they all hold the same refresh token cookie
+const REFRESH_LOCK = 'falconpass-token-refresh';
+
+// Longest Retry-After a request waits out by itself before giving up
+const MAX_RETRY_WAIT_SECONDS = 5;
+
+/**
+ * Describe how long a throttled request has to wait
+ */
+function describeWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
 // Re-export types for convenience
-export type { ApiResponse, User, VaultEntry, LoginChallenge, AuthResponse, LoginResult };
+export type { ApiResponse, User, VaultEntry, LoginChallenge, AuthResponse, LoginResult, PasswordChangeRequest };
 
 // Extend the LoginResult interface for additional properties
 export interface LoginResultExtended extends LoginResult {
@@ -18,6 +60,7 @@ export interface LoginResultExtended extends LoginResult {
 
 class ApiService {
   private baseURL: string;
+  private refreshing: Promise<boolean> | null = null;
 
   constructor() {
     this.baseURL = API_BASE_URL;
@@ -25,10 +68,13 @@ class ApiService {
 
   /**
    * Make HTTP request with error handling
+   * An expired access token is renewed once with the refresh token and the request retried,
+   * and so is a rate-limited request whose Retry-After is short.
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retry: boolean = true
   ): Promise<ApiResponse<T>> {
     try {
       const url = `${this.baseURL}${endpoint}`;
@@ -43,6 +89,25 @@ class ApiService {
 
       const data = await response.json();
 
+      // Only a rejected access token is worth a refresh, not e.g. a wrong password
+      if (response.status === 401 && data.error === 'Unauthorized' && retry && (await this.refreshSession())) {
+        return this.request<T>(endpoint, options, false);
+      }
+
+      // Rate limited: wait out a short pause once, otherwise say when to try again
+      if (response.status === 429) {
+        const retryAfter = parseInt(response.headers.get('Retry-After') ?? '', 10) || data.retryAfter || 1;
+        if (retry && retryAfter <= MAX_RETRY_WAIT_SECONDS) {
+          await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+          return this.request<T>(endpoint, options, false);
+        }
+        return {
+          error: data.error === 'Too many attempts'
+            ? `Too many failed attempts. Try again in ${describeWait(retryAfter)}.`
+            : `Too many requests. Try again in ${describeWait(retryAfter)}.`,
+        };
+      }
+
       if (!response.ok) {
         return {
           error: data.error || `HTTP ${response.status}`,
@@ -59,6 +124,30 @@ class ApiService {
     }
   }
 
+  /**
+   * Trade the refresh token cookie for new session cookies
+   * Concurrent callers share one refresh. Tabs take turns through a lock, since a
+   * refresh token sent twice looks like theft and signs the session out.
+   * @returns Whether the session was renewed
+   */
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshing) {
+      const refresh = () =>
+        fetch(`${this.baseURL}/api/users/token/refresh`, {
+          method: 'POST',
+          credentials: 'include',
+        })
+          .then((response) => response.ok)
+          .catch(() => false);
+
+      this.refreshing = (navigator.locks ? navigator.locks.request(REFRESH_LOCK, refresh) : refresh()).finally(() => {
+        this.refreshing = null;
+      });
+    }
+
+    return this.refreshing;
+  }
+
   /**
    * Health check
    */
@@ -76,6 +165,8 @@ class ApiService {
     username: string;
     clientSalt: string;
     verifier: string;
+    wrappedVaultKey: string;
+    kdf: KdfParams;
   }): Promise<ApiResponse<{ userId: string; username: string }>> {
     return this.request('/api/users/register', {
       method: 'POST',
@@ -83,6 +174,13 @@ class ApiService {
     });
   }
 
+  /**
+   * Get the KDF parameters required for new credentials
+   */
+  async getKdfPolicy(): Promise<ApiResponse<KdfParams>> {
+    return this.request('/api/users/kdf-policy');
+  }
+
   /**
    * Get login challenge
    */
@@ -106,6 +204,40 @@ class ApiService {
     });
   }
 
+  /**
+   * Get a challenge to prove the current master password
+   */
+  async getPasswordChangeChallenge(): Promise<ApiResponse<LoginChallenge>> {
+    return this.request('/api/users/password/challenge', {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  /**
+   * Change master password
+   */
+  async changePassword(
+    data: PasswordChangeRequest
+  ): Promise<ApiResponse<{ success: boolean; serverProof: string }>> {
+    return this.request('/api/users/password', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Re-key the account with stronger KDF parameters, same password
+   */
+  async upgradeKdf(
+    data: PasswordChangeRequest
+  ): Promise<ApiResponse<{ success: boolean; serverProof: string }>> {
+    return this.request('/api/users/kdf/upgrade', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   /**
    * Logout user
    */
@@ -122,6 +254,75 @@ class ApiService {
     return this.request('/api/users/me');
   }
 
+  /**
+   * Delete the account, now or after the grace period
+   */
+  async deleteAccount(data: AccountDeletionRequest): Promise<ApiResponse<SignedDeletionReceipt>> {
+    return this.request('/api/users/me', {
+      method: 'DELETE',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Download everything the server holds about the account, signed
+   */
+  async getTakeout(): Promise<ApiResponse<SignedAccountTakeout>> {
+    return this.request('/api/users/me/takeout');
+  }
+
+  /**
+   * Cancel a scheduled account deletion
+   */
+  async restoreAccount(): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request('/api/users/me/restore', {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  // ===== SESSIONS =====
+
+  /**
+   * Get the user's active sessions
+   */
+  async getSessions(): Promise<ApiResponse<SessionInfo[]>> {
+    return this.request('/api/users/sessions');
+  }
+
+  /**
+   * Sign out one session
+   */
+  async revokeSession(sessionId: string): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/api/users/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Sign out every session, including this one
+   */
+  async revokeAllSessions(): Promise<ApiResponse<{ success: boolean; revoked: number }>> {
+    return this.request('/api/users/sessions', {
+      method: 'DELETE',
+    });
+  }
+
+  // ===== AUDIT LOG =====
+
+  /**
+   * Get one page of the user's security events, newest first
+   * @param types Only events of these types; all if empty
+   */
+  async getAuditEvents(page: number, pageSize: number, types: AuditEventType[] = []): Promise<ApiResponse<AuditEventPage>> {
+    const query = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    if (types.length > 0) {
+      query.set('types', types.join(','));
+    }
+
+    return this.request(`/api/users/audit?${query}`);
+  }
+
   // ===== VAULT MANAGEMENT =====
 
   /**
@@ -142,14 +343,9 @@ class ApiService {
    * Create new vault entry
    */
   async createVaultEntry(data: {
+    id?: string; // Client-chosen, since it is bound into the ciphertext
     encryptedData: string;
-    metadata?: {
-      title?: string;
-      url?: string;
-      category?: string;
-      tags?: string[];
-      lastModified?: string;
-    };
+    itemType?: string;
   }): Promise<ApiResponse<VaultEntry>> {
     return this.request('/api/vault', {
       method: 'POST',
@@ -164,15 +360,10 @@ class ApiService {
     id: string,
     data: {
       encryptedData: string;
-      metadata?: {
-        title?: string;
-        url?: string;
-        category?: string;
-        tags?: string[];
-        lastModified?: string;
-      };
+      itemType?: string;
+      revision: number; // Revision being replaced; a stale one is rejected with 409
     }
-  ): Promise<ApiResponse<{ success: boolean; id: string }>> {
+  ): Promise<ApiResponse<{ success: boolean; id: string; revision: number }>> {
     return this.request(`/api/vault/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
@@ -205,41 +396,185 @@ class ApiService {
     });
   }
 
-  // ===== WEBAUTHN (Future Implementation) =====
+  // ===== WEBAUTHN =====
 
   /**
    * Get WebAuthn registration options
    */
-  async getWebAuthnRegistrationOptions(): Promise<ApiResponse<any>> {
-    return this.request('/api/webauthn/register/begin');
+  async getWebAuthnRegistrationOptions(): Promise<ApiResponse<PublicKeyCredentialCreationOptionsJSON>> {
+    return this.request('/api/webauthn/register/options', {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
   }
 
   /**
    * Complete WebAuthn registration
    */
-  async completeWebAuthnRegistration(data: any): Promise<ApiResponse<any>> {
-    return this.request('/api/webauthn/register/complete', {
+  async completeWebAuthnRegistration(
+    credential: RegistrationResponseJSON
+  ): Promise<ApiResponse<TwoFactorEnrollmentResult>> {
+    return this.request('/api/webauthn/register/verify', {
+      method: 'POST',
+      body: JSON.stringify({ credential }),
+    });
+  }
+
+  /**
+   * Get options for a passwordless passkey login
+   */
+  async getPasskeyLoginOptions(): Promise<ApiResponse<PublicKeyCredentialRequestOptionsJSON>> {
+    return this.request('/api/webauthn/passkey/options', {
       method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  /**
+   * Verify a passwordless passkey login and get token
+   */
+  async verifyPasskeyLogin(credential: AuthenticationResponseJSON): Promise<ApiResponse<PasskeyLoginResult>> {
+    return this.request('/api/webauthn/passkey/verify', {
+      method: 'POST',
+      body: JSON.stringify({ credential }),
+    });
+  }
+
+  /**
+   * Store the vault key wrapped with a passkey's PRF output, or clear it with null
+   */
+  async setPasskeyVaultKey(
+    credentialId: string,
+    wrappedVaultKey: string | null
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/api/webauthn/credentials/${encodeURIComponent(credentialId)}/prf`, {
+      method: 'PUT',
+      body: JSON.stringify({ wrappedVaultKey }),
+    });
+  }
+
+  /**
+   * Get registered WebAuthn credentials
+   */
+  async getWebAuthnCredentials(): Promise<ApiResponse<WebAuthnCredentialInfo[]>> {
+    return this.request('/api/webauthn/credentials');
+  }
+
+  /**
+   * Delete a WebAuthn credential, confirmed with a fresh password proof and the second factor
+   */
+  async deleteWebAuthnCredential(
+    credentialId: string,
+    data: ReauthenticationRequest
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/api/webauthn/credentials/${encodeURIComponent(credentialId)}`, {
+      method: 'DELETE',
       body: JSON.stringify(data),
     });
   }
 
   /**
-   * Get WebAuthn authentication options
+   * Get WebAuthn authentication options for the second factor of a pending login
+   */
+  async getWebAuthnAuthOptions(): Promise<ApiResponse<PublicKeyCredentialRequestOptionsJSON>> {
+    return this.request('/api/webauthn/login/options', {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  /**
+   * Get WebAuthn authentication options for confirming a sensitive action
    */
-  async getWebAuthnAuthOptions(): Promise<ApiResponse<any>> {
-    return this.request('/api/webauthn/auth/begin');
+  async getWebAuthnReauthOptions(): Promise<ApiResponse<PublicKeyCredentialRequestOptionsJSON>> {
+    return this.request('/api/webauthn/reauth/options', {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
   }
 
   /**
-   * Complete WebAuthn authentication
+   * Complete WebAuthn authentication, upgrading the pending login to a full session
    */
-  async completeWebAuthnAuth(data: any): Promise<ApiResponse<any>> {
-    return this.request('/api/webauthn/auth/complete', {
+  async completeWebAuthnAuth(
+    credential: AuthenticationResponseJSON
+  ): Promise<ApiResponse<{ userId: string; username: string }>> {
+    return this.request('/api/webauthn/login/verify', {
+      method: 'POST',
+      body: JSON.stringify({ credential }),
+    });
+  }
+
+  // ===== TOTP =====
+
+  /**
+   * Start TOTP enrollment with a fresh secret
+   */
+  async beginTotpEnrollment(): Promise<ApiResponse<TotpEnrollment>> {
+    return this.request('/api/totp/enroll', {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+  }
+
+  /**
+   * Confirm TOTP enrollment with a code from the authenticator app
+   */
+  async confirmTotpEnrollment(code: string): Promise<ApiResponse<TwoFactorEnrollmentResult>> {
+    return this.request('/api/totp/enroll/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  /**
+   * Turn TOTP off
+   */
+  async disableTotp(code: string): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request('/api/totp', {
+      method: 'DELETE',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  /**
+   * Complete a pending login with a TOTP code, upgrading it to a full session
+   */
+  async completeTotpAuth(code: string): Promise<ApiResponse<{ userId: string; username: string }>> {
+    return this.request('/api/totp/login/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  // ===== RECOVERY CODES =====
+
+  /**
+   * Get the number of unused recovery codes
+   */
+  async getRecoveryCodeCount(): Promise<ApiResponse<{ remaining: number }>> {
+    return this.request('/api/recovery-codes');
+  }
+
+  /**
+   * Replace all recovery codes with a new set
+   */
+  async regenerateRecoveryCodes(data: ReauthenticationRequest): Promise<ApiResponse<{ codes: string[] }>> {
+    return this.request('/api/recovery-codes/regenerate', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
+
+  /**
+   * Complete a pending login with a recovery code, upgrading it to a full session
+   */
+  async completeRecoveryCodeAuth(code: string): Promise<ApiResponse<{ userId: string; username: string }>> {
+    return this.request('/api/recovery-codes/login/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
 }
 
 // Export singleton instance
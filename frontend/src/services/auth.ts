@@ -4,21 +4,52 @@
  * Implements secure authentication with zero-knowledge proof:
  * - Challenge-response authentication
  * - Master password never sent to server
- * - WebAuthn 2FA support
+ * - WebAuthn and TOTP 2FA support
  */
 
 import { apiService } from './api';
-import { deriveKeyFromPassword } from '../crypto';
+import {
+  deriveKeyHierarchy,
+  derivePasskeyLoginKey,
+  generateVaultKey,
+  wrapKey,
+  unwrapKey,
+  isKdfWeaker,
+} from '../crypto';
+import { computeVerifier, deriveSession, verifyServerProof } from '../crypto/srp';
 import type {
   User,
+  LoginSession,
+  PasskeyLoginSession,
   LoginCredentials,
+  PasswordChangeCredentials,
+  PasswordChangeStep,
+  KdfParams,
   RegisterCredentials,
   AuthChallenge,
   AuthResponse,
   ApiResponse,
-  WebAuthnCredential
+  WebAuthnCredential,
+  TwoFactorMethod,
+  SecondFactorResponse,
+  TotpEnrollment,
+  PasskeyRegistration,
 } from '../types';
+import type {
+  AuditEventPage,
+  AuditEventType,
+  ReauthenticationRequest,
+  SessionInfo,
+  SignedAccountTakeout,
+  SignedDeletionReceipt,
+  WebAuthnCredentialInfo,
+} from '../types/api.types';
 import * as webauthn from '@simplewebauthn/browser';
+import type { AuthenticationResponseJSON, PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/browser';
+
+// PRF input for passkey login. It is the same for every passkey, since with an
+// empty allow list the client only learns which passkey answered afterwards.
+const PASSKEY_PRF_SALT = new TextEncoder().encode('falconpass/passkey-login/v1');
 
 // Helper functions
 function arrayToBase64(array: Uint8Array): string {
@@ -30,6 +61,23 @@ function base64ToArray(base64: string): Uint8Array {
   return new Uint8Array(binary.length).map((_, i) => binary.charCodeAt(i));
 }
 
+function arrayToHex(array: Uint8Array): string {
+  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Get the KDF parameters the server requires for new credentials
+ */
+async function getKdfPolicy(): Promise<KdfParams> {
+  const response = await apiService.getKdfPolicy();
+  
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  
+  return response.data!;
+}
+
 /**
  * Register a new user
  * @param credentials User registration credentials
@@ -37,15 +85,24 @@ function base64ToArray(base64: string): Uint8Array {
  */
 export async function register(credentials: RegisterCredentials): Promise<User> {
   try {
-    // Step 1: Generate a key from the password
-    const { key, salt } = await deriveKeyFromPassword(credentials.password);
+    // Step 1: Derive the key hierarchy from the password with the deployment's KDF policy
+    const kdf = await getKdfPolicy();
+    const { authKey, encryptionKey, salt } = await deriveKeyHierarchy(credentials.password, undefined, kdf);
+    const clientSalt = arrayToBase64(salt);
     
-    // Step 2: Send registration data with salt but NOT the password or key
+    // Step 2: Generate the vault key and wrap it with the encryption key
+    const vaultKey = generateVaultKey();
+    const wrappedVaultKey = wrapKey(vaultKey, encryptionKey);
+    
+    // Step 3: Send registration data with the SRP verifier (from the auth key only)
+    // and the wrapped vault key, but NOT the password or any unwrapped key
     const response = await apiService.register({
       email: credentials.email,
       username: credentials.username,
-      clientSalt: arrayToBase64(salt),
-      verifier: arrayToBase64(key),
+      clientSalt,
+      verifier: computeVerifier(credentials.email, clientSalt, arrayToHex(authKey)),
+      wrappedVaultKey,
+      kdf,
     });
     
     if (response.error) {
@@ -69,9 +126,14 @@ export async function register(credentials: RegisterCredentials): Promise<User>
 /**
  * Login with username and password
  * @param credentials Login credentials
- * @returns The authenticated user
+ * @param onSecondFactor Optional callback asked how to complete a required second factor;
+ * without it a registered passkey is used
+ * @returns The authenticated user and the unwrapped vault key
  */
-export async function login(credentials: LoginCredentials): Promise<User> {
+export async function login(
+  credentials: LoginCredentials,
+  onSecondFactor?: (methods: TwoFactorMethod[]) => Promise<SecondFactorResponse>
+): Promise<LoginSession> {
   try {
     // Step 1: Request authentication challenge from server
     const challengeResponse = await apiService.getLoginChallenge(credentials.username);
@@ -85,45 +147,242 @@ export async function login(credentials: LoginCredentials): Promise<User> {
     // Step 2: Convert salt from base64 to Uint8Array
     const saltArray = base64ToArray(challenge.salt);
     
-    // Step 3: Derive key from password using the stored salt
-    const { key } = await deriveKeyFromPassword(credentials.password, saltArray);
+    // Step 3: Derive the key hierarchy from password using the stored salt and KDF parameters
+    const { authKey, encryptionKey } = await deriveKeyHierarchy(credentials.password, saltArray, challenge.kdf);
     
-    // Step 4: Create response by encrypting the challenge with the derived key
-    // In a real implementation, this would use a proper challenge-response protocol
-    // For simplicity, we're using the key to encrypt the challenge
-    const encoder = new TextEncoder();
-    const challengeData = encoder.encode(challenge.serverEphemeral);
+    // Step 4: Run the client side of SRP-6a against the server ephemeral
+    const session = deriveSession(
+      credentials.username,
+      challenge.salt,
+      arrayToHex(authKey),
+      challenge.serverEphemeral
+    );
     
-    // Create a response by XORing the challenge with the first bytes of the key
-    const response = new Uint8Array(challengeData.length);
-    for (let i = 0; i < challengeData.length; i++) {
-      response[i] = challengeData[i] ^ key[i % key.length];
-    }
-    
-    // Step 5: Send the response to the server
+    // Step 5: Send our ephemeral and proof to the server
     const loginResponse = await apiService.verifyLogin(credentials.username, {
-      clientProof: arrayToBase64(response),
-      clientEphemeral: arrayToBase64(new Uint8Array(32)),
+      challengeId: challenge.challengeId,
+      clientProof: session.clientProof,
+      clientEphemeral: session.clientEphemeral,
     });
     
     if (loginResponse.error) {
       throw new Error(loginResponse.error);
     }
     
+    // Step 6: Make sure the server also knew our verifier
+    if (!verifyServerProof(session, loginResponse.data!.serverProof)) {
+      await apiService.logout();
+      throw new Error('Server authentication failed');
+    }
+    
+    // Step 7: Unwrap the vault key. Accounts created before vault keys existed
+    // encrypt their entries with the encryption key directly.
+    const { wrappedVaultKey, twoFactorRequired, twoFactorMethods = [] } = loginResponse.data!;
+    const vaultKey = wrappedVaultKey ? unwrapKey(wrappedVaultKey, encryptionKey) : encryptionKey.slice();
+    
+    // Step 8: Complete the second factor; until then the session only allows doing so
+    if (twoFactorRequired) {
+      try {
+        await completeSecondFactor(twoFactorMethods, onSecondFactor);
+      } catch (error) {
+        vaultKey.fill(0);
+        await apiService.logout();
+        throw error;
+      }
+    }
+    
+    // Step 9: Bring accounts created under an older KDF policy up to date, without
+    // holding up the login. A failed upgrade changes nothing on the server and is
+    // simply retried on the next login, so there is nothing to report.
+    upgradeKdf(credentials.username, credentials.password, authKey, vaultKey, challenge.kdf).catch(() => undefined);
+    
     // Return a mock user object for now (the API doesn't return full user data)
     return {
-      id: loginResponse.data!.userId,
-      username: loginResponse.data!.username,
-      email: credentials.username, // Using username as email for now
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      hasWebAuthn: false,
+      user: {
+        id: loginResponse.data!.userId,
+        username: loginResponse.data!.username,
+        email: credentials.username, // Using username as email for now
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        hasWebAuthn: twoFactorMethods.includes('webauthn'),
+      },
+      vaultKey,
     };
   } catch (error) {
     throw error;
   }
 }
 
+/**
+ * Change the master password
+ * The vault key itself is unchanged; only its wrapping, the salt and the
+ * SRP verifier are replaced, so no vault entry has to be re-encrypted.
+ * @param email The user's email (SRP identity)
+ * @param credentials Current and new master password
+ * @param onProgress Optional callback for each stage of the change
+ * @returns The vault key, which stays valid under the new password
+ */
+export async function changePassword(
+  email: string,
+  credentials: PasswordChangeCredentials,
+  onProgress?: (step: PasswordChangeStep) => void
+): Promise<Uint8Array> {
+  // Step 1: Prove the current password, locally by unwrapping the vault key
+  onProgress?.('verifying');
+  const challengeResponse = await apiService.getPasswordChangeChallenge();
+  
+  if (challengeResponse.error) {
+    throw new Error(challengeResponse.error);
+  }
+  
+  const challenge = challengeResponse.data!;
+  const current = await deriveKeyHierarchy(
+    credentials.currentPassword,
+    base64ToArray(challenge.salt),
+    challenge.kdf
+  );
+  
+  let vaultKey: Uint8Array;
+  try {
+    // Accounts created before vault keys existed get one wrapped for the first time here
+    vaultKey = challenge.wrappedVaultKey
+      ? unwrapKey(challenge.wrappedVaultKey, current.encryptionKey)
+      : current.encryptionKey.slice();
+  } catch {
+    throw new Error('Current password is incorrect');
+  }
+  
+  const session = deriveSession(email, challenge.salt, arrayToHex(current.authKey), challenge.serverEphemeral);
+  
+  // Step 2: Derive the new key hierarchy and re-wrap the vault key
+  onProgress?.('deriving');
+  const kdf = await getKdfPolicy();
+  const next = await deriveKeyHierarchy(credentials.newPassword, undefined, kdf);
+  const clientSalt = arrayToBase64(next.salt);
+  
+  // Step 3: Replace salt, verifier and wrapped key in one request
+  onProgress?.('saving');
+  const response = await apiService.changePassword({
+    authResponse: {
+      challengeId: challenge.challengeId,
+      clientProof: session.clientProof,
+      clientEphemeral: session.clientEphemeral,
+    },
+    clientSalt,
+    verifier: computeVerifier(email, clientSalt, arrayToHex(next.authKey)),
+    wrappedVaultKey: wrapKey(vaultKey, next.encryptionKey),
+    kdf,
+  });
+  
+  if (response.error) {
+    throw new Error(response.error === 'Invalid credentials' ? 'Current password is incorrect' : response.error);
+  }
+  
+  if (!verifyServerProof(session, response.data!.serverProof)) {
+    throw new Error('Server authentication failed');
+  }
+  
+  return vaultKey;
+}
+
+/**
+ * Unlock the vault of the signed-in user again, e.g. after an auto-lock
+ * The session stays as it is; the master password is checked locally by
+ * unwrapping the vault key, which fails for any other password.
+ * @param password The master password
+ * @returns The unwrapped vault key
+ */
+export async function unlockVault(password: string): Promise<Uint8Array> {
+  // The password challenge carries the salt, KDF parameters and wrapped vault key
+  const challengeResponse = await apiService.getPasswordChangeChallenge();
+  
+  if (challengeResponse.error) {
+    throw new Error(challengeResponse.error);
+  }
+  
+  const challenge = challengeResponse.data!;
+  if (!challenge.wrappedVaultKey) {
+    // Without a wrapped key nothing can vouch for the password short of a full login
+    throw new Error('Sign in again to unlock the vault');
+  }
+  
+  const { encryptionKey } = await deriveKeyHierarchy(password, base64ToArray(challenge.salt), challenge.kdf);
+  
+  try {
+    return unwrapKey(challenge.wrappedVaultKey, encryptionKey);
+  } catch {
+    throw new Error('Incorrect master password');
+  } finally {
+    encryptionKey.fill(0);
+  }
+}
+
+/**
+ * Re-key the account if its KDF parameters are weaker than the current policy
+ * Runs right after a successful unlock, while the password and keys are at hand.
+ * The vault key is re-wrapped, so no vault entry has to be re-encrypted.
+ * @param email The user's email (SRP identity)
+ * @param password The master password that was just verified
+ * @param authKey Auth key derived with the account's current parameters
+ * @param vaultKey The unwrapped vault key (copied, so a logout meanwhile cannot zero it)
+ * @param kdf The account's current KDF parameters
+ * @returns Whether the account was upgraded
+ */
+async function upgradeKdf(
+  email: string,
+  password: string,
+  authKey: Uint8Array,
+  vaultKey: Uint8Array,
+  kdf: KdfParams
+): Promise<boolean> {
+  const key = vaultKey.slice();
+  
+  try {
+    const policy = await getKdfPolicy();
+    if (!isKdfWeaker(kdf, policy)) {
+      return false;
+    }
+    
+    // Prove the current credentials again; the login challenge is single use
+    const challengeResponse = await apiService.getPasswordChangeChallenge();
+    
+    if (challengeResponse.error) {
+      throw new Error(challengeResponse.error);
+    }
+    
+    const challenge = challengeResponse.data!;
+    const session = deriveSession(email, challenge.salt, arrayToHex(authKey), challenge.serverEphemeral);
+    
+    // Derive the new hierarchy with the policy parameters and a fresh salt
+    const next = await deriveKeyHierarchy(password, undefined, policy);
+    const clientSalt = arrayToBase64(next.salt);
+    
+    const response = await apiService.upgradeKdf({
+      authResponse: {
+        challengeId: challenge.challengeId,
+        clientProof: session.clientProof,
+        clientEphemeral: session.clientEphemeral,
+      },
+      clientSalt,
+      verifier: computeVerifier(email, clientSalt, arrayToHex(next.authKey)),
+      wrappedVaultKey: wrapKey(key, next.encryptionKey),
+      kdf: policy,
+    });
+    
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    
+    if (!verifyServerProof(session, response.data!.serverProof)) {
+      throw new Error('Server authentication failed');
+    }
+    
+    return true;
+  } finally {
+    key.fill(0);
+  }
+}
+
 /**
  * Logout the current user
  */
@@ -154,7 +413,7 @@ export async function getCurrentUser(): Promise<User | null> {
       email: response.data.email,
       createdAt: response.data.createdAt,
       updatedAt: response.data.updatedAt,
-      hasWebAuthn: false, // TODO: Implement WebAuthn check
+      hasWebAuthn: !!response.data.hasWebAuthn,
     };
   } catch (error) {
     return null;
@@ -162,67 +421,539 @@ export async function getCurrentUser(): Promise<User | null> {
 }
 
 /**
- * Register a new WebAuthn credential (security key)
- * @param name Friendly name for the credential
- * @returns The registered WebAuthn credential
+ * Get the current user's active sessions
+ * @returns Sessions, most recently used first
  */
-export async function registerWebAuthnCredential(name: string): Promise<WebAuthnCredential> {
+export async function getSessions(): Promise<SessionInfo[]> {
+  const response = await apiService.getSessions();
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to get sessions');
+  }
+  
+  return response.data;
+}
+
+/**
+ * Sign out one of the current user's sessions
+ * @param id Session ID to revoke
+ */
+export async function revokeSession(id: string): Promise<void> {
+  const response = await apiService.revokeSession(id);
+  
+  if (response.error) {
+    throw new Error(response.error);
+  }
+}
+
+/**
+ * Sign out every session of the current user, including this one
+ */
+export async function logoutEverywhere(): Promise<void> {
+  const response = await apiService.revokeAllSessions();
+  
+  if (response.error) {
+    throw new Error(response.error);
+  }
+}
+
+/**
+ * Get one page of the current user's security events, newest first
+ * @param types Only events of these types; all if empty
+ */
+export async function getAuditEvents(page: number, pageSize: number, types: AuditEventType[] = []): Promise<AuditEventPage> {
+  const response = await apiService.getAuditEvents(page, pageSize, types);
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to get security events');
+  }
+  
+  return response.data;
+}
+
+/**
+ * Ask a passkey for an assertion, evaluating its PRF for passkey login
+ * @param optionsJSON Authentication options, from the server or built locally
+ * @returns The assertion without the PRF output, which must never reach the server, and the output itself
+ */
+async function getPasskeyAssertion(
+  optionsJSON: PublicKeyCredentialRequestOptionsJSON
+): Promise<{ assertion: AuthenticationResponseJSON; prfOutput: Uint8Array | null }> {
+  // The library's bundled DOM types predate PRF, so the browser's own types are used
+  const extensions: AuthenticationExtensionsClientInputs = {
+    ...optionsJSON.extensions,
+    prf: { eval: { first: PASSKEY_PRF_SALT } },
+  };
+  const assertion = await webauthn.startAuthentication({ optionsJSON: { ...optionsJSON, extensions } });
+
+  const results = assertion.clientExtensionResults as AuthenticationExtensionsClientOutputs;
+  const output = results.prf?.results?.first;
+  return {
+    assertion: { ...assertion, clientExtensionResults: {} },
+    prfOutput: output ? new Uint8Array(output as ArrayBuffer) : null,
+  };
+}
+
+/**
+ * Describe a registered credential for display
+ */
+function toWebAuthnCredential(info: WebAuthnCredentialInfo): WebAuthnCredential {
+  return {
+    id: info.credentialId,
+    name: info.credentialDeviceType === 'multiDevice' ? 'Synced passkey' : 'Device-bound passkey',
+    prfEnabled: info.prfEnabled,
+    createdAt: info.createdAt,
+  };
+}
+
+/**
+ * Register a new WebAuthn credential (passkey or security key)
+ * If its authenticator supports the PRF extension, the passkey is also set up to
+ * unlock the vault, so it can sign in without the master password.
+ * @param vaultKey The unwrapped vault key
+ * @returns The registered WebAuthn credential, and recovery codes if it is the first second factor
+ */
+export async function registerWebAuthnCredential(vaultKey: Uint8Array): Promise<PasskeyRegistration> {
+  // Step 1: Get registration options from server
+  const optionsResponse = await apiService.getWebAuthnRegistrationOptions();
+  
+  if (optionsResponse.error || !optionsResponse.data) {
+    throw new Error(optionsResponse.error || 'Failed to get registration options');
+  }
+  
+  // Step 2: Create credential using browser API. Security keys only enable PRF
+  // for credentials that asked for it at creation.
+  const options = optionsResponse.data;
+  const extensions: AuthenticationExtensionsClientInputs = { ...options.extensions, prf: {} };
+  const attestationResponse = await webauthn.startRegistration({ optionsJSON: { ...options, extensions } });
+  
+  // Step 3: Verify with server
+  const verificationResponse = await apiService.completeWebAuthnRegistration(attestationResponse);
+  
+  if (verificationResponse.error || !verificationResponse.data?.verified) {
+    throw new Error(verificationResponse.error || 'WebAuthn registration failed');
+  }
+  
+  // Step 4: Let the passkey unlock the vault. The registration stands even if
+  // this fails; the passkey then only signs in to a locked vault.
+  let prfEnabled = false;
   try {
-    // Step 1: Get registration options from server
-    const optionsResponse = await apiService.getWebAuthnRegistrationOptions();
+    prfEnabled = await enablePasskeyVaultUnlock(attestationResponse.id, vaultKey);
+  } catch (error) {
+    console.warn('Passkey vault unlock setup failed:', error);
+  }
+  
+  return {
+    credential: {
+      id: attestationResponse.id,
+      name: attestationResponse.authenticatorAttachment === 'cross-platform' ? 'Security key' : 'Passkey',
+      prfEnabled,
+      createdAt: new Date().toISOString(),
+    },
+    recoveryCodes: verificationResponse.data.recoveryCodes ?? null,
+  };
+}
+
+/**
+ * Let a registered passkey unlock the vault by wrapping the vault key with its PRF output
+ * @param credentialId The passkey's credential ID
+ * @param vaultKey The unwrapped vault key
+ * @returns Whether the passkey's authenticator supports PRF
+ */
+export async function enablePasskeyVaultUnlock(credentialId: string, vaultKey: Uint8Array): Promise<boolean> {
+  // Copy the key, since the authenticator prompt may outlast an auto-lock
+  const key = vaultKey.slice();
+  
+  try {
+    // Step 1: Evaluate the PRF. The server verifies nothing here, so a local challenge will do.
+    const { prfOutput } = await getPasskeyAssertion({
+      challenge: webauthn.bufferToBase64URLString(crypto.getRandomValues(new Uint8Array(32)).buffer),
+      allowCredentials: [{ id: credentialId, type: 'public-key' }],
+      userVerification: 'required',
+    });
     
-    if (optionsResponse.error || !optionsResponse.data) {
-      throw new Error(optionsResponse.error || 'Failed to get registration options');
+    if (!prfOutput) {
+      return false;
     }
     
-    // Step 2: Create credential using browser API
-    const attestationResponse = await webauthn.startRegistration(optionsResponse.data);
+    // Step 2: Wrap the vault key with a key derived from the PRF output
+    let wrappedVaultKey: string;
+    try {
+      const wrappingKey = await derivePasskeyLoginKey(prfOutput);
+      try {
+        wrappedVaultKey = wrapKey(key, wrappingKey);
+      } finally {
+        wrappingKey.fill(0);
+      }
+    } finally {
+      prfOutput.fill(0);
+    }
     
-    // Step 3: Verify with server
-    const verificationResponse = await apiService.completeWebAuthnRegistration({
-      attestationResponse,
-      name,
-    });
+    // Step 3: Store the wrapped key with the credential
+    const response = await apiService.setPasskeyVaultKey(credentialId, wrappedVaultKey);
     
-    if (verificationResponse.error || !verificationResponse.data) {
-      throw new Error(verificationResponse.error || 'WebAuthn registration failed');
+    if (response.error) {
+      throw new Error(response.error);
     }
     
-    return verificationResponse.data;
-  } catch (error) {
-    throw error;
+    return true;
+  } finally {
+    key.fill(0);
   }
 }
 
 /**
- * Authenticate with WebAuthn (as second factor)
+ * Sign in with a passkey, without a username or the master password
+ * The server finds the account from the passkey's user handle. A passkey set up
+ * with PRF also unwraps the vault key; any other passkey signs in to a locked vault.
+ * @returns The authenticated user and, if the passkey could unwrap it, the vault key
+ */
+export async function loginWithPasskey(): Promise<PasskeyLoginSession> {
+  // Step 1: Request a challenge that is not tied to any account
+  const optionsResponse = await apiService.getPasskeyLoginOptions();
+  
+  if (optionsResponse.error || !optionsResponse.data) {
+    throw new Error(optionsResponse.error || 'Failed to get authentication options');
+  }
+  
+  // Step 2: Let the authenticator offer its passkeys for this site
+  const { assertion, prfOutput } = await getPasskeyAssertion(optionsResponse.data);
+  
+  try {
+    // Step 3: Verify with the server, which resolves the account
+    const loginResponse = await apiService.verifyPasskeyLogin(assertion);
+    
+    if (loginResponse.error || !loginResponse.data) {
+      throw new Error(loginResponse.error || 'Passkey login failed');
+    }
+    
+    const { userId, username, email, prfWrappedVaultKey } = loginResponse.data;
+    
+    // Step 4: Unwrap the vault key with the PRF output
+    let vaultKey: Uint8Array | null = null;
+    if (prfOutput && prfWrappedVaultKey) {
+      const wrappingKey = await derivePasskeyLoginKey(prfOutput);
+      try {
+        vaultKey = unwrapKey(prfWrappedVaultKey, wrappingKey);
+      } catch {
+        console.warn('Passkey could not unwrap the vault key');
+      } finally {
+        wrappingKey.fill(0);
+      }
+    }
+    
+    return {
+      user: {
+        id: userId,
+        username,
+        email,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        hasWebAuthn: true,
+      },
+      vaultKey,
+    };
+  } finally {
+    prfOutput?.fill(0);
+  }
+}
+
+/**
+ * Authenticate with WebAuthn as the second factor of a pending login
  * @returns Success status
  */
 export async function authenticateWithWebAuthn(): Promise<boolean> {
+  // Step 1: Get authentication options for the pending login
+  const optionsResponse = await apiService.getWebAuthnAuthOptions();
+  
+  if (optionsResponse.error || !optionsResponse.data) {
+    throw new Error(optionsResponse.error || 'Failed to get authentication options');
+  }
+  
+  // Step 2: Get credential using browser API
+  const assertionResponse = await webauthn.startAuthentication({ optionsJSON: optionsResponse.data });
+  
+  // Step 3: Verify with server, which upgrades the session
+  const verificationResponse = await apiService.completeWebAuthnAuth(assertionResponse);
+  
+  if (verificationResponse.error) {
+    throw new Error(verificationResponse.error || 'WebAuthn authentication failed');
+  }
+  
+  return true;
+}
+
+/**
+ * Complete the second factor of a pending login
+ * @param methods Second factors the server accepts for this account
+ * @param onSecondFactor Optional callback choosing the method and supplying a TOTP code
+ */
+async function completeSecondFactor(
+  methods: TwoFactorMethod[],
+  onSecondFactor?: (methods: TwoFactorMethod[]) => Promise<SecondFactorResponse>
+): Promise<void> {
+  // Without a way to ask for a code, only a passkey can answer
+  let response: SecondFactorResponse;
+  if (onSecondFactor) {
+    response = await onSecondFactor(methods);
+  } else if (methods.includes('webauthn')) {
+    response = { method: 'webauthn' };
+  } else {
+    throw new Error('An authenticator app code is required');
+  }
+  
+  if (!methods.includes(response.method)) {
+    throw new Error('Second factor not available for this account');
+  }
+  
+  if (response.method === 'webauthn') {
+    await authenticateWithWebAuthn();
+    return;
+  }
+  
+  const verificationResponse = response.method === 'totp'
+    ? await apiService.completeTotpAuth(response.code)
+    : await apiService.completeRecoveryCodeAuth(response.code);
+  
+  if (verificationResponse.error) {
+    throw new Error(verificationResponse.error || 'Second factor authentication failed');
+  }
+}
+
+/**
+ * Whether the current user has an authenticator app set up
+ */
+export async function isTotpEnabled(): Promise<boolean> {
+  const response = await apiService.getCurrentUser();
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to get account details');
+  }
+  
+  return !!response.data.hasTotp;
+}
+
+/**
+ * Get when failed login attempts last locked the current user's account
+ * @returns ISO timestamp, or null if it never happened
+ */
+export async function getLastLockout(): Promise<string | null> {
+  const response = await apiService.getCurrentUser();
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to get account details');
+  }
+  
+  return response.data.lastLockoutAt ?? null;
+}
+
+/**
+ * Get when a deleted account of the current user is purged
+ * @returns ISO timestamp, or null unless a deletion is scheduled
+ */
+export async function getPendingDeletion(): Promise<string | null> {
+  const response = await apiService.getCurrentUser();
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to get account details');
+  }
+  
+  return response.data.deletionDueAt ?? null;
+}
+
+/**
+ * Prove the master password and the second factor afresh, for a sensitive action
+ * @param email The user's email (SRP identity)
+ * @param password The master password
+ * @param secondFactor How the user confirms with their second factor; omitted without one
+ * @returns The proof to send along with the action
+ */
+async function reauthenticate(
+  email: string,
+  password: string,
+  secondFactor: SecondFactorResponse | undefined
+): Promise<ReauthenticationRequest> {
+  // Step 1: Prove the master password, checked locally first so a typo costs no attempt
+  const challengeResponse = await apiService.getPasswordChangeChallenge();
+  
+  if (challengeResponse.error) {
+    throw new Error(challengeResponse.error);
+  }
+  
+  const challenge = challengeResponse.data!;
+  const { authKey, encryptionKey } = await deriveKeyHierarchy(password, base64ToArray(challenge.salt), challenge.kdf);
+  
   try {
-    // Step 1: Get authentication options from server
-    const optionsResponse = await apiService.getWebAuthnAuthOptions();
+    if (challenge.wrappedVaultKey) {
+      unwrapKey(challenge.wrappedVaultKey, encryptionKey).fill(0);
+    }
+  } catch {
+    throw new Error('Incorrect master password');
+  } finally {
+    encryptionKey.fill(0);
+  }
+  
+  const session = deriveSession(email, challenge.salt, arrayToHex(authKey), challenge.serverEphemeral);
+  authKey.fill(0);
+  
+  // Step 2: Confirm with the second factor; a passkey needs a challenge of its own
+  let proof: ReauthenticationRequest['secondFactor'];
+  if (secondFactor?.method === 'webauthn') {
+    const optionsResponse = await apiService.getWebAuthnReauthOptions();
     
     if (optionsResponse.error || !optionsResponse.data) {
       throw new Error(optionsResponse.error || 'Failed to get authentication options');
     }
     
-    // Step 2: Get credential using browser API
-    const assertionResponse = await webauthn.startAuthentication(optionsResponse.data);
-    
-    // Step 3: Verify with server
-    const verificationResponse = await apiService.completeWebAuthnAuth({
-      assertionResponse,
-    });
-    
-    if (verificationResponse.error) {
-      throw new Error(verificationResponse.error || 'WebAuthn authentication failed');
+    proof = { method: 'webauthn', credential: await webauthn.startAuthentication({ optionsJSON: optionsResponse.data }) };
+  } else {
+    proof = secondFactor;
+  }
+  
+  return {
+    authResponse: {
+      challengeId: challenge.challengeId,
+      clientProof: session.clientProof,
+      clientEphemeral: session.clientEphemeral,
+    },
+    secondFactor: proof,
+  };
+}
+
+/**
+ * Delete the current user's account
+ * The master password is proven afresh, and so is the second factor if the
+ * account has one. Every session ends, this one included.
+ * @param email The user's email (SRP identity)
+ * @param password The master password
+ * @param secondFactor How the user confirms with their second factor; omitted without one
+ * @param gracePeriod Keep the account restorable for a while instead of purging it now
+ * @returns The signed receipt, for the user to keep
+ */
+export async function deleteAccount(
+  email: string,
+  password: string,
+  secondFactor: SecondFactorResponse | undefined,
+  gracePeriod: boolean
+): Promise<SignedDeletionReceipt> {
+  const proof = await reauthenticate(email, password, secondFactor);
+  const response = await apiService.deleteAccount({ ...proof, gracePeriod });
+  
+  if (response.error || !response.data) {
+    throw new Error(
+      response.error === 'Invalid credentials' ? 'Incorrect master password' : response.error || 'Failed to delete account'
+    );
+  }
+  
+  return response.data;
+}
+
+/**
+ * Cancel the scheduled deletion of the current user's account
+ */
+export async function restoreAccount(): Promise<void> {
+  const response = await apiService.restoreAccount();
+  
+  if (response.error) {
+    throw new Error(response.error);
+  }
+}
+
+/**
+ * Download everything the server holds about the current user's account
+ * @returns The signed archive; its vault is still encrypted
+ */
+export async function getTakeout(): Promise<SignedAccountTakeout> {
+  const response = await apiService.getTakeout();
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to export account data');
+  }
+  
+  return response.data;
+}
+
+/**
+ * Start setting up an authenticator app
+ * @returns The secret and the otpauth:// URI to show as a QR code
+ */
+export async function beginTotpEnrollment(): Promise<TotpEnrollment> {
+  const response = await apiService.beginTotpEnrollment();
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to start authenticator setup');
+  }
+  
+  return response.data;
+}
+
+/**
+ * Finish setting up an authenticator app with its first code
+ * @param code 6-digit code from the app
+ * @returns Recovery codes if this is the first second factor, otherwise null
+ */
+export async function confirmTotpEnrollment(code: string): Promise<string[] | null> {
+  const response = await apiService.confirmTotpEnrollment(code);
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error === 'Invalid code' ? 'That code did not match. Try the next one.' : response.error);
+  }
+  
+  return response.data.recoveryCodes ?? null;
+}
+
+/**
+ * Turn the authenticator app off
+ * @param code Current 6-digit code from the app
+ */
+export async function disableTotp(code: string): Promise<void> {
+  const response = await apiService.disableTotp(code);
+  
+  if (response.error) {
+    throw new Error(response.error === 'Invalid code' ? 'That code did not match. Try the next one.' : response.error);
+  }
+}
+
+/**
+ * Number of unused recovery codes the current user has left
+ */
+export async function getRecoveryCodeCount(): Promise<number> {
+  const response = await apiService.getRecoveryCodeCount();
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to get recovery codes');
+  }
+  
+  return response.data.remaining;
+}
+
+/**
+ * Replace the current user's recovery codes, invalidating the old set
+ * The master password and the second factor are proven afresh, so a stolen
+ * session cannot swap the codes for ones only its thief knows.
+ * @param email The user's email (SRP identity)
+ * @param password The master password
+ * @param secondFactor How the user confirms with their second factor
+ * @returns The new codes, which cannot be retrieved again
+ */
+export async function regenerateRecoveryCodes(
+  email: string,
+  password: string,
+  secondFactor: SecondFactorResponse | undefined
+): Promise<string[]> {
+  const proof = await reauthenticate(email, password, secondFactor);
+  const response = await apiService.regenerateRecoveryCodes(proof);
+  
+  if (response.error || !response.data) {
+    if (response.error === 'Invalid credentials') {
+      throw new Error('Incorrect master password');
     }
-    
-    return true;
-  } catch (error) {
-    throw error;
+    throw new Error(response.error === 'No second factor enabled'
+      ? 'Set up a passkey or authenticator app first'
+      : response.error || 'Failed to generate recovery codes');
   }
+  
+  return response.data.codes;
 }
 
 /**
@@ -230,26 +961,34 @@ export async function authenticateWithWebAuthn(): Promise<boolean> {
  * @returns List of WebAuthn credentials
  */
 export async function getWebAuthnCredentials(): Promise<WebAuthnCredential[]> {
-  try {
-    // TODO: Implement WebAuthn credentials listing
-    return [];
-  } catch (error) {
-    console.error('Failed to get WebAuthn credentials:', error);
-    return [];
+  const response = await apiService.getWebAuthnCredentials();
+  
+  if (response.error || !response.data) {
+    throw new Error(response.error || 'Failed to get WebAuthn credentials');
   }
+  
+  return response.data.map(toWebAuthnCredential);
 }
 
 /**
- * Delete a WebAuthn credential
+ * Delete a WebAuthn credential, confirmed with the master password and the second factor
  * @param id Credential ID to delete
- * @returns Success status
+ * @param email The user's email (SRP identity)
+ * @param password The master password
+ * @param secondFactor How to confirm the second factor, if the account has one
  */
-export async function deleteWebAuthnCredential(id: string): Promise<boolean> {
-  try {
-    // TODO: Implement WebAuthn credential deletion
-    return false;
-  } catch (error) {
-    console.error('Failed to delete WebAuthn credential:', error);
-    return false;
+export async function deleteWebAuthnCredential(
+  id: string,
+  email: string,
+  password: string,
+  secondFactor: SecondFactorResponse | undefined
+): Promise<void> {
+  const proof = await reauthenticate(email, password, secondFactor);
+  const response = await apiService.deleteWebAuthnCredential(id, proof);
+  
+  if (response.error) {
+    throw new Error(response.error === 'Invalid credentials'
+      ? 'Incorrect master password'
+      : response.error);
   }
-}
\ No newline at end of file
+}
@@ -4,10 +4,13 @@
  */
 
 import { apiService } from './api';
-import type { LoginChallenge, AuthResponse } from '../types/api.types';
-import { deriveKeyFromPassword } from '../crypto';
+import { deriveKeyHierarchy, generateVaultKey, wrapKey } from '../crypto';
+import { computeVerifier } from '../crypto/srp';
+import { login } from './auth';
+import * as keyManager from './keyManager';
+import type { TwoFactorMethod, SecondFactorResponse } from '../types';
 
-// SRP implementation (simplified for demo)
+// SRP-6a authentication
 class AuthService {
   private isAuthenticated = false;
   private currentUser: { id: string; username: string } | null = null;
@@ -26,6 +29,13 @@ class AuthService {
     return this.currentUser;
   }
 
+  /**
+   * Get the unwrapped vault key (null while the vault is locked)
+   */
+  getVaultKey(): Uint8Array | null {
+    return keyManager.isUnlocked() ? keyManager.getVaultKey() : null;
+  }
+
   /**
    * Set authentication state (for mock/development)
    */
@@ -43,15 +53,27 @@ class AuthService {
     password: string;
   }): Promise<{ success: boolean; error?: string }> {
     try {
-      // Generate client salt and verifier (simplified SRP)
-      const clientSalt = this.generateSalt();
-      const verifier = await this.generateVerifier(data.password, clientSalt);
+      // Get the KDF parameters the server requires
+      const policyResponse = await apiService.getKdfPolicy();
+      if (policyResponse.error) {
+        return { success: false, error: policyResponse.error };
+      }
+      const kdf = policyResponse.data!;
+
+      // Generate client salt, SRP verifier and wrapped vault key
+      const salt = this.generateSalt();
+      const clientSalt = this.arrayToBase64(salt);
+      const { authKey, encryptionKey } = await deriveKeyHierarchy(data.password, salt, kdf);
+      const verifier = computeVerifier(data.email, clientSalt, this.arrayToHex(authKey));
+      const wrappedVaultKey = wrapKey(generateVaultKey(), encryptionKey);
 
       const response = await apiService.register({
         email: data.email,
         username: data.username,
-        clientSalt: this.arrayToBase64(clientSalt),
-        verifier: this.arrayToBase64(verifier),
+        clientSalt,
+        verifier,
+        wrappedVaultKey,
+        kdf,
       });
 
       if (response.error) {
@@ -70,28 +92,20 @@ class AuthService {
   /**
    * Login user
    */
-  async login(email: string, password: string): Promise<{ success: boolean; error?: string }> {
+  async login(
+    email: string,
+    password: string,
+    onSecondFactor?: (methods: TwoFactorMethod[]) => Promise<SecondFactorResponse>
+  ): Promise<{ success: boolean; error?: string }> {
     try {
-      // Step 1: Get login challenge
-      const challengeResponse = await apiService.getLoginChallenge(email);
-      if (challengeResponse.error) {
-        return { success: false, error: challengeResponse.error };
-      }
-
-      const challenge = challengeResponse.data!;
-
-      // Step 2: Generate client response (simplified SRP)
-      const authResponse = await this.generateAuthResponse(password, challenge);
-
-      // Step 3: Verify login
-      const verifyResponse = await apiService.verifyLogin(email, authResponse);
-      if (verifyResponse.error) {
-        return { success: false, error: verifyResponse.error };
-      }
+      // The login flow itself lives in ./auth; this only keeps the key manager and our state in step
+      const { user, vaultKey } = await login({ username: email, password }, onSecondFactor);
+      keyManager.lock();
+      keyManager.completeUnlock(vaultKey, user.id);
 
       // Set authentication state
       this.isAuthenticated = true;
-      this.currentUser = verifyResponse.data!;
+      this.currentUser = { id: user.id, username: user.username };
 
       return { success: true };
     } catch (error) {
@@ -106,6 +120,7 @@ class AuthService {
    * Logout user
    */
   async logout(): Promise<void> {
+    keyManager.lock();
     try {
       await apiService.logout();
     } catch (error) {
@@ -144,34 +159,6 @@ class AuthService {
     return salt;
   }
 
-  /**
-   * Generate verifier for SRP registration
-   */
-  private async generateVerifier(password: string, salt: Uint8Array): Promise<Uint8Array> {
-    // In a real implementation, this would use SRP's verifier generation
-    // For demo purposes, we'll use Argon2id
-    const { key } = await deriveKeyFromPassword(password, salt);
-    return key;
-  }
-
-  /**
-   * Generate authentication response for SRP login
-   */
-  private async generateAuthResponse(
-    password: string, 
-    challenge: LoginChallenge
-  ): Promise<AuthResponse> {
-    // In a real implementation, this would use SRP's client proof generation
-    // For demo purposes, we'll create a simple response
-    const salt = this.base64ToArray(challenge.salt);
-    const { key } = await deriveKeyFromPassword(password, salt);
-    
-    return {
-      clientProof: this.arrayToBase64(key),
-      clientEphemeral: this.arrayToBase64(new Uint8Array(32)),
-    };
-  }
-
   /**
    * Convert Uint8Array to Base64
    */
@@ -180,11 +167,10 @@ class AuthService {
   }
 
   /**
-   * Convert Base64 to Uint8Array
+   * Convert Uint8Array to hex
    */
-  private base64ToArray(base64: string): Uint8Array {
-    const binary = atob(base64);
-    return new Uint8Array(binary.length).map((_, i) => binary.charCodeAt(i));
+  private arrayToHex(array: Uint8Array): string {
+    return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
   }
 
   /**
@@ -0,0 +1,69 @@
+/**
+ * Auto-Lock Service
+ *
+ * Watches for user inactivity and fires once the configured timeout has passed:
+ * - Pointer, keyboard, touch and scroll input count as activity
+ * - Idle time is measured on the wall clock, so time spent in a hidden tab
+ *   (where timers are throttled) or in system sleep counts as well
+ * - The deadline is checked again as soon as the page becomes visible or regains focus
+ */
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+// How often the deadline is checked while the page is running
+const CHECK_INTERVAL_MS = 5_000;
+
+/**
+ * Start watching for inactivity
+ * @param timeoutMinutes Minutes without input before firing; 0 disables the monitor
+ * @param onIdle Called once when the timeout is reached; the monitor stops afterwards
+ * @returns Function stopping the monitor
+ */
+export function startInactivityMonitor(timeoutMinutes: number, onIdle: () => void): () => void {
+  if (timeoutMinutes <= 0) {
+    return () => {};
+  }
+
+  const timeoutMs = timeoutMinutes * 60_000;
+  let lastActivity = Date.now();
+  let stopped = false;
+
+  const recordActivity = () => {
+    lastActivity = Date.now();
+  };
+
+  const check = () => {
+    if (!stopped && Date.now() - lastActivity >= timeoutMs) {
+      stop();
+      onIdle();
+    }
+  };
+
+  // Coming back to the page is not activity in itself, but it is when the deadline matters most
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      check();
+    }
+  };
+
+  const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+  ACTIVITY_EVENTS.forEach(event => {
+    window.addEventListener(event, recordActivity, { capture: true, passive: true });
+  });
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('focus', check);
+  window.addEventListener('pageshow', check);
+
+  function stop(): void {
+    stopped = true;
+    window.clearInterval(interval);
+    ACTIVITY_EVENTS.forEach(event => {
+      window.removeEventListener(event, recordActivity, { capture: true });
+    });
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('focus', check);
+    window.removeEventListener('pageshow', check);
+  }
+
+  return stop;
+}
@@ -0,0 +1,99 @@
+/**
+ * Clipboard Service
+ *
+ * Single entry point for copying secrets:
+ * - Schedules clearing the clipboard after a delay
+ * - Clears only if the clipboard still holds what we wrote, so anything the
+ *   user copied in the meantime is left alone
+ * - A new copy replaces the pending clear of the previous one
+ */
+
+interface PendingClear {
+  text: string;
+  timer: number;
+  onSettled: () => void;
+}
+
+let pending: PendingClear | null = null;
+
+function cancelPending(): void {
+  if (pending) {
+    window.clearTimeout(pending.timer);
+    window.removeEventListener('focus', retryOnFocus);
+    pending = null;
+  }
+}
+
+/**
+ * Clear the clipboard if it still holds the text we wrote
+ * Browsers only allow reading the clipboard while the page has focus; without
+ * focus the check is repeated once the window is focused again.
+ */
+async function clearIfUnchanged(): Promise<void> {
+  const current = pending;
+  if (!current) {
+    return;
+  }
+
+  let contents: string;
+  try {
+    contents = await navigator.clipboard.readText();
+  } catch {
+    window.addEventListener('focus', retryOnFocus, { once: true });
+    return;
+  }
+
+  // Another copy may have taken over while the read was pending
+  if (pending !== current) {
+    return;
+  }
+
+  if (contents === current.text) {
+    try {
+      await navigator.clipboard.writeText('');
+    } catch {
+      window.addEventListener('focus', retryOnFocus, { once: true });
+      return;
+    }
+  }
+
+  pending = null;
+  current.onSettled();
+}
+
+function retryOnFocus(): void {
+  void clearIfUnchanged();
+}
+
+/**
+ * Copy text to the clipboard and schedule clearing it
+ * @param text The text to copy
+ * @param clearAfterSeconds Delay before clearing; 0 keeps the text on the clipboard
+ * @param onSettled Called once the scheduled clear has run, unless a later copy replaced it
+ */
+export async function copyText(
+  text: string,
+  clearAfterSeconds: number,
+  onSettled: () => void = () => {}
+): Promise<void> {
+  cancelPending();
+  await navigator.clipboard.writeText(text);
+
+  if (clearAfterSeconds > 0) {
+    pending = {
+      text,
+      timer: window.setTimeout(() => void clearIfUnchanged(), clearAfterSeconds * 1000),
+      onSettled,
+    };
+  }
+}
+
+/**
+ * Run the pending clear right away
+ */
+export async function clearNow(): Promise<void> {
+  if (pending) {
+    window.clearTimeout(pending.timer);
+    await clearIfUnchanged();
+  }
+}
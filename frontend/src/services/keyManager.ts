@@ -0,0 +1,134 @@
+/**
+ * Key Manager
+ *
+ * Sole holder of unwrapped key material on the client:
+ * - Keys live in module memory only, never in stores, storage or the DOM
+ * - Every key handed in is owned from then on and zeroed on lock
+ * - Tracks the vault lock state (locked → unlocking → unlocked) for the lock store
+ */
+
+import type { LockStatus } from '../types';
+
+type LockListener = (status: LockStatus) => void;
+
+let status: LockStatus = 'locked';
+let vaultKey: Uint8Array | null = null;
+let keyOwner: string | null = null;
+const listeners = new Set<LockListener>();
+
+function setStatus(next: LockStatus): void {
+  status = next;
+  listeners.forEach(listener => listener(next));
+}
+
+function wipeKeys(): void {
+  vaultKey?.fill(0);
+  vaultKey = null;
+  keyOwner = null;
+}
+
+/**
+ * Current lock state
+ */
+export function getLockStatus(): LockStatus {
+  return status;
+}
+
+/**
+ * Whether the vault key is available
+ */
+export function isUnlocked(): boolean {
+  return status === 'unlocked';
+}
+
+/**
+ * Subscribe to lock state changes
+ * @param listener Called with the new state on every transition
+ * @returns Function removing the listener
+ */
+export function subscribe(listener: LockListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Mark an unlock attempt as in progress
+ */
+export function beginUnlock(): void {
+  if (status === 'unlocked') {
+    throw new Error('Vault is already unlocked');
+  }
+  setStatus('unlocking');
+}
+
+/**
+ * Finish an unlock by taking ownership of the vault key
+ * @param key The unwrapped vault key; zeroed by the key manager on lock
+ * @param userId The user the key belongs to, which entry ciphertexts are bound to
+ */
+export function completeUnlock(key: Uint8Array, userId: string): void {
+  wipeKeys();
+  vaultKey = key;
+  keyOwner = userId;
+  setStatus('unlocked');
+}
+
+/**
+ * Give up an unlock attempt that failed
+ */
+export function abortUnlock(): void {
+  if (status === 'unlocking') {
+    setStatus('locked');
+  }
+}
+
+/**
+ * Swap in a new vault key while unlocked, e.g. after a master password change
+ * @param key The new unwrapped vault key; the previous one is zeroed
+ */
+export function replaceVaultKey(key: Uint8Array): void {
+  if (status !== 'unlocked' || !keyOwner) {
+    key.fill(0);
+    throw new Error('Vault is locked');
+  }
+
+  const owner = keyOwner;
+  wipeKeys();
+  vaultKey = key;
+  keyOwner = owner;
+}
+
+/**
+ * Zero all key material and lock the vault
+ */
+export function lock(): void {
+  wipeKeys();
+  if (status !== 'locked') {
+    setStatus('locked');
+  }
+}
+
+/**
+ * Get the vault key
+ * Callers that hold on to it across awaits should work on a copy, since a lock zeroes it.
+ * @throws If the vault is locked
+ */
+export function getVaultKey(): Uint8Array {
+  if (status !== 'unlocked' || !vaultKey) {
+    throw new Error('Vault is locked');
+  }
+  return vaultKey;
+}
+
+/**
+ * Get the ID of the user whose vault is unlocked
+ * @throws If the vault is locked
+ */
+export function getKeyOwner(): string {
+  if (status !== 'unlocked' || !keyOwner) {
+    throw new Error('Vault is locked');
+  }
+  return keyOwner;
+}
@@ -0,0 +1,29 @@
+/**
+ * QR Code Encoder
+ *
+ * Encodes otpauth:// URIs for authenticator apps locally, so secrets never
+ * pass through a third-party service:
+ * - Byte mode with UTF-8 text, error correction level M
+ * - The smallest version that fits the text
+ */
+
+import qrcode from 'qrcode-generator';
+
+// Byte mode would otherwise keep only the low byte of each character
+qrcode.stringToBytes = qrcode.stringToBytesFuncs['UTF-8'];
+
+/**
+ * Encode text as a QR code
+ * @param text Text to encode, such as an otpauth:// URI
+ * @returns Module matrix indexed [y][x], true for dark modules, without the quiet zone
+ */
+export function encodeQrCode(text: string): boolean[][] {
+  const qr = qrcode(0, 'M');
+  qr.addData(text, 'Byte');
+  qr.make();
+
+  const size = qr.getModuleCount();
+  return Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => qr.isDark(y, x))
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * Quick Unlock Service
+ *
+ * Lets a signed-in user unlock the vault again with a short PIN or a passkey
+ * instead of the full master password:
+ * - After a full login the vault key is wrapped with a key derived from the PIN
+ *   (Argon2id) or from the WebAuthn PRF extension of a registered authenticator
+ * - The wrapped key lives in session storage only, so it is gone with the tab
+ * - The record is deleted after MAX_QUICK_UNLOCK_ATTEMPTS failed attempts and on logout
+ *
+ * A PIN has little entropy; the attempt limit guards the unlock screen, not a copy
+ * of session storage, which is why the record never outlives the browser session.
+ */
+
+import { deriveKeyFromPassword, deriveQuickUnlockKey, wrapKey, unwrapKey } from '../crypto';
+import type { QuickUnlockMethod } from '../types';
+
+const STORAGE_KEY = 'falcon-pass-quick-unlock';
+const SALT_BYTES = 32;
+const PIN_PATTERN = /^\d{4,12}$/;
+
+// Failed attempts allowed before quick unlock is switched off
+export const MAX_QUICK_UNLOCK_ATTEMPTS = 5;
+
+interface QuickUnlockRecord {
+  method: QuickUnlockMethod;
+  userId: string;
+  wrappedVaultKey: string;
+  salt: string; // Argon2id salt of the PIN, or the PRF evaluation input
+  credentialId?: string; // Authenticator holding the PRF secret
+  failedAttempts: number;
+}
+
+// Helper functions
+function arrayToBase64(array: Uint8Array): string {
+  return btoa(String.fromCharCode(...array));
+}
+
+function base64ToArray(base64: string): Uint8Array {
+  const binary = atob(base64);
+  return new Uint8Array(binary.length).map((_, i) => binary.charCodeAt(i));
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function loadRecord(): QuickUnlockRecord | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as QuickUnlockRecord) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveRecord(record: QuickUnlockRecord): void {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+}
+
+/**
+ * Get the quick-unlock record for a user, failing if there is none
+ */
+function requireRecord(method: QuickUnlockMethod, userId: string): QuickUnlockRecord {
+  const record = loadRecord();
+  if (!record || record.method !== method || record.userId !== userId) {
+    throw new Error('Quick unlock is not set up');
+  }
+  return record;
+}
+
+/**
+ * Stretch a PIN into a wrapping key
+ */
+async function derivePinKey(pin: string, salt: Uint8Array): Promise<Uint8Array> {
+  const { key } = await deriveKeyFromPassword(pin, salt);
+  try {
+    return await deriveQuickUnlockKey(key);
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Evaluate the PRF of an authenticator and turn the output into a wrapping key
+ * Without a credential ID any discoverable passkey for this site may answer.
+ */
+async function derivePrfKey(
+  salt: Uint8Array,
+  credentialId?: string
+): Promise<{ key: Uint8Array; credentialId: string }> {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      // Nothing is sent to the server, so the challenge only has to be fresh
+      challenge: randomBytes(32),
+      allowCredentials: credentialId
+        ? [{ type: 'public-key', id: base64ToArray(credentialId) }]
+        : [],
+      userVerification: 'required',
+      extensions: { prf: { eval: { first: salt } } },
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Passkey authentication was cancelled');
+  }
+
+  const output = credential.getClientExtensionResults().prf?.results?.first;
+  if (!output) {
+    throw new Error('This authenticator does not support quick unlock');
+  }
+
+  const secret = new Uint8Array(output as ArrayBuffer);
+  try {
+    return {
+      key: await deriveQuickUnlockKey(secret),
+      credentialId: arrayToBase64(new Uint8Array(credential.rawId)),
+    };
+  } finally {
+    secret.fill(0);
+  }
+}
+
+/**
+ * Unwrap the vault key, counting a failure against the record
+ * Exhausting the attempts deletes the record.
+ */
+function unwrapOrCount(record: QuickUnlockRecord, wrappingKey: Uint8Array): Uint8Array {
+  try {
+    const vaultKey = unwrapKey(record.wrappedVaultKey, wrappingKey);
+    saveRecord({ ...record, failedAttempts: 0 });
+    return vaultKey;
+  } catch {
+    const failedAttempts = record.failedAttempts + 1;
+    if (failedAttempts >= MAX_QUICK_UNLOCK_ATTEMPTS) {
+      disableQuickUnlock();
+      throw new Error('Too many failed attempts. Unlock with your master password.');
+    }
+
+    saveRecord({ ...record, failedAttempts });
+    const left = MAX_QUICK_UNLOCK_ATTEMPTS - failedAttempts;
+    const reason = record.method === 'pin' ? 'Incorrect PIN.' : 'The passkey did not match.';
+    throw new Error(`${reason} ${left} attempt${left === 1 ? '' : 's'} left.`);
+  } finally {
+    wrappingKey.fill(0);
+  }
+}
+
+/**
+ * Quick-unlock method set up for a user, if any
+ * @param userId The signed-in user's ID
+ */
+export function getQuickUnlockMethod(userId: string): QuickUnlockMethod | null {
+  const record = loadRecord();
+  return record && record.userId === userId ? record.method : null;
+}
+
+/**
+ * Whether the browser can use passkeys at all; PRF support is only known once tried
+ */
+export function isPasskeyUnlockAvailable(): boolean {
+  return typeof window !== 'undefined' && 'PublicKeyCredential' in window;
+}
+
+/**
+ * Set up quick unlock with a PIN, replacing any earlier setup
+ * @param pin A PIN of 4 to 12 digits
+ * @param vaultKey The unwrapped vault key
+ * @param userId The owner's user ID
+ */
+export async function enablePinUnlock(pin: string, vaultKey: Uint8Array, userId: string): Promise<void> {
+  if (!PIN_PATTERN.test(pin)) {
+    throw new Error('PIN must be 4 to 12 digits');
+  }
+
+  // Copy the key, since deriving from the PIN may outlast an auto-lock
+  const key = vaultKey.slice();
+  const salt = randomBytes(SALT_BYTES);
+
+  try {
+    const wrappingKey = await derivePinKey(pin, salt);
+    try {
+      saveRecord({
+        method: 'pin',
+        userId,
+        wrappedVaultKey: wrapKey(key, wrappingKey),
+        salt: arrayToBase64(salt),
+        failedAttempts: 0,
+      });
+    } finally {
+      wrappingKey.fill(0);
+    }
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Set up quick unlock with a passkey's PRF extension, replacing any earlier setup
+ * @param vaultKey The unwrapped vault key
+ * @param userId The owner's user ID
+ */
+export async function enablePasskeyUnlock(vaultKey: Uint8Array, userId: string): Promise<void> {
+  // Copy the key, since the authenticator prompt may outlast an auto-lock
+  const key = vaultKey.slice();
+  const salt = randomBytes(SALT_BYTES);
+
+  try {
+    const { key: wrappingKey, credentialId } = await derivePrfKey(salt);
+    try {
+      saveRecord({
+        method: 'prf',
+        userId,
+        wrappedVaultKey: wrapKey(key, wrappingKey),
+        salt: arrayToBase64(salt),
+        credentialId,
+        failedAttempts: 0,
+      });
+    } finally {
+      wrappingKey.fill(0);
+    }
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Unlock with the PIN
+ * @param pin The PIN
+ * @param userId The signed-in user's ID
+ * @returns The unwrapped vault key
+ */
+export async function unlockWithPin(pin: string, userId: string): Promise<Uint8Array> {
+  const record = requireRecord('pin', userId);
+  const wrappingKey = await derivePinKey(pin, base64ToArray(record.salt));
+  return unwrapOrCount(record, wrappingKey);
+}
+
+/**
+ * Unlock with the passkey set up for quick unlock
+ * A cancelled prompt does not count as a failed attempt.
+ * @param userId The signed-in user's ID
+ * @returns The unwrapped vault key
+ */
+export async function unlockWithPasskey(userId: string): Promise<Uint8Array> {
+  const record = requireRecord('prf', userId);
+  const { key: wrappingKey } = await derivePrfKey(base64ToArray(record.salt), record.credentialId);
+  return unwrapOrCount(record, wrappingKey);
+}
+
+/**
+ * Switch quick unlock off, deleting the wrapped vault key
+ */
+export function disableQuickUnlock(): void {
+  sessionStorage.removeItem(STORAGE_KEY);
+}
@@ -3,47 +3,53 @@
  * 
  * Handles CRUD operations for vault entries with client-side encryption:
  * - All sensitive data is encrypted before sending to server
- * - Uses XChaCha20-Poly1305 for authenticated encryption
+ * - Uses XChaCha20-Poly1305 for authenticated encryption, bound to entry ID and user ID
  * - Supports import/export of encrypted vault data
  */
 
 import { apiService } from './api';
 import {
-  encryptData,
-  decryptData,
-  serializeEncryptedData,
-  deserializeEncryptedData
+  sealEnvelope,
+  openEnvelope,
+  openLegacyBlob,
+  isLegacyEnvelope,
+  vaultEntryAssociatedData
 } from '../crypto';
 import type {
   VaultEntry,
   EncryptedVaultEntry,
+  ReadableTakeout,
   ApiResponse
 } from '../types';
+import type { AccountTakeout, VaultEntry as StoredVaultEntry } from '../types/api.types';
+
+// Opaque item type reported to the server; the client only creates login items so far
+const ITEM_TYPE_LOGIN = 'login';
 
 /**
  * Encrypt a vault entry using the provided encryption key
- * @param entry The vault entry to encrypt
+ * @param entry The vault entry to encrypt (its ID must be final)
  * @param key The encryption key
- * @param salt The salt used for key derivation
+ * @param userId The owner's user ID
  * @returns Encrypted vault entry
  */
 export function encryptVaultEntry(
   entry: VaultEntry,
   key: Uint8Array,
-  salt: Uint8Array
+  userId: string
 ): EncryptedVaultEntry {
-  // Convert entry to JSON string
-  const entryJson = JSON.stringify(entry);
-  
-  // Encrypt the data
-  const { ciphertext, nonce } = encryptData(entryJson, key);
+  // Convert entry to JSON string; name, URL, tags and the rest all stay inside the ciphertext.
+  // The revision is server state, so it is left out.
+  const entryJson = JSON.stringify({ ...entry, revision: undefined });
   
-  // Serialize for storage
-  const encryptedData = serializeEncryptedData(ciphertext, nonce, salt);
+  // Encrypt the data into a versioned envelope, bound to this entry and user
+  const encryptedData = sealEnvelope(entryJson, key, vaultEntryAssociatedData(entry.id, userId));
   
   return {
     id: entry.id,
     encryptedData,
+    itemType: ITEM_TYPE_LOGIN,
+    revision: entry.revision,
     createdAt: entry.createdAt,
     updatedAt: entry.updatedAt,
   };
@@ -53,18 +59,21 @@ export function encryptVaultEntry(
  * Decrypt a vault entry using the provided encryption key
  * @param encryptedEntry The encrypted vault entry
  * @param key The encryption key
+ * @param userId The owner's user ID
  * @returns Decrypted vault entry
  */
 export function decryptVaultEntry(
   encryptedEntry: EncryptedVaultEntry,
-  key: Uint8Array
+  key: Uint8Array,
+  userId: string
 ): VaultEntry {
   try {
-    // Deserialize the encrypted data
-    const { ciphertext, nonce } = deserializeEncryptedData(encryptedEntry.encryptedData);
-    
-    // Decrypt the data
-    const decryptedJson = decryptData(ciphertext, nonce, key);
+    // Legacy blobs are refused here; only the migration may open those
+    const decryptedJson = openEnvelope(
+      encryptedEntry.encryptedData,
+      key,
+      vaultEntryAssociatedData(encryptedEntry.id, userId)
+    );
     
     // Parse the JSON
     const entry = JSON.parse(decryptedJson) as VaultEntry;
@@ -74,6 +83,7 @@ export function decryptVaultEntry(
       id: encryptedEntry.id,
       createdAt: encryptedEntry.createdAt,
       updatedAt: encryptedEntry.updatedAt,
+      revision: encryptedEntry.revision,
     };
   } catch (error) {
     throw new Error('Failed to decrypt vault entry');
@@ -83,9 +93,10 @@ export function decryptVaultEntry(
 /**
  * Get all vault entries
  * @param key The encryption key
+ * @param userId The owner's user ID
  * @returns List of decrypted vault entries
  */
-export async function getVaultEntries(key: Uint8Array): Promise<VaultEntry[]> {
+export async function getVaultEntries(key: Uint8Array, userId: string): Promise<VaultEntry[]> {
   try {
     const response = await apiService.getVaultEntries();
     
@@ -99,9 +110,10 @@ export async function getVaultEntries(key: Uint8Array): Promise<VaultEntry[]> {
         return decryptVaultEntry({
           id: encryptedEntry.id,
           encryptedData: encryptedEntry.encryptedData,
+          revision: encryptedEntry.revision,
           createdAt: encryptedEntry.createdAt,
           updatedAt: encryptedEntry.updatedAt,
-        }, key);
+        }, key, userId);
       } catch (error) {
         console.error('Failed to decrypt entry:', encryptedEntry.id, error);
         // Return a placeholder for entries that couldn't be decrypted
@@ -111,6 +123,7 @@ export async function getVaultEntries(key: Uint8Array): Promise<VaultEntry[]> {
           favorite: false,
           createdAt: encryptedEntry.createdAt,
           updatedAt: encryptedEntry.updatedAt,
+          revision: encryptedEntry.revision,
         };
       }
     });
@@ -124,9 +137,10 @@ export async function getVaultEntries(key: Uint8Array): Promise<VaultEntry[]> {
  * Get a single vault entry by ID
  * @param id Entry ID
  * @param key The encryption key
+ * @param userId The owner's user ID
  * @returns Decrypted vault entry
  */
-export async function getVaultEntry(id: string, key: Uint8Array): Promise<VaultEntry | null> {
+export async function getVaultEntry(id: string, key: Uint8Array, userId: string): Promise<VaultEntry | null> {
   try {
     const response = await apiService.getVaultEntry(id);
     
@@ -137,9 +151,10 @@ export async function getVaultEntry(id: string, key: Uint8Array): Promise<VaultE
     return decryptVaultEntry({
       id: response.data.id,
       encryptedData: response.data.encryptedData,
+      revision: response.data.revision,
       createdAt: response.data.createdAt,
       updatedAt: response.data.updatedAt,
-    }, key);
+    }, key, userId);
   } catch (error) {
     console.error(`Failed to get vault entry ${id}:`, error);
     return null;
@@ -150,36 +165,31 @@ export async function getVaultEntry(id: string, key: Uint8Array): Promise<VaultE
  * Create a new vault entry
  * @param entry The vault entry to create
  * @param key The encryption key
- * @param salt The salt used for key derivation
+ * @param userId The owner's user ID
  * @returns The created vault entry
  */
 export async function createVaultEntry(
   entry: Omit<VaultEntry, 'id' | 'createdAt' | 'updatedAt'>,
   key: Uint8Array,
-  salt: Uint8Array
+  userId: string
 ): Promise<VaultEntry> {
   try {
-    // Create a temporary entry with placeholder values for encryption
+    // The ID is bound into the ciphertext, so it is chosen here rather than by the server
     const tempEntry: VaultEntry = {
       ...entry,
-      id: 'temp-id',
+      id: crypto.randomUUID(),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
     
     // Encrypt the entry
-    const encryptedEntry = encryptVaultEntry(tempEntry, key, salt);
+    const encryptedEntry = encryptVaultEntry(tempEntry, key, userId);
     
     // Send only the encrypted data to the server
     const response = await apiService.createVaultEntry({
+      id: tempEntry.id,
       encryptedData: encryptedEntry.encryptedData,
-      metadata: {
-        title: entry.name,
-        url: entry.url,
-        category: entry.category,
-        tags: entry.tags,
-        lastModified: new Date().toISOString(),
-      },
+      itemType: encryptedEntry.itemType,
     });
     
     if (response.error || !response.data) {
@@ -192,6 +202,7 @@ export async function createVaultEntry(
       id: response.data.id,
       createdAt: response.data.createdAt,
       updatedAt: response.data.updatedAt,
+      revision: response.data.revision,
     };
   } catch (error) {
     throw error;
@@ -201,18 +212,23 @@ export async function createVaultEntry(
 /**
  * Update an existing vault entry
  * @param id Entry ID
- * @param entry The updated vault entry
+ * @param entry The updated vault entry, carrying the revision it was read at
  * @param key The encryption key
- * @param salt The salt used for key derivation
+ * @param userId The owner's user ID
  * @returns The updated vault entry
  */
 export async function updateVaultEntry(
   id: string,
   entry: Omit<VaultEntry, 'id' | 'createdAt' | 'updatedAt'>,
   key: Uint8Array,
-  salt: Uint8Array
+  userId: string
 ): Promise<VaultEntry> {
   try {
+    // Without the revision the server cannot tell whether this overwrites a newer change
+    if (entry.revision === undefined) {
+      throw new Error('Entry revision unknown');
+    }
+    
     // Create a temporary entry with the ID and placeholder timestamps
     const tempEntry: VaultEntry = {
       ...entry,
@@ -222,18 +238,13 @@ export async function updateVaultEntry(
     };
     
     // Encrypt the entry
-    const encryptedEntry = encryptVaultEntry(tempEntry, key, salt);
+    const encryptedEntry = encryptVaultEntry(tempEntry, key, userId);
     
     // Send only the encrypted data to the server
     const response = await apiService.updateVaultEntry(id, {
       encryptedData: encryptedEntry.encryptedData,
-      metadata: {
-        title: entry.name,
-        url: entry.url,
-        category: entry.category,
-        tags: entry.tags,
-        lastModified: new Date().toISOString(),
-      },
+      itemType: encryptedEntry.itemType,
+      revision: entry.revision,
     });
     
     if (response.error || !response.data) {
@@ -246,12 +257,110 @@ export async function updateVaultEntry(
       id,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      revision: response.data.revision,
     };
   } catch (error) {
     throw error;
   }
 }
 
+/**
+ * Whether a stored entry predates the current format, either because its
+ * ciphertext is a legacy blob or because the server still holds plaintext metadata
+ */
+function needsMigration(stored: StoredVaultEntry): boolean {
+  return isLegacyEnvelope(stored.encryptedData) || !!stored.legacyMetadata;
+}
+
+/**
+ * Decrypt an entry awaiting migration, whose ciphertext may still be a legacy blob
+ */
+function decryptLegacyEntry(stored: StoredVaultEntry, key: Uint8Array, userId: string): VaultEntry {
+  if (!isLegacyEnvelope(stored.encryptedData)) {
+    return decryptVaultEntry(stored, key, userId);
+  }
+  
+  const entry = JSON.parse(
+    openLegacyBlob(stored.encryptedData, key, vaultEntryAssociatedData(stored.id, userId))
+  ) as VaultEntry;
+  
+  return {
+    ...entry,
+    id: stored.id,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    revision: stored.revision,
+  };
+}
+
+/**
+ * Fill in entry fields from legacy plaintext metadata the encrypted payload lacks
+ */
+function mergeLegacyMetadata(entry: VaultEntry, metadata: StoredVaultEntry['legacyMetadata']): VaultEntry {
+  if (!metadata) {
+    return entry;
+  }
+  
+  return {
+    ...entry,
+    name: entry.name || metadata.title || '',
+    url: entry.url ?? metadata.url,
+    category: entry.category ?? metadata.category,
+    tags: entry.tags ?? metadata.tags,
+  };
+}
+
+/**
+ * Migrate entries saved in an older format: legacy ciphertexts are re-encrypted into
+ * the current envelope, and plaintext metadata is moved into the encrypted payload,
+ * which also clears it on the server.
+ * Meant to run in the background after unlock; entries that fail, or were changed
+ * elsewhere in the meantime, are left for the next pass.
+ * @param vaultKey The encryption key
+ * @param userId The owner's user ID
+ * @returns The migrated entries, with their new revisions
+ */
+export async function migrateLegacyEntries(vaultKey: Uint8Array, userId: string): Promise<VaultEntry[]> {
+  // Work on a copy, so locking the vault meanwhile cannot zero the key mid-pass
+  const key = vaultKey.slice();
+  
+  try {
+    const response = await apiService.getVaultEntries();
+    
+    if (response.error || !response.data) {
+      throw new Error(response.error || 'Failed to get vault entries');
+    }
+    
+    const migrated: VaultEntry[] = [];
+    for (const stored of response.data) {
+      if (!needsMigration(stored)) {
+        continue;
+      }
+      
+      try {
+        const entry = mergeLegacyMetadata(decryptLegacyEntry(stored, key, userId), stored.legacyMetadata);
+        const { encryptedData, itemType } = encryptVaultEntry(entry, key, userId);
+        
+        const result = await apiService.updateVaultEntry(stored.id, {
+          encryptedData,
+          itemType,
+          revision: stored.revision,
+        });
+        
+        if (!result.error && result.data) {
+          migrated.push({ ...entry, revision: result.data.revision });
+        }
+      } catch (error) {
+        console.error('Failed to migrate entry:', stored.id, error);
+      }
+    }
+    
+    return migrated;
+  } finally {
+    key.fill(0);
+  }
+}
+
 /**
  * Delete a vault entry
  * @param id Entry ID
@@ -272,22 +381,23 @@ export async function deleteVaultEntry(id: string): Promise<boolean> {
  * Export vault data as encrypted JSON
  * @param entries Vault entries to export
  * @param key The encryption key
- * @param salt The salt used for key derivation
+ * @param userId The owner's user ID
  * @returns JSON string of encrypted vault data
  */
 export function exportVault(
   entries: VaultEntry[],
   key: Uint8Array,
-  salt: Uint8Array
+  userId: string
 ): string {
   // Encrypt each entry
-  const encryptedEntries = entries.map(entry => encryptVaultEntry(entry, key, salt));
+  const encryptedEntries = entries.map(entry => encryptVaultEntry(entry, key, userId));
   
-  // Create export object with metadata
+  // Create export object with metadata; the user ID is needed to verify the entries again
   const exportData = {
     format: 'falconpass-export',
     version: '1.0.0',
     timestamp: new Date().toISOString(),
+    userId,
     entries: encryptedEntries,
   };
   
@@ -313,7 +423,7 @@ export function importVault(jsonData: string, key: Uint8Array): VaultEntry[] {
     // Decrypt each entry
     return importData.entries.map((encryptedEntry: EncryptedVaultEntry) => {
       try {
-        return decryptVaultEntry(encryptedEntry, key);
+        return decryptVaultEntry(encryptedEntry, key, importData.userId);
       } catch (error) {
         console.error('Failed to decrypt entry during import:', encryptedEntry.id, error);
         // Return a placeholder for entries that couldn't be decrypted
@@ -336,28 +446,26 @@ export function importVault(jsonData: string, key: Uint8Array): VaultEntry[] {
  * Import vault entries from encrypted JSON file
  * @param entries Entries to import
  * @param key The encryption key
- * @param salt The salt used for key derivation
+ * @param userId The owner's user ID
  * @returns List of created vault entries
  */
 export async function importVaultEntries(
   entries: VaultEntry[],
   key: Uint8Array,
-  salt: Uint8Array
+  userId: string
 ): Promise<VaultEntry[]> {
   try {
-    // Encrypt each entry
-    const encryptedEntries = entries.map(entry => {
-      // Create a temporary entry with placeholder values
-      const tempEntry: VaultEntry = {
-        ...entry,
-        id: 'temp-id',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      
-      // Encrypt and return only the encrypted data
-      const encrypted = encryptVaultEntry(tempEntry, key, salt);
-      return encrypted.encryptedData;
+    // Re-encrypt each entry under a fresh ID, bound to the importing user
+    const importedEntries = entries.map(entry => ({
+      ...entry,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    }));
+    
+    const encryptedEntries = importedEntries.map(entry => {
+      const encrypted = encryptVaultEntry(entry, key, userId);
+      return { id: encrypted.id, encryptedData: encrypted.encryptedData };
     });
     
     // Send to server
@@ -367,9 +475,33 @@ export async function importVaultEntries(
       throw new Error(response.error || 'Failed to import vault entries');
     }
     
-    // Return the original entries (the server doesn't return the decrypted data)
-    return entries;
+    // Return the imported entries (the server doesn't return the decrypted data)
+    return importedEntries;
   } catch (error) {
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Decrypt the vault of an account takeout into a readable bundle
+ * Entries that fail to decrypt are listed by ID rather than failing the whole bundle.
+ * @param takeout The takeout archive as the server sent it
+ * @param key The encryption key
+ * @param userId The owner's user ID
+ * @returns The takeout with its vault in plain text
+ */
+export function decryptTakeout(takeout: AccountTakeout, key: Uint8Array, userId: string): ReadableTakeout {
+  const vault: VaultEntry[] = [];
+  const undecryptable: string[] = [];
+  
+  for (const stored of takeout.vault) {
+    try {
+      vault.push(mergeLegacyMetadata(decryptVaultEntry(stored, key, userId), stored.legacyMetadata));
+    } catch (error) {
+      console.error('Failed to decrypt entry:', stored.id, error);
+      undecryptable.push(stored.id);
+    }
+  }
+  
+  return { ...takeout, vault, undecryptable };
+}
@@ -7,17 +7,13 @@ import { apiService } from './api';
 import type { VaultEntry, VaultEntryData, VaultStats } from '../types/api.types';
 import {
   initCrypto,
-  deriveKeyFromPassword,
-  encryptData,
-  decryptData,
-  serializeEncryptedData,
-  deserializeEncryptedData,
+  sealEnvelope,
+  openEnvelope,
+  vaultEntryAssociatedData,
 } from '../crypto';
+import * as keyManager from './keyManager';
 
 class VaultService {
-  private masterKey: Uint8Array | null = null;
-  private masterPassword: string | null = null;
-
   /**
    * Initialize the vault service
    */
@@ -26,56 +22,48 @@ class VaultService {
   }
 
   /**
-   * Set master password and derive key
-   */
-  async setMasterPassword(password: string): Promise<void> {
-    this.masterPassword = password;
-    const { key } = await deriveKeyFromPassword(password);
-    this.masterKey = key;
-  }
-
-  /**
-   * Clear master password and key from memory
+   * Check if vault is unlocked
    */
-  clearMasterPassword(): void {
-    this.masterPassword = null;
-    this.masterKey = null;
+  isUnlocked(): boolean {
+    return keyManager.isUnlocked();
   }
 
   /**
-   * Check if vault is unlocked
+   * Lock the vault, zeroing the keys held by the key manager
    */
-  isUnlocked(): boolean {
-    return this.masterKey !== null;
+  lock(): void {
+    keyManager.lock();
   }
 
   /**
    * Encrypt vault entry data
    */
-  private encryptVaultEntry(entry: VaultEntryData): string {
-    if (!this.masterKey) {
+  private encryptVaultEntry(id: string, entry: VaultEntryData): string {
+    if (!this.isUnlocked()) {
       throw new Error('Vault is locked. Please enter your master password.');
     }
 
     const dataString = JSON.stringify(entry);
-    const { ciphertext, nonce } = encryptData(dataString, this.masterKey);
-    
-    // For this implementation, we'll use a simple salt (in production, use a proper salt)
-    const salt = new Uint8Array(16); // This should be stored securely
-    
-    return serializeEncryptedData(ciphertext, nonce, salt);
+    return sealEnvelope(
+      dataString,
+      keyManager.getVaultKey(),
+      vaultEntryAssociatedData(id, keyManager.getKeyOwner())
+    );
   }
 
   /**
    * Decrypt vault entry data
    */
-  private decryptVaultEntry(encryptedData: string): VaultEntryData {
-    if (!this.masterKey) {
+  private decryptVaultEntry(id: string, encryptedData: string): VaultEntryData {
+    if (!this.isUnlocked()) {
       throw new Error('Vault is locked. Please enter your master password.');
     }
 
-    const { ciphertext, nonce, salt } = deserializeEncryptedData(encryptedData);
-    const dataString = decryptData(ciphertext, nonce, this.masterKey);
+    const dataString = openEnvelope(
+      encryptedData,
+      keyManager.getVaultKey(),
+      vaultEntryAssociatedData(id, keyManager.getKeyOwner())
+    );
     
     return JSON.parse(dataString);
   }
@@ -170,13 +158,7 @@ class VaultService {
       // In production, this would encrypt and save to the backend
       const response = await apiService.createVaultEntry({
         encryptedData: JSON.stringify(newEntry), // Mock encryption
-        metadata: {
-          title: entry.title,
-          url: entry.url,
-          category: entry.category,
-          tags: entry.tags,
-          lastModified: newEntry.lastModified,
-        },
+        itemType: 'login',
       });
 
       if (response.error) {
@@ -199,27 +181,26 @@ class VaultService {
 
   /**
    * Update a vault entry
+   * @param revision Server revision the entry was read at
+   * @returns The entry's new revision
    */
-  async updateVaultEntry(id: string, entry: VaultEntryData): Promise<void> {
+  async updateVaultEntry(id: string, entry: VaultEntryData, revision: number): Promise<number> {
     if (!this.isUnlocked()) {
       throw new Error('Vault is locked. Please enter your master password.');
     }
 
-    const encryptedData = this.encryptVaultEntry(entry);
+    const encryptedData = this.encryptVaultEntry(id, entry);
     const response = await apiService.updateVaultEntry(id, {
       encryptedData,
-      metadata: {
-        title: entry.title,
-        url: entry.url,
-        category: entry.category,
-        tags: entry.tags,
-        lastModified: new Date().toISOString(),
-      },
+      itemType: 'login',
+      revision,
     });
 
     if (response.error) {
       throw new Error(response.error);
     }
+
+    return response.data!.revision;
   }
 
   /**
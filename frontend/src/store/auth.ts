@@ -7,7 +7,19 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import * as authService from '../services/auth';
-import type { AuthState, LoginCredentials, RegisterCredentials, User } from '../types';
+import * as keyManager from '../services/keyManager';
+import * as quickUnlock from '../services/quickUnlock';
+import type {
+  AuthState,
+  LoginCredentials,
+  RegisterCredentials,
+  PasswordChangeCredentials,
+  PasswordChangeStep,
+  User,
+  PasskeyRegistration,
+  TwoFactorMethod,
+  SecondFactorResponse,
+} from '../types';
 
 const initialState: AuthState = {
   user: null,
@@ -18,9 +30,18 @@ const initialState: AuthState = {
 
 export const useAuthStore = create<
   AuthState & {
-    login: (credentials: LoginCredentials) => Promise<User>;
+    login: (
+      credentials: LoginCredentials,
+      onSecondFactor?: (methods: TwoFactorMethod[]) => Promise<SecondFactorResponse>
+    ) => Promise<User>;
+    loginWithPasskey: () => Promise<User>;
+    registerPasskey: () => Promise<PasskeyRegistration>;
     register: (credentials: RegisterCredentials) => Promise<User>;
     logout: () => Promise<void>;
+    changePassword: (
+      credentials: PasswordChangeCredentials,
+      onProgress?: (step: PasswordChangeStep) => void
+    ) => Promise<void>;
     checkAuth: () => Promise<void>;
     clearError: () => void;
   }
@@ -29,13 +50,22 @@ export const useAuthStore = create<
     (set, get) => ({
       ...initialState,
 
-      login: async (credentials) => {
+      login: async (credentials, onSecondFactor) => {
         set({ isLoading: true, error: null });
+        // A fresh login replaces whatever keys were held before
+        keyManager.lock();
+        keyManager.beginUnlock();
         try {
-          const user = await authService.login(credentials);
+          const { user, vaultKey } = await authService.login(credentials, onSecondFactor);
+          keyManager.completeUnlock(vaultKey, user.id);
+          // A quick unlock set up by someone else in this tab must not carry over
+          if (!quickUnlock.getQuickUnlockMethod(user.id)) {
+            quickUnlock.disableQuickUnlock();
+          }
           set({ user, isAuthenticated: true, isLoading: false });
           return user;
         } catch (error) {
+          keyManager.abortUnlock();
           set({
             isLoading: false,
             error: error instanceof Error ? error.message : 'Authentication failed',
@@ -44,6 +74,37 @@ export const useAuthStore = create<
         }
       },
 
+      loginWithPasskey: async () => {
+        set({ isLoading: true, error: null });
+        keyManager.lock();
+        keyManager.beginUnlock();
+        try {
+          const { user, vaultKey } = await authService.loginWithPasskey();
+          // Without a vault key the session starts locked, and the unlock screen asks for the master password
+          if (vaultKey) {
+            keyManager.completeUnlock(vaultKey, user.id);
+          } else {
+            keyManager.abortUnlock();
+          }
+          if (!quickUnlock.getQuickUnlockMethod(user.id)) {
+            quickUnlock.disableQuickUnlock();
+          }
+          set({ user, isAuthenticated: true, isLoading: false });
+          return user;
+        } catch (error) {
+          keyManager.abortUnlock();
+          set({
+            isLoading: false,
+            error: error instanceof Error ? error.message : 'Authentication failed',
+          });
+          throw error;
+        }
+      },
+
+      registerPasskey: async () => {
+        return authService.registerWebAuthnCredential(keyManager.getVaultKey());
+      },
+
       register: async (credentials) => {
         set({ isLoading: true, error: null });
         try {
@@ -62,6 +123,9 @@ export const useAuthStore = create<
       logout: async () => {
         set({ isLoading: true });
         try {
+          // Drop the keys first, whether or not the server hears about it
+          keyManager.lock();
+          quickUnlock.disableQuickUnlock();
           await authService.logout();
           set({ ...initialState, isLoading: false });
         } catch (error) {
@@ -72,6 +136,16 @@ export const useAuthStore = create<
         }
       },
 
+      changePassword: async (credentials, onProgress) => {
+        const { user } = get();
+        if (!user) {
+          throw new Error('Not authenticated');
+        }
+
+        const vaultKey = await authService.changePassword(user.email, credentials, onProgress);
+        keyManager.replaceVaultKey(vaultKey);
+      },
+
       checkAuth: async () => {
         set({ isLoading: true });
         try {
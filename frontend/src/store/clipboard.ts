@@ -0,0 +1,32 @@
+/**
+ * Clipboard Store
+ *
+ * Copies through the clipboard service with the configured clear delay and
+ * tracks when the clipboard will be cleared, for the countdown indicator
+ */
+
+import { create } from 'zustand';
+import * as clipboardService from '../services/clipboard';
+import { useSettingsStore } from './settings';
+import type { ClipboardState } from '../types';
+
+export const useClipboardStore = create<
+  ClipboardState & {
+    copy: (text: string) => Promise<void>;
+    clearNow: () => Promise<void>;
+  }
+>(set => ({
+  clearsAt: null,
+  clearAfter: 0,
+
+  copy: async (text) => {
+    const clearAfter = useSettingsStore.getState().clearClipboardAfter;
+    await clipboardService.copyText(text, clearAfter, () => set({ clearsAt: null }));
+    set({
+      clearsAt: clearAfter > 0 ? Date.now() + clearAfter * 1000 : null,
+      clearAfter,
+    });
+  },
+
+  clearNow: () => clipboardService.clearNow(),
+}));
@@ -4,4 +4,6 @@
 
 export * from './auth';
 export * from './vault';
-export * from './settings';
\ No newline at end of file
+export * from './lock';
+export * from './settings';
+export * from './clipboard';
\ No newline at end of file
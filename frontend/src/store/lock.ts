@@ -0,0 +1,124 @@
+/**
+ * Lock Store
+ *
+ * Exposes the vault lock state using Zustand; the keys themselves never
+ * leave the key manager
+ */
+
+import { create } from 'zustand';
+import * as keyManager from '../services/keyManager';
+import * as authService from '../services/auth';
+import * as quickUnlockService from '../services/quickUnlock';
+import { useAuthStore } from './auth';
+import type { LockState, QuickUnlockMethod } from '../types';
+
+/**
+ * ID of the signed-in user
+ */
+function currentUserId(): string {
+  const { user } = useAuthStore.getState();
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+  return user.id;
+}
+
+/**
+ * Quick-unlock method of the signed-in user, if any
+ */
+function currentQuickUnlock(): QuickUnlockMethod | null {
+  const { user } = useAuthStore.getState();
+  return user ? quickUnlockService.getQuickUnlockMethod(user.id) : null;
+}
+
+export const useLockStore = create<
+  LockState & {
+    unlock: (password: string) => Promise<void>;
+    unlockWithPin: (pin: string) => Promise<void>;
+    unlockWithPasskey: () => Promise<void>;
+    enablePinUnlock: (pin: string) => Promise<void>;
+    enablePasskeyUnlock: () => Promise<void>;
+    disableQuickUnlock: () => void;
+    lock: () => void;
+    clearError: () => void;
+  }
+>(set => {
+  /**
+   * Run an unlock attempt through the key manager's unlocking state
+   */
+  const runUnlock = async (unwrap: (userId: string) => Promise<Uint8Array>) => {
+    const userId = currentUserId();
+
+    set({ error: null });
+    keyManager.beginUnlock();
+    try {
+      const vaultKey = await unwrap(userId);
+      keyManager.completeUnlock(vaultKey, userId);
+    } catch (error) {
+      keyManager.abortUnlock();
+      // Failed quick unlocks may have used up the last attempt
+      set({
+        quickUnlock: currentQuickUnlock(),
+        error: error instanceof Error ? error.message : 'Unlock failed',
+      });
+      throw error;
+    }
+  };
+
+  return {
+    status: keyManager.getLockStatus(),
+    // Keys never survive a reload, so a restored session starts out locked
+    sessionLocked: useAuthStore.getState().isAuthenticated,
+    quickUnlock: currentQuickUnlock(),
+    error: null,
+
+    unlock: (password) => runUnlock(() => authService.unlockVault(password)),
+
+    unlockWithPin: (pin) => runUnlock(userId => quickUnlockService.unlockWithPin(pin, userId)),
+
+    unlockWithPasskey: () => runUnlock(userId => quickUnlockService.unlockWithPasskey(userId)),
+
+    enablePinUnlock: async (pin) => {
+      await quickUnlockService.enablePinUnlock(pin, keyManager.getVaultKey(), keyManager.getKeyOwner());
+      set({ quickUnlock: 'pin' });
+    },
+
+    enablePasskeyUnlock: async () => {
+      await quickUnlockService.enablePasskeyUnlock(keyManager.getVaultKey(), keyManager.getKeyOwner());
+      set({ quickUnlock: 'prf' });
+    },
+
+    disableQuickUnlock: () => {
+      quickUnlockService.disableQuickUnlock();
+      set({ quickUnlock: null });
+    },
+
+    lock: () => {
+      // Only an unlocked vault has anything to come back to
+      if (keyManager.isUnlocked()) {
+        set({ sessionLocked: true });
+      }
+      keyManager.lock();
+    },
+
+    clearError: () => set({ error: null }),
+  };
+});
+
+// Mirror every transition, including unlocks done by login
+keyManager.subscribe(status => {
+  useLockStore.setState(status === 'unlocked' ? { status, sessionLocked: false } : { status });
+});
+
+// Signing out ends the session, so there is nothing left to unlock. A session
+// without keys, such as one signed in by a passkey that cannot unlock, is locked.
+useAuthStore.subscribe(state => {
+  if (!state.isAuthenticated) {
+    useLockStore.setState({ sessionLocked: false, quickUnlock: null, error: null });
+  } else {
+    useLockStore.setState({
+      sessionLocked: keyManager.getLockStatus() !== 'unlocked',
+      quickUnlock: currentQuickUnlock(),
+    });
+  }
+});
@@ -6,7 +6,12 @@
 
 import { create } from 'zustand';
 import * as vaultService from '../services/vault';
-import type { VaultEntry, VaultState } from '../types';
+import * as keyManager from '../services/keyManager';
+import type { ReadableTakeout, VaultEntry, VaultState } from '../types';
+import type { AccountTakeout } from '../types/api.types';
+
+// Background pass migrating entries saved in an older format, if one is running
+let legacyMigration: Promise<number> | null = null;
 
 const initialState: VaultState = {
   entries: [],
@@ -20,28 +25,55 @@ const initialState: VaultState = {
 
 export const useVaultStore = create<
   VaultState & {
-    fetchEntries: (key: Uint8Array) => Promise<void>;
-    getEntry: (id: string, key: Uint8Array) => Promise<VaultEntry | null>;
-    createEntry: (entry: Omit<VaultEntry, 'id' | 'createdAt' | 'updatedAt'>, key: Uint8Array, salt: Uint8Array) => Promise<VaultEntry>;
-    updateEntry: (id: string, entry: Omit<VaultEntry, 'id' | 'createdAt' | 'updatedAt'>, key: Uint8Array, salt: Uint8Array) => Promise<VaultEntry>;
+    fetchEntries: () => Promise<void>;
+    getEntry: (id: string) => Promise<VaultEntry | null>;
+    createEntry: (entry: Omit<VaultEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<VaultEntry>;
+    updateEntry: (id: string, entry: Omit<VaultEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<VaultEntry>;
     deleteEntry: (id: string) => Promise<boolean>;
     setSearchTerm: (term: string) => void;
     setSelectedTags: (tags: string[]) => void;
     setSelectedCategory: (category: string | null) => void;
     setShowFavoritesOnly: (show: boolean) => void;
     clearFilters: () => void;
-    exportVault: (key: Uint8Array, salt: Uint8Array) => string;
-    importVault: (jsonData: string, key: Uint8Array, salt: Uint8Array) => Promise<VaultEntry[]>;
+    exportVault: () => string;
+    importVault: (jsonData: string) => Promise<VaultEntry[]>;
+    decryptTakeout: (takeout: AccountTakeout) => ReadableTakeout;
     clearError: () => void;
   }
->(set => ({
+>((set, get) => ({
   ...initialState,
 
-  fetchEntries: async (key) => {
+  fetchEntries: async () => {
     set({ isLoading: true, error: null });
     try {
-      const entries = await vaultService.getVaultEntries(key);
+      const key = keyManager.getVaultKey();
+      const userId = keyManager.getKeyOwner();
+      const entries = await vaultService.getVaultEntries(key, userId);
+
+      // The vault may have been locked, zeroing this key, while the request was in flight
+      if (!keyManager.isUnlocked() || keyManager.getVaultKey() !== key) {
+        set({ isLoading: false });
+        return;
+      }
       set({ entries, isLoading: false });
+      
+      // Migrate entries still in a legacy format without holding up the unlock
+      if (!legacyMigration) {
+        legacyMigration = vaultService.migrateLegacyEntries(key, userId)
+          .then(migrated => {
+            // Pick up the new revisions, and any metadata that moved into the payload
+            const byId = new Map(migrated.map(entry => [entry.id, entry]));
+            set(state => ({ entries: state.entries.map(e => byId.get(e.id) ?? e) }));
+            return migrated.length;
+          })
+          .catch(error => {
+            console.warn('Background vault migration failed:', error);
+            return 0;
+          })
+          .finally(() => {
+            legacyMigration = null;
+          });
+      }
     } catch (error) {
       set({
         isLoading: false,
@@ -50,9 +82,9 @@ export const useVaultStore = create<
     }
   },
 
-  getEntry: async (id, key) => {
+  getEntry: async (id) => {
     try {
-      return await vaultService.getVaultEntry(id, key);
+      return await vaultService.getVaultEntry(id, keyManager.getVaultKey(), keyManager.getKeyOwner());
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : `Failed to get entry ${id}`,
@@ -61,10 +93,10 @@ export const useVaultStore = create<
     }
   },
 
-  createEntry: async (entry, key, salt) => {
+  createEntry: async (entry) => {
     set({ isLoading: true, error: null });
     try {
-      const newEntry = await vaultService.createVaultEntry(entry, key, salt);
+      const newEntry = await vaultService.createVaultEntry(entry, keyManager.getVaultKey(), keyManager.getKeyOwner());
       set(state => ({
         entries: [...state.entries, newEntry],
         isLoading: false,
@@ -79,10 +111,17 @@ export const useVaultStore = create<
     }
   },
 
-  updateEntry: async (id, entry, key, salt) => {
+  updateEntry: async (id, entry) => {
     set({ isLoading: true, error: null });
     try {
-      const updatedEntry = await vaultService.updateVaultEntry(id, entry, key, salt);
+      // Callers edit entries without tracking revisions, so use the one last loaded
+      const revision = entry.revision ?? get().entries.find(e => e.id === id)?.revision;
+      const updatedEntry = await vaultService.updateVaultEntry(
+        id,
+        { ...entry, revision },
+        keyManager.getVaultKey(),
+        keyManager.getKeyOwner()
+      );
       set(state => ({
         entries: state.entries.map(e => (e.id === id ? updatedEntry : e)),
         isLoading: false,
@@ -134,19 +173,20 @@ export const useVaultStore = create<
     showFavoritesOnly: false,
   }),
 
-  exportVault: (key, salt) => {
-    const { entries } = useVaultStore.getState();
-    return vaultService.exportVault(entries, key, salt);
+  exportVault: () => {
+    const { entries } = get();
+    return vaultService.exportVault(entries, keyManager.getVaultKey(), keyManager.getKeyOwner());
   },
 
-  importVault: async (jsonData, key, salt) => {
+  importVault: async (jsonData) => {
     set({ isLoading: true, error: null });
     try {
       // Parse and decrypt the imported entries
+      const key = keyManager.getVaultKey();
       const importedEntries = vaultService.importVault(jsonData, key);
       
       // Save to server
-      const savedEntries = await vaultService.importVaultEntries(importedEntries, key, salt);
+      const savedEntries = await vaultService.importVaultEntries(importedEntries, key, keyManager.getKeyOwner());
       
       // Update state
       set(state => ({
@@ -164,9 +204,20 @@ export const useVaultStore = create<
     }
   },
 
+  decryptTakeout: (takeout) => {
+    return vaultService.decryptTakeout(takeout, keyManager.getVaultKey(), keyManager.getKeyOwner());
+  },
+
   clearError: () => set({ error: null }),
 }));
 
+// Decrypted entries must not outlive the keys
+keyManager.subscribe(status => {
+  if (status === 'locked') {
+    useVaultStore.setState(initialState);
+  }
+});
+
 // Selector for filtered entries
 export const useFilteredEntries = () => {
   const { entries, searchTerm, selectedTags, selectedCategory, showFavoritesOnly } = useVaultStore();
@@ -2,6 +2,9 @@
  * API Types for FalconPass Frontend
  */
 
+import type { KdfParams, TwoFactorMethod } from './index';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/browser';
+
 export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
@@ -14,38 +17,179 @@ export interface User {
   username: string;
   createdAt: string;
   updatedAt: string;
+  hasWebAuthn?: boolean;
+  hasTotp?: boolean;
+  recoveryCodesRemaining?: number;
+  lastLockoutAt?: string | null; // Last time failed logins locked the account
+  deletionDueAt?: string | null; // Set while a deleted account can still be restored
 }
 
 export interface VaultEntry {
   id: string;
   userId: string;
   encryptedData: string;
-  metadata: {
+  itemType: string;
+  revision: number;
+  // Plaintext metadata of entries saved before it moved into encryptedData; null once migrated
+  legacyMetadata: {
     title?: string;
     url?: string;
     category?: string;
     tags?: string[];
     lastModified?: string;
-  };
+  } | null;
   createdAt: string;
   updatedAt: string;
 }
 
 export interface LoginChallenge {
+  challengeId: string; // Identifies this challenge when answering it
   serverEphemeral: string;
   salt: string;
-  iterations: number;
+  kdf: KdfParams;
+  wrappedVaultKey?: string | null; // Only returned for a password change
 }
 
 export interface AuthResponse {
+  challengeId: string;
   clientProof: string;
   clientEphemeral: string;
 }
 
+export interface PasswordChangeRequest {
+  authResponse: AuthResponse;
+  clientSalt: string;
+  verifier: string;
+  wrappedVaultKey: string;
+  kdf: KdfParams;
+}
+
+export interface PasskeyLoginResult {
+  userId: string;
+  username: string;
+  email: string;
+  prfWrappedVaultKey: string | null;
+}
+
+export interface WebAuthnCredentialInfo {
+  id: string;
+  credentialId: string;
+  credentialDeviceType: string;
+  credentialBackedUp: boolean;
+  prfEnabled: boolean;
+  createdAt: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  deviceName: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean; // The session of this browser
+}
+
+export type AuditEventType =
+  | 'login'
+  | 'login_failed'
+  | 'account_locked'
+  | 'password_changed'
+  | 'kdf_upgraded'
+  | 'webauthn_added'
+  | 'webauthn_removed'
+  | 'totp_enabled'
+  | 'totp_disabled'
+  | 'recovery_codes_regenerated'
+  | 'vault_exported'
+  | 'vault_imported'
+  | 'account_deletion_scheduled'
+  | 'account_restored'
+  | 'account_exported';
+
+// Fresh proof of identity for a sensitive action, on top of the session
+export interface ReauthenticationRequest {
+  authResponse: AuthResponse; // Fresh proof of the master password
+  secondFactor?:
+    | { method: 'totp' | 'recovery'; code: string }
+    | { method: 'webauthn'; credential: AuthenticationResponseJSON };
+}
+
+export interface AccountDeletionRequest extends ReauthenticationRequest {
+  gracePeriod: boolean;
+}
+
+export interface SignedDeletionReceipt {
+  receipt: {
+    receiptId: string;
+    userId: string;
+    email: string;
+    requestedAt: string;
+    purgeAt: string; // When the account's data is or was purged
+  };
+  signature: string; // Lets the server confirm it issued the receipt
+}
+
+// Everything the server holds about the account; the vault stays encrypted
+export interface AccountTakeout {
+  takeoutId: string;
+  exportedAt: string;
+  profile: User;
+  webauthnCredentials: WebAuthnCredentialInfo[];
+  sessions: {
+    id: string;
+    deviceName: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+    expiresAt: string;
+    revokedAt: string | null;
+  }[];
+  auditEvents: {
+    id: string;
+    type: AuditEventType;
+    ipAddress: string | null;
+    userAgent: string | null;
+    details: Record<string, unknown>;
+    createdAt: string;
+  }[];
+  vault: Omit<VaultEntry, 'userId'>[];
+}
+
+export interface SignedAccountTakeout {
+  takeout: AccountTakeout;
+  signature: string; // Lets the server confirm it issued the archive, unaltered
+}
+
+export interface AuditEventInfo {
+  id: string;
+  type: AuditEventType;
+  ipAddress: string | null;
+  deviceName: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AuditEventPage {
+  events: AuditEventInfo[]; // Newest first
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface TwoFactorEnrollmentResult {
+  verified: boolean;
+  recoveryCodes?: string[]; // Only on the first second factor
+}
+
 export interface LoginResult {
   userId: string;
   username: string;
   token: string;
+  serverProof?: string;
+  wrappedVaultKey?: string | null;
+  twoFactorRequired?: boolean; // The session is unusable until the second factor is verified
+  twoFactorMethods?: TwoFactorMethod[];
 }
 
 // Vault entry interface for the frontend
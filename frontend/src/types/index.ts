@@ -2,6 +2,8 @@
  * FalconPass Type Definitions
  */
 
+import type { AccountTakeout } from './api.types';
+
 // User authentication types
 export interface User {
   id: string;
@@ -19,11 +21,34 @@ export interface AuthState {
   error: string | null;
 }
 
+// Vault lock state; the keys themselves stay in the key manager
+export type LockStatus = 'locked' | 'unlocking' | 'unlocked';
+
+// Ways to unlock without the master password, set up after a full login
+export type QuickUnlockMethod = 'pin' | 'prf';
+
+export interface LockState {
+  status: LockStatus;
+  sessionLocked: boolean; // Locked while still signed in, so the unlock screen applies
+  quickUnlock: QuickUnlockMethod | null;
+  error: string | null;
+}
+
 export interface LoginCredentials {
   username: string;
   password: string;
 }
 
+// Master password key derivation parameters, stored per user by the server
+export type KdfAlgorithm = 'argon2id';
+
+export interface KdfParams {
+  algorithm: KdfAlgorithm;
+  iterations: number; // Argon2 time cost
+  memory: number; // Argon2 memory cost in KiB
+  parallelism: number;
+}
+
 export interface RegisterCredentials {
   username: string;
   email: string;
@@ -39,13 +64,52 @@ export interface AuthResponse {
   response: string;
 }
 
+export interface LoginSession {
+  user: User;
+  vaultKey: Uint8Array;
+}
+
+export interface PasskeyLoginSession {
+  user: User;
+  vaultKey: Uint8Array | null; // Null when the passkey cannot unlock the vault on its own
+}
+
+export interface PasswordChangeCredentials {
+  currentPassword: string;
+  newPassword: string;
+}
+
+// Stages of a master password change, reported for progress feedback
+export type PasswordChangeStep = 'verifying' | 'deriving' | 'saving';
+
+// Second factors a pending login can be completed with; a recovery code stands in for a lost one
+export type TwoFactorMethod = 'webauthn' | 'totp' | 'recovery';
+
+// How the user chose to complete the second factor
+export type SecondFactorResponse =
+  | { method: 'webauthn' }
+  | { method: 'totp'; code: string }
+  | { method: 'recovery'; code: string };
+
 // WebAuthn types
 export interface WebAuthnCredential {
-  id: string;
+  id: string; // WebAuthn credential ID
   name: string;
+  prfEnabled: boolean; // Whether the passkey can unlock the vault without the master password
   createdAt: string;
 }
 
+export interface PasskeyRegistration {
+  credential: WebAuthnCredential;
+  recoveryCodes: string[] | null; // Issued with the first second factor, shown once
+}
+
+// TOTP types
+export interface TotpEnrollment {
+  secret: string; // Base32, for typing into the authenticator app by hand
+  otpauthUri: string; // Encoded as the QR code
+}
+
 // Vault entry types
 export interface VaultEntry {
   id: string;
@@ -59,15 +123,24 @@ export interface VaultEntry {
   favorite: boolean;
   createdAt: string;
   updatedAt: string;
+  revision?: number; // Server revision, kept outside the encrypted payload
 }
 
 export interface EncryptedVaultEntry {
   id: string;
-  encryptedData: string; // Base64 serialized encrypted data
+  encryptedData: string; // Serialized encrypted envelope
+  itemType?: string;
+  revision?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// Account takeout with the vault decrypted on this device
+export interface ReadableTakeout extends Omit<AccountTakeout, 'vault'> {
+  vault: VaultEntry[];
+  undecryptable: string[]; // IDs of entries that could not be decrypted
+}
+
 export interface VaultState {
   entries: VaultEntry[];
   isLoading: boolean;
@@ -97,6 +170,11 @@ export interface SettingsState extends Settings {
   error: string | null;
 }
 
+export interface ClipboardState {
+  clearsAt: number | null; // Epoch ms at which the clipboard is cleared, null if nothing is pending
+  clearAfter: number; // Delay in seconds the pending clear was scheduled with
+}
+
 // API response types
 export interface ApiResponse<T> {
   success: boolean;